@@ -10,6 +10,9 @@ module.exports = {
       },
       // Secrets come from .env file loaded by config.ts or shell environment
       restart_delay: 5000,
+      // Time to drain running jobs on stop/restart before pm2 sends SIGKILL —
+      // keep it longer than SHUTDOWN_GRACE_MS (default 90 s)
+      kill_timeout: 120000,
       max_restarts: 10,
       watch: false,
       log_date_format: "YYYY-MM-DD HH:mm:ss",
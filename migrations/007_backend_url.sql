@@ -0,0 +1,4 @@
+-- Migration 007: record which ComfyUI backend ran (or, for upscales, holds the
+-- uploaded source image for) each job. NULL = the first configured backend.
+ALTER TABLE jobs ADD COLUMN backend_url TEXT;
+ALTER TABLE upscale_jobs ADD COLUMN backend_url TEXT;
@@ -0,0 +1,6 @@
+-- Migration 008: retry bookkeeping. `attempts` counts runs started for the job;
+-- `last_error` holds the most recent error, including transient ones that were retried.
+ALTER TABLE jobs ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN last_error TEXT;
+ALTER TABLE upscale_jobs ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE upscale_jobs ADD COLUMN last_error TEXT;
@@ -0,0 +1,25 @@
+-- Migration 009: generation quotas.
+-- quota_tiers: limits per Discord role, set by the bot owner with /quota tier-set.
+-- A tier on the guild ID (the @everyone role) is the default for every member.
+-- NULL limit = unlimited.
+CREATE TABLE IF NOT EXISTS quota_tiers (
+  role_id          TEXT    PRIMARY KEY,
+  jobs_per_hour    INTEGER,
+  jobs_per_day     INTEGER,
+  budget_per_day   INTEGER,  -- steps × megapixels over a rolling 24 h
+  updated_by       TEXT    NOT NULL,
+  updated_at       INTEGER NOT NULL
+);
+
+-- quota_usage: one row per submitted job. Kept separately from jobs/upscale_jobs
+-- so the purge does not reset anyone's allowance.
+CREATE TABLE IF NOT EXISTS quota_usage (
+  id          INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id     TEXT    NOT NULL,
+  job_id      TEXT    NOT NULL,
+  kind        TEXT    NOT NULL,  -- gen | upscale
+  cost        REAL    NOT NULL,  -- steps × megapixels (0 for upscales)
+  created_at  INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_quota_usage_user_time ON quota_usage (user_id, created_at);
@@ -0,0 +1,5 @@
+-- Migration 010: batch generation. `batch_size` is the number of images a gen job
+-- produces (1–4); `source_image_index` is which of the source job's images an
+-- upscale was made from (0-based index into jobs.output_images).
+ALTER TABLE jobs ADD COLUMN batch_size INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE upscale_jobs ADD COLUMN source_image_index INTEGER NOT NULL DEFAULT 0;
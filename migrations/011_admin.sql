@@ -0,0 +1,18 @@
+-- Migration 011: owner administration.
+-- bot_settings: runtime switches set with /admin that must survive a restart
+-- (queue paused, maintenance mode). Absent key = default (off).
+CREATE TABLE IF NOT EXISTS bot_settings (
+  key         TEXT    PRIMARY KEY,
+  value       TEXT    NOT NULL,
+  updated_by  TEXT    NOT NULL,
+  updated_at  INTEGER NOT NULL
+);
+
+-- admin_audit: one row per /admin action, never purged.
+CREATE TABLE IF NOT EXISTS admin_audit (
+  id          INTEGER PRIMARY KEY AUTOINCREMENT,
+  actor_id    TEXT    NOT NULL,
+  action      TEXT    NOT NULL,  -- pause | resume | clear | bump | fail | refresh | maintenance-on | maintenance-off
+  detail      TEXT,
+  created_at  INTEGER NOT NULL
+);
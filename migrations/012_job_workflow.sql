@@ -0,0 +1,4 @@
+-- Migration 012: the gen workflow (manifest id) each job was made with, so
+-- re-roll and edit reproduce it. Jobs from before this migration have NULL and
+-- are read back as the configured GEN_WORKFLOW, which is what they ran with.
+ALTER TABLE jobs ADD COLUMN workflow TEXT;
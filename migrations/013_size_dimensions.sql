@@ -0,0 +1,9 @@
+-- Migration 013: jobs store their actual dimensions ("832x1216") instead of a
+-- size name, so re-roll is exact. Rows from before this migration are
+-- rewritten to the SDXL sizes those names stood for. Idempotent.
+UPDATE jobs SET size = CASE size
+  WHEN 'square'    THEN '1024x1024'
+  WHEN 'landscape' THEN '1216x832'
+  ELSE '832x1216'
+END
+WHERE size IN ('portrait', 'square', 'landscape');
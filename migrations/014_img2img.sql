@@ -0,0 +1,5 @@
+-- Migration 014: image-to-image source of a gen job — the uploaded filename,
+-- the backend holding it, and the denoise strength. NULL source = text-to-image.
+ALTER TABLE jobs ADD COLUMN source_image TEXT;
+ALTER TABLE jobs ADD COLUMN source_backend_url TEXT;
+ALTER TABLE jobs ADD COLUMN denoise REAL;
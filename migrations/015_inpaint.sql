@@ -0,0 +1,6 @@
+-- Migration 015: inpaint mask of a gen job — the uploaded mask file and its
+-- grow/feather settings. The image painted into is source_image (014).
+-- NULL mask = not an inpaint job.
+ALTER TABLE jobs ADD COLUMN mask_image TEXT;
+ALTER TABLE jobs ADD COLUMN mask_grow INTEGER;
+ALTER TABLE jobs ADD COLUMN mask_feather INTEGER;
@@ -0,0 +1,4 @@
+-- Migration 016: ControlNet guidance of a gen job, as JSON
+-- {model, image: {filename, backendUrl}, preprocessor, strength, startPercent, endPercent}.
+-- NULL = no ControlNet.
+ALTER TABLE jobs ADD COLUMN control_net TEXT;
@@ -0,0 +1,9 @@
+-- Migration 017: per-job upscale options chosen on the upscale form.
+-- workflow NULL = UPSCALE_WORKFLOW (rows from before the form); scale 2 matches
+-- what the shipped workflows did. denoise/tile_size NULL = the workflow's own.
+-- source_size is the source image's "WxH", for workflows that resize to a target size.
+ALTER TABLE upscale_jobs ADD COLUMN workflow TEXT;
+ALTER TABLE upscale_jobs ADD COLUMN scale REAL NOT NULL DEFAULT 2;
+ALTER TABLE upscale_jobs ADD COLUMN denoise REAL;
+ALTER TABLE upscale_jobs ADD COLUMN tile_size INTEGER;
+ALTER TABLE upscale_jobs ADD COLUMN source_size TEXT;
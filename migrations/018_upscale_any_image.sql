@@ -0,0 +1,51 @@
+-- Migration 018: upscale jobs for images from any message.
+-- source_job_id becomes nullable — NULL = an image attached to a message, not
+-- one of our generations. SQLite cannot drop NOT NULL in place, so the table is
+-- rebuilt with the columns added by migrations 007, 008, 010 and 017.
+CREATE TABLE upscale_jobs_new (
+  id                    TEXT    PRIMARY KEY,
+  source_job_id         TEXT    REFERENCES jobs(id),
+  source_image_filename TEXT    NOT NULL,
+  user_id               TEXT    NOT NULL,
+  guild_id              TEXT    NOT NULL,
+  channel_id            TEXT    NOT NULL,
+  discord_message_id    TEXT,
+  status                TEXT    NOT NULL DEFAULT 'queued',
+  model                 TEXT    NOT NULL DEFAULT '',
+  positive_prompt       TEXT    NOT NULL DEFAULT '',
+  negative_prompt       TEXT    NOT NULL DEFAULT '',
+  upscale_model         TEXT    NOT NULL DEFAULT '',
+  comfy_prompt_id       TEXT,
+  output_images         TEXT,
+  error_message         TEXT,
+  created_at            INTEGER NOT NULL,
+  started_at            INTEGER,
+  completed_at          INTEGER,
+  backend_url           TEXT,
+  attempts              INTEGER NOT NULL DEFAULT 0,
+  last_error            TEXT,
+  source_image_index    INTEGER NOT NULL DEFAULT 0,
+  workflow              TEXT,
+  scale                 REAL    NOT NULL DEFAULT 2,
+  denoise               REAL,
+  tile_size             INTEGER,
+  source_size           TEXT
+);
+
+INSERT INTO upscale_jobs_new (
+  id, source_job_id, source_image_filename, user_id, guild_id, channel_id,
+  discord_message_id, status, model, positive_prompt, negative_prompt, upscale_model,
+  comfy_prompt_id, output_images, error_message, created_at, started_at, completed_at,
+  backend_url, attempts, last_error, source_image_index,
+  workflow, scale, denoise, tile_size, source_size
+)
+SELECT
+  id, source_job_id, source_image_filename, user_id, guild_id, channel_id,
+  discord_message_id, status, model, positive_prompt, negative_prompt, upscale_model,
+  comfy_prompt_id, output_images, error_message, created_at, started_at, completed_at,
+  backend_url, attempts, last_error, source_image_index,
+  workflow, scale, denoise, tile_size, source_size
+FROM upscale_jobs;
+
+DROP TABLE upscale_jobs;
+ALTER TABLE upscale_jobs_new RENAME TO upscale_jobs;
@@ -0,0 +1,202 @@
+import {
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+  EmbedBuilder,
+} from "discord.js";
+import { config } from "../../config.js";
+import {
+  isQueuePaused,
+  setQueuePaused,
+  getMaintenanceMessage,
+  setMaintenanceMessage,
+  recordAudit,
+  listAudit,
+} from "../../db/admin.js";
+import {
+  queueLength,
+  resumeRunner,
+  clearQueue,
+  bumpJob,
+  forceFailJob,
+  findActiveJob,
+} from "../../queue/jobQueue.js";
+import { clearOptionsCache, fetchOptions } from "../../comfy/objectInfo.js";
+import { logger } from "../../logger.js";
+
+const DEFAULT_MAINTENANCE_MESSAGE = "The bot is down for maintenance — please try again later.";
+const DEFAULT_FAIL_REASON = "Stopped by the bot owner.";
+const AUDIT_LINES = 15;
+
+export const data = new SlashCommandBuilder()
+  .setName("admin")
+  .setDescription("Queue control and maintenance (bot owner only)")
+  .addSubcommand((sub) =>
+    sub.setName("pause").setDescription("Stop starting new jobs — running jobs finish, the queue keeps filling")
+  )
+  .addSubcommand((sub) =>
+    sub.setName("resume").setDescription("Start dispatching queued jobs again")
+  )
+  .addSubcommand((sub) =>
+    sub.setName("clear").setDescription("Cancel every queued job (running jobs are not touched)")
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("bump")
+      .setDescription("Move a queued job to the front of the queue")
+      .addStringOption((opt) =>
+        opt.setName("job").setDescription("Job ID, or the start of it as shown in /queue").setRequired(true)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("fail")
+      .setDescription("Force-fail a stuck running or queued job")
+      .addStringOption((opt) =>
+        opt.setName("job").setDescription("Job ID, or the start of it as shown in /queue").setRequired(true)
+      )
+      .addStringOption((opt) =>
+        opt.setName("reason").setDescription("Shown to the user in the failure notice").setMaxLength(500).setRequired(false)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub.setName("refresh").setDescription("Reload models, samplers and LoRAs from ComfyUI")
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("maintenance")
+      .setDescription("Turn maintenance mode on or off — /gen replies with a message instead of opening the form")
+      .addBooleanOption((opt) =>
+        opt.setName("enabled").setDescription("On or off").setRequired(true)
+      )
+      .addStringOption((opt) =>
+        opt.setName("message").setDescription("What users see instead of the form").setMaxLength(500).setRequired(false)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub.setName("audit").setDescription("Show the current state and recent admin actions")
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  // Gate to bot owner only
+  if (interaction.user.id !== config.ownerId) {
+    await interaction.reply({ content: "⛔ You are not authorised to use this command.", ephemeral: true });
+    return;
+  }
+
+  const sub = interaction.options.getSubcommand();
+  const actorId = interaction.user.id;
+
+  if (sub === "pause") {
+    setQueuePaused(true, actorId);
+    recordAudit(actorId, "pause");
+    await interaction.reply({
+      content: `⏸️ Queue paused — running jobs will finish, nothing new starts. **${queueLength()}** job(s) waiting.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (sub === "resume") {
+    setQueuePaused(false, actorId);
+    recordAudit(actorId, "resume");
+    resumeRunner();
+    await interaction.reply({ content: `▶️ Queue resumed — **${queueLength()}** job(s) waiting.`, ephemeral: true });
+    return;
+  }
+
+  if (sub === "clear") {
+    const removed = clearQueue();
+    recordAudit(actorId, "clear", `${removed} job(s) cancelled`);
+    await interaction.reply({ content: `🧹 Cleared the queue — **${removed}** job(s) cancelled.`, ephemeral: true });
+    return;
+  }
+
+  if (sub === "bump") {
+    const input = interaction.options.getString("job", true).trim();
+    const match = findActiveJob(input);
+    if (!match || !bumpJob(match.jobId)) {
+      await interaction.reply({ content: `⚠️ No single queued job matches \`${input}\`.`, ephemeral: true });
+      return;
+    }
+    recordAudit(actorId, "bump", match.jobId);
+    await interaction.reply({ content: `⏫ Job \`${match.jobId}\` is now first in the queue.`, ephemeral: true });
+    return;
+  }
+
+  if (sub === "fail") {
+    const input = interaction.options.getString("job", true).trim();
+    const reason = interaction.options.getString("reason")?.trim() || DEFAULT_FAIL_REASON;
+    // A row stuck `running` that the runner does not hold needs its full ID
+    const jobId = findActiveJob(input)?.jobId ?? input;
+    const result = await forceFailJob(jobId, reason);
+    if (result === "inactive") {
+      await interaction.reply({ content: `⚠️ No queued or running job matches \`${input}\`.`, ephemeral: true });
+      return;
+    }
+    recordAudit(actorId, "fail", `${jobId}: ${reason}`);
+    await interaction.reply({
+      content:
+        result === "failing"
+          ? `🛑 Job \`${jobId}\` is being stopped on ComfyUI and will be marked failed.`
+          : `🛑 Job \`${jobId}\` marked failed.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (sub === "refresh") {
+    await interaction.deferReply({ ephemeral: true });
+    clearOptionsCache();
+    try {
+      const options = await fetchOptions();
+      recordAudit(actorId, "refresh");
+      await interaction.editReply({
+        content:
+          `🔄 ComfyUI options reloaded — ${options.models.length} models, ${options.samplers.length} samplers, ` +
+          `${options.schedulers.length} schedulers, ${options.loras.length} LoRAs.`,
+      });
+    } catch (err) {
+      logger.error({ err }, "/admin refresh: failed to reload ComfyUI options");
+      await interaction.editReply({ content: "❌ Could not reload options — is ComfyUI reachable?" });
+    }
+    return;
+  }
+
+  if (sub === "maintenance") {
+    const enabled = interaction.options.getBoolean("enabled", true);
+    if (enabled) {
+      const message = interaction.options.getString("message")?.trim() || DEFAULT_MAINTENANCE_MESSAGE;
+      setMaintenanceMessage(message, actorId);
+      recordAudit(actorId, "maintenance-on", message);
+      await interaction.reply({
+        content: `🛠️ Maintenance mode on. Users now see:\n> ${message}`,
+        ephemeral: true,
+      });
+    } else {
+      setMaintenanceMessage(null, actorId);
+      recordAudit(actorId, "maintenance-off");
+      await interaction.reply({ content: "✅ Maintenance mode off.", ephemeral: true });
+    }
+    return;
+  }
+
+  if (sub === "audit") {
+    const maintenance = getMaintenanceMessage();
+    const entries = listAudit(AUDIT_LINES);
+    const lines = entries.map(
+      (e) =>
+        `<t:${Math.floor(e.createdAt / 1000)}:f> <@${e.actorId}> **${e.action}**` +
+        (e.detail ? ` — ${e.detail.slice(0, 120)}` : ""),
+    );
+    const embed = new EmbedBuilder()
+      .setColor(0x5865f2)
+      .setTitle("🛡️ Admin")
+      .addFields(
+        { name: "Queue", value: isQueuePaused() ? "⏸️ paused" : "▶️ running", inline: true },
+        { name: "Waiting", value: String(queueLength()), inline: true },
+        { name: "Maintenance", value: maintenance ? `🛠️ on — ${maintenance.slice(0, 200)}` : "off", inline: true },
+        { name: `Recent actions (${entries.length})`, value: lines.length > 0 ? lines.join("\n") : "_none_" },
+      );
+    await interaction.reply({ embeds: [embed], ephemeral: true, allowedMentions: { parse: [] } });
+  }
+}
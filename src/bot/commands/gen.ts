@@ -1,13 +1,35 @@
 import { SlashCommandBuilder, type ChatInputCommandInteraction } from "discord.js";
 import { config } from "../../config.js";
 import { fetchOptions } from "../../comfy/objectInfo.js";
-import { initDraft } from "../components/formEmbed.js";
+import { initDraft, mergeDraft } from "../components/formEmbed.js";
 import { buildPromptModal } from "../components/promptModal.js";
+import { maintenanceReply } from "../maintenance.js";
+import { checkImageAttachment } from "../imageAttachments.js";
+import { closestRatio } from "../../queue/sizes.js";
 import { logger } from "../../logger.js";
 
+const DEFAULT_DENOISE = 0.6;
+
 export const data = new SlashCommandBuilder()
   .setName("gen")
-  .setDescription("Generate an image using ComfyUI");
+  .setDescription("Generate an image using ComfyUI")
+  .addAttachmentOption((opt) =>
+    opt.setName("image").setDescription("Start from this image instead of noise (image-to-image)").setRequired(false),
+  )
+  .addNumberOption((opt) =>
+    opt
+      .setName("denoise")
+      .setDescription(`How far to move away from the image: 0.05 (barely) to 1 (completely). Default ${DEFAULT_DENOISE}`)
+      .setMinValue(0.05)
+      .setMaxValue(1)
+      .setRequired(false),
+  )
+  .addAttachmentOption((opt) =>
+    opt
+      .setName("control_image")
+      .setDescription("Guide the composition with ControlNet: a pose, depth or edge map, or a picture to derive one from")
+      .setRequired(false),
+  );
 
 export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
   // Channel guard
@@ -19,6 +41,22 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
     return;
   }
 
+  const maintenance = maintenanceReply(interaction.user.id);
+  if (maintenance) {
+    await interaction.reply({ content: maintenance, ephemeral: true });
+    return;
+  }
+
+  const image = interaction.options.getAttachment("image");
+  const controlImage = interaction.options.getAttachment("control_image");
+  const invalid =
+    (image ? checkImageAttachment(image, "image") : null) ??
+    (controlImage ? checkImageAttachment(controlImage, "control image") : null);
+  if (invalid) {
+    await interaction.reply({ content: invalid, ephemeral: true });
+    return;
+  }
+
   let options;
   try {
     options = await fetchOptions();
@@ -31,8 +69,32 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
     return;
   }
 
+  if (controlImage && options.controlNets.length === 0) {
+    await interaction.reply({ content: "No ControlNet models are installed on the ComfyUI servers.", ephemeral: true });
+    return;
+  }
+
   // Initialise draft with defaults, then immediately open the prompts modal.
   // The main embed (dropdowns + Generate) appears after the user submits the modal.
-  const draft = initDraft(interaction.user.id, options);
+  let draft = initDraft(interaction.user.id, options);
+  if (image) {
+    // The image is uploaded to ComfyUI on Generate, once the model (and so the backend) is known
+    draft = mergeDraft(interaction.user.id, {
+      sourceAttachment: { url: image.url, name: image.name },
+      denoise: interaction.options.getNumber("denoise") ?? DEFAULT_DENOISE,
+      aspectRatio: image.width && image.height ? closestRatio(image.width, image.height) : draft.aspectRatio,
+    });
+  }
+  if (controlImage) {
+    // Model and preprocessor are picked on the form's ControlNet panel
+    draft = mergeDraft(interaction.user.id, {
+      controlNet: { model: options.controlNets[0], image: null, preprocessor: null, strength: 1, startPercent: 0, endPercent: 1 },
+      controlAttachment: { url: controlImage.url, name: controlImage.name },
+      aspectRatio:
+        !image && controlImage.width && controlImage.height
+          ? closestRatio(controlImage.width, controlImage.height)
+          : draft.aspectRatio,
+    });
+  }
   await interaction.showModal(buildPromptModal(draft));
 }
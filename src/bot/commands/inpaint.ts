@@ -0,0 +1,190 @@
+import {
+  SlashCommandBuilder,
+  type AutocompleteInteraction,
+  type ChatInputCommandInteraction,
+} from "discord.js";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../../config.js";
+import { fetchOptions } from "../../comfy/objectInfo.js";
+import { backendForJob, type ComfyBackend } from "../../comfy/backendPool.js";
+import { getWorkflow } from "../../comfy/workflowManifest.js";
+import { getJobOrThrow, getRecentCompletedJobs } from "../../db/jobs.js";
+import { backendForSourceImage } from "../../queue/jobQueue.js";
+import { parseSize } from "../../queue/sizes.js";
+import type { ImageSize, JobRow } from "../../queue/types.js";
+import { initDraft, mergeDraft, buildFormEmbed, buildSelectRows, buildButtonRow } from "../components/formEmbed.js";
+import { maintenanceReply } from "../maintenance.js";
+import { checkImageAttachment, downloadAttachment } from "../imageAttachments.js";
+import { logger } from "../../logger.js";
+
+const DEFAULT_GROW = 6;
+const DEFAULT_FEATHER = 8;
+/** Recent jobs offered by the `job` option's autocomplete (Discord shows at most 25). */
+const RECENT_JOBS = 25;
+
+export const data = new SlashCommandBuilder()
+  .setName("inpaint")
+  .setDescription("Repaint part of an image — white areas of the mask are regenerated")
+  .addAttachmentOption((opt) =>
+    opt.setName("mask").setDescription("Mask the size of the image: white = repaint, black = keep").setRequired(true),
+  )
+  .addAttachmentOption((opt) =>
+    opt.setName("image").setDescription("Image to paint into (or pick one of your jobs with `job`)").setRequired(false),
+  )
+  .addStringOption((opt) =>
+    opt.setName("job").setDescription("One of your generations to paint into").setAutocomplete(true).setRequired(false),
+  )
+  .addIntegerOption((opt) =>
+    opt.setName("image_number").setDescription("Which image of that job's batch (default 1)").setMinValue(1).setMaxValue(4),
+  )
+  .addIntegerOption((opt) =>
+    opt.setName("grow").setDescription(`Grow the mask by this many pixels (default ${DEFAULT_GROW})`).setMinValue(0).setMaxValue(64),
+  )
+  .addIntegerOption((opt) =>
+    opt.setName("feather").setDescription(`Soften the mask edge over this many pixels (default ${DEFAULT_FEATHER})`).setMinValue(1).setMaxValue(31),
+  )
+  .addNumberOption((opt) =>
+    opt.setName("denoise").setDescription("How much the masked area may change: 0.05 to 1 (default 1)").setMinValue(0.05).setMaxValue(1),
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  // Channel guard
+  if (!config.discord.allowedChannelIds.includes(interaction.channelId)) {
+    await interaction.reply({
+      content: "This command can only be used in designated generation channels.",
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const maintenance = maintenanceReply(interaction.user.id);
+  if (maintenance) {
+    await interaction.reply({ content: maintenance, ephemeral: true });
+    return;
+  }
+
+  if (!getWorkflow(config.inpaint.workflow, "inpaint")) {
+    await interaction.reply({ content: "Inpainting is not available right now.", ephemeral: true });
+    return;
+  }
+
+  const mask = interaction.options.getAttachment("mask", true);
+  const image = interaction.options.getAttachment("image");
+  const jobId = interaction.options.getString("job");
+  const imageIndex = (interaction.options.getInteger("image_number") ?? 1) - 1;
+
+  if (!image === !jobId) {
+    await interaction.reply({ content: "Attach an `image` or pick a `job` to paint into — one of the two.", ephemeral: true });
+    return;
+  }
+  const invalid = checkImageAttachment(mask, "mask") ?? (image ? checkImageAttachment(image, "image") : null);
+  if (invalid) {
+    await interaction.reply({ content: invalid, ephemeral: true });
+    return;
+  }
+
+  let sourceJob: JobRow | undefined;
+  if (jobId) {
+    try {
+      sourceJob = getJobOrThrow(jobId);
+    } catch {
+      // reported below
+    }
+    if (!sourceJob || sourceJob.userId !== interaction.user.id || !sourceJob.outputImages?.[imageIndex]) {
+      await interaction.reply({ content: "Pick one of your finished generations from the list.", ephemeral: true });
+      return;
+    }
+  }
+
+  // Inpainting works at the source's own size; the megapixel cap keeps it within reach of the GPU
+  const size: ImageSize = sourceJob ? sourceJob.size : `${image?.width ?? 0}x${image?.height ?? 0}`;
+  const [width, height] = parseSize(size);
+  if (width * height > config.gen.maxMegapixels * 1_000_000 || width === 0) {
+    await interaction.reply({
+      content: `The image must be at most ${config.gen.maxMegapixels} megapixels to inpaint.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  let options;
+  try {
+    options = await fetchOptions();
+  } catch (err) {
+    logger.error({ err }, "/inpaint: failed to fetch ComfyUI options");
+    await interaction.reply({
+      content: "ComfyUI is not reachable or is not properly configured. Please try again later.",
+      ephemeral: true,
+    });
+    return;
+  }
+
+  // Defer — downloading and uploading the images may take a few seconds
+  await interaction.deferReply({ ephemeral: true });
+
+  const userId = interaction.user.id;
+  let draft = initDraft(userId, options);
+  if (sourceJob) {
+    draft = mergeDraft(userId, {
+      model: sourceJob.model,
+      positivePrompt: sourceJob.positivePrompt,
+      negativePrompt: sourceJob.negativePrompt,
+      loras: sourceJob.loras,
+    });
+  }
+
+  try {
+    // The source and mask must sit on the backend the job will run on: a job's
+    // output stays on the backend that made it; an attachment goes where the model is.
+    const backend: ComfyBackend | undefined = sourceJob
+      ? backendForJob(sourceJob.backendUrl)
+      : await backendForSourceImage(draft.model, []);
+    if (!backend?.healthy) {
+      await interaction.editReply({ content: "No ComfyUI server that can take this image is online right now. Please try again later." });
+      return;
+    }
+
+    const source = sourceJob
+      ? await backend.client.getOutputImage(sourceJob.comfyPromptId!, sourceJob.outputImages![imageIndex])
+      : await downloadAttachment(image!);
+    const { name: sourceName } = await backend.client.uploadImage(source, `inpaint_${uuidv4()}.png`);
+    const { name: maskName } = await backend.client.uploadImage(await downloadAttachment(mask), `inpaint_mask_${uuidv4()}.png`);
+
+    draft = mergeDraft(userId, {
+      workflow: config.inpaint.workflow,
+      sourceImage: { filename: sourceName, backendUrl: backend.url },
+      mask: {
+        filename: maskName,
+        grow: interaction.options.getInteger("grow") ?? DEFAULT_GROW,
+        feather: interaction.options.getInteger("feather") ?? DEFAULT_FEATHER,
+      },
+      denoise: interaction.options.getNumber("denoise") ?? 1,
+      size,
+      aspectRatio: null,
+      batchSize: 1,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error({ userId, err: msg }, "/inpaint: failed to upload images");
+    await interaction.editReply({ content: `❌ Failed to upload your images: ${msg}` });
+    return;
+  }
+
+  await interaction.editReply({
+    content: "Set your prompts with **Edit Prompts**, then click **Generate**.",
+    embeds: [buildFormEmbed(draft)],
+    components: [...buildSelectRows(options, draft), buildButtonRow(draft)],
+  });
+}
+
+/** Suggest the user's recent finished generations for the `job` option. */
+export async function autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+  const typed = interaction.options.getFocused().toLowerCase();
+  const choices = getRecentCompletedJobs(interaction.user.id, RECENT_JOBS)
+    .filter((job) => job.positivePrompt.toLowerCase().includes(typed) || job.id.startsWith(typed))
+    .map((job) => {
+      const prompt = job.positivePrompt.length > 60 ? job.positivePrompt.slice(0, 59) + "…" : job.positivePrompt;
+      return { name: `${prompt} · ${job.model}`.slice(0, 100), value: job.id };
+    });
+  await interaction.respond(choices);
+}
@@ -4,7 +4,7 @@ import { purgeOldJobs } from "../../db/purge.js";
 
 export const data = new SlashCommandBuilder()
   .setName("purge")
-  .setDescription("Immediately purge old completed/failed job records (bot owner only)")
+  .setDescription("Immediately purge old completed/failed/cancelled job records (bot owner only)")
   .addIntegerOption((opt) =>
     opt
       .setName("hours")
@@ -0,0 +1,60 @@
+import { SlashCommandBuilder, EmbedBuilder, type ChatInputCommandInteraction } from "discord.js";
+import { estimateQueue, formatEta, type QueueItemEstimate } from "../../queue/eta.js";
+import { isQueuePaused } from "../../db/admin.js";
+import { config } from "../../config.js";
+import { logger } from "../../logger.js";
+
+/** Keep the embed description well inside Discord's 4096-character limit. */
+const MAX_LINES = 20;
+
+export const data = new SlashCommandBuilder()
+  .setName("queue")
+  .setDescription("Show queued and running jobs with estimated finish times");
+
+/** Short job ID shown to the owner, enough to target the job with /admin. */
+const SHORT_ID_LENGTH = 8;
+
+function formatLine(item: QueueItemEstimate, showId: boolean): string {
+  const marker = item.state === "running" ? "🔄" : `\`#${item.position}\``;
+  const details =
+    item.type === "upscale"
+      ? `🔍 upscale · ${item.model}`
+      : `**${item.model}** · ${item.size}${item.batchSize && item.batchSize > 1 ? ` ×${item.batchSize}` : ""} · ${item.steps} steps`;
+  const eta = item.state === "running" ? `${formatEta(item.etaMs)} left` : `done in ${formatEta(item.etaMs)}`;
+  const id = showId ? ` · \`${item.jobId.slice(0, SHORT_ID_LENGTH)}\`` : "";
+  return `${marker} <@${item.userId}> · ${details} · ${eta}${id}`;
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  let items: QueueItemEstimate[];
+  try {
+    items = estimateQueue();
+  } catch (err) {
+    logger.error({ err }, "/queue: failed to build queue estimate");
+    await interaction.reply({ content: "Could not read the queue right now. Please try again.", ephemeral: true });
+    return;
+  }
+
+  if (items.length === 0) {
+    await interaction.reply({ content: "The queue is empty — a new job will start right away.", ephemeral: true });
+    return;
+  }
+
+  const running = items.filter((i) => i.state === "running").length;
+  const queued = items.length - running;
+  const isOwner = interaction.user.id === config.ownerId;
+  const lines = items.slice(0, MAX_LINES).map((item) => formatLine(item, isOwner));
+  if (items.length > MAX_LINES) lines.push(`…and ${items.length - MAX_LINES} more`);
+
+  const embed = new EmbedBuilder()
+    .setColor(0x5865f2)
+    .setTitle("📋 Job Queue")
+    .setDescription(lines.join("\n"))
+    .setFooter({
+      text:
+        (isQueuePaused() ? "⏸️ Paused by the bot owner · " : "") +
+        `${running} running · ${queued} queued · ETAs are estimates based on recent jobs`,
+    });
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
@@ -0,0 +1,137 @@
+import {
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+  EmbedBuilder,
+} from "discord.js";
+import { config } from "../../config.js";
+import { upsertQuotaTier, deleteQuotaTier, listQuotaTiers } from "../../db/quotas.js";
+import { describeQuota, formatCost } from "../../queue/quota.js";
+import { memberRoleIds } from "../memberRoles.js";
+
+export const data = new SlashCommandBuilder()
+  .setName("quota")
+  .setDescription("Show your generation allowance, or manage quota tiers (owner)")
+  .addSubcommand((sub) =>
+    sub.setName("me").setDescription("Show your usage and remaining allowance")
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("set")
+      .setDescription("Set the quota tier for a role — omitted limits are unlimited (bot owner only)")
+      .addRoleOption((opt) =>
+        opt
+          .setName("role")
+          .setDescription("Role the tier applies to (@everyone = default for all members)")
+          .setRequired(true)
+      )
+      .addIntegerOption((opt) =>
+        opt.setName("per_hour").setDescription("Jobs per rolling hour").setMinValue(0).setRequired(false)
+      )
+      .addIntegerOption((opt) =>
+        opt.setName("per_day").setDescription("Jobs per rolling 24 h").setMinValue(0).setRequired(false)
+      )
+      .addIntegerOption((opt) =>
+        opt
+          .setName("budget")
+          .setDescription("Steps × megapixels per rolling 24 h (a 30-step 1024² image ≈ 31)")
+          .setMinValue(0)
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("clear")
+      .setDescription("Remove the quota tier for a role (bot owner only)")
+      .addRoleOption((opt) =>
+        opt.setName("role").setDescription("Role whose tier to remove").setRequired(true)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub.setName("tiers").setDescription("List all quota tiers (bot owner only)")
+  );
+
+function formatLimit(value: number | null, unit = ""): string {
+  return value === null ? "unlimited" : `${value}${unit}`;
+}
+
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  const sub = interaction.options.getSubcommand();
+
+  if (sub === "me") {
+    const usage = describeQuota(interaction.user.id, memberRoleIds(interaction));
+    const embed = new EmbedBuilder().setColor(0x5865f2).setTitle("📊 Your Quota");
+
+    if (!usage.limits) {
+      embed.setDescription("You have no generation limits.");
+    } else {
+      const { jobsPerHour, jobsPerDay, budgetPerDay } = usage.limits;
+      embed.addFields(
+        { name: "Jobs this hour", value: `${usage.jobsThisHour} / ${formatLimit(jobsPerHour)}`, inline: true },
+        { name: "Jobs today", value: `${usage.jobsToday} / ${formatLimit(jobsPerDay)}`, inline: true },
+        {
+          name: "Budget today",
+          value: `${formatCost(usage.costToday)} / ${budgetPerDay === null ? "unlimited" : formatCost(budgetPerDay)}`,
+          inline: true,
+        },
+      );
+      embed.setFooter({ text: "Rolling windows — failed and cancelled jobs are not counted" });
+    }
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+    return;
+  }
+
+  // Tier management is gated to the bot owner
+  if (interaction.user.id !== config.ownerId) {
+    await interaction.reply({ content: "⛔ You are not authorised to use this command.", ephemeral: true });
+    return;
+  }
+
+  if (sub === "set") {
+    const role = interaction.options.getRole("role", true);
+    const jobsPerHour = interaction.options.getInteger("per_hour");
+    const jobsPerDay = interaction.options.getInteger("per_day");
+    const budgetPerDay = interaction.options.getInteger("budget");
+    upsertQuotaTier({ roleId: role.id, jobsPerHour, jobsPerDay, budgetPerDay, updatedBy: interaction.user.id });
+    await interaction.reply({
+      content:
+        `✅ Quota tier for <@&${role.id}>: ${formatLimit(jobsPerHour)} jobs/hour, ` +
+        `${formatLimit(jobsPerDay)} jobs/day, budget ${budgetPerDay === null ? "unlimited" : formatCost(budgetPerDay)}/day.`,
+      ephemeral: true,
+      allowedMentions: { parse: [] },
+    });
+    return;
+  }
+
+  if (sub === "clear") {
+    const role = interaction.options.getRole("role", true);
+    const removed = deleteQuotaTier(role.id);
+    await interaction.reply({
+      content: removed
+        ? `✅ Quota tier for <@&${role.id}> removed.`
+        : `⚠️ <@&${role.id}> has no quota tier.`,
+      ephemeral: true,
+      allowedMentions: { parse: [] },
+    });
+    return;
+  }
+
+  if (sub === "tiers") {
+    const tiers = listQuotaTiers();
+    if (tiers.length === 0) {
+      await interaction.reply({ content: "No quota tiers are set — everyone is unlimited.", ephemeral: true });
+      return;
+    }
+    const lines = tiers.map(
+      (t) =>
+        `<@&${t.roleId}> — ${formatLimit(t.jobsPerHour)}/hour · ${formatLimit(t.jobsPerDay)}/day · ` +
+        `budget ${t.budgetPerDay === null ? "unlimited" : formatCost(t.budgetPerDay)}/day`,
+    );
+    const embed = new EmbedBuilder()
+      .setColor(0x5865f2)
+      .setTitle(`📊 Quota Tiers (${tiers.length})`)
+      .setDescription(lines.join("\n"))
+      .setFooter({ text: "When a member has several tiers, the most generous limit of each kind applies" });
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+  }
+}
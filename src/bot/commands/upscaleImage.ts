@@ -0,0 +1,118 @@
+import {
+  ApplicationCommandType,
+  ContextMenuCommandBuilder,
+  type MessageContextMenuCommandInteraction,
+} from "discord.js";
+import { config } from "../../config.js";
+import { fetchOptions, getBackendOptions } from "../../comfy/objectInfo.js";
+import type { ComfyBackend } from "../../comfy/backendPool.js";
+import { backendForSourceImage } from "../../queue/jobQueue.js";
+import { buildUpscaleComponents, buildUpscaleEmbed, initUpscaleDraft } from "../components/upscaleForm.js";
+import { maintenanceReply } from "../maintenance.js";
+import { isImageAttachment, MAX_IMAGE_BYTES } from "../imageAttachments.js";
+import { logger } from "../../logger.js";
+
+export const data = new ContextMenuCommandBuilder()
+  .setName("Upscale with ComfyGen")
+  .setType(ApplicationCommandType.Message);
+
+/** Open the upscale form for the first image attached to the target message. */
+export async function execute(interaction: MessageContextMenuCommandInteraction): Promise<void> {
+  // Channel guard
+  if (!config.discord.allowedChannelIds.includes(interaction.channelId)) {
+    await interaction.reply({
+      content: "This command can only be used in designated generation channels.",
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (!config.upscale.enabled) {
+    await interaction.reply({ content: "Upscaling is currently disabled.", ephemeral: true });
+    return;
+  }
+
+  const maintenance = maintenanceReply(interaction.user.id);
+  if (maintenance) {
+    await interaction.reply({ content: maintenance, ephemeral: true });
+    return;
+  }
+
+  const image = interaction.targetMessage.attachments.find(isImageAttachment);
+  if (!image) {
+    await interaction.reply({ content: "That message has no PNG, JPEG or WebP image attached.", ephemeral: true });
+    return;
+  }
+  if (image.size > MAX_IMAGE_BYTES) {
+    await interaction.reply({
+      content: `The image must be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB to upscale.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  // The megapixel cap keeps the upscaled result within reach of the GPU
+  const width = image.width ?? 0;
+  const height = image.height ?? 0;
+  if (width * height > config.gen.maxMegapixels * 1_000_000 || width === 0) {
+    await interaction.reply({
+      content: `The image must be at most ${config.gen.maxMegapixels} megapixels to upscale.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  // Modes that re-sample need a checkpoint; the image goes to the least-loaded
+  // backend that has one, and the form lists that backend's upscale models.
+  let backend: ComfyBackend | undefined;
+  let model: string | undefined;
+  let upscaleModels: string[] = [];
+  try {
+    model = (await fetchOptions()).models[0];
+    if (model) {
+      backend = await backendForSourceImage(model, []);
+      upscaleModels = backend ? (await getBackendOptions(backend)).upscaleModels : [];
+    }
+  } catch (err) {
+    logger.error({ err }, "Upscale with ComfyGen: failed to fetch ComfyUI options");
+    await interaction.reply({
+      content: "ComfyUI is not reachable or is not properly configured. Please try again later.",
+      ephemeral: true,
+    });
+    return;
+  }
+  if (!model) {
+    await interaction.reply({ content: "No checkpoints are installed on the ComfyUI servers.", ephemeral: true });
+    return;
+  }
+  if (!backend) {
+    await interaction.reply({ content: "No ComfyUI server is online right now. Please try again later.", ephemeral: true });
+    return;
+  }
+  if (upscaleModels.length === 0) {
+    await interaction.reply({ content: "No upscale models are installed on the ComfyUI servers.", ephemeral: true });
+    return;
+  }
+
+  const draft = initUpscaleDraft(
+    interaction.user.id,
+    {
+      sourceJobId: null,
+      imageIndex: 0,
+      image: {
+        url: image.url,
+        name: image.name,
+        size: `${width}x${height}`,
+        channelId: interaction.channelId,
+        backendUrl: backend.url,
+        model,
+      },
+    },
+    upscaleModels,
+  );
+  await interaction.reply({
+    ephemeral: true,
+    embeds: [buildUpscaleEmbed(draft)],
+    components: buildUpscaleComponents(draft),
+  });
+}
@@ -0,0 +1,159 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  ModalBuilder,
+  StringSelectMenuBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from "discord.js";
+import { z } from "zod";
+import { CONTROLNET_PREPROCESSORS, type ComfyOptions } from "../../comfy/objectInfo.js";
+import { listWorkflows } from "../../comfy/workflowManifest.js";
+import { CUSTOM_ID, controlNetSummary, type DraftParams } from "./formEmbed.js";
+
+// ---------------------------------------------------------------------------
+// Custom ID constants
+// ---------------------------------------------------------------------------
+
+export const CONTROLNET_CUSTOM_ID = {
+  SELECT_MODEL: "controlnet:model",
+  SELECT_PREPROCESSOR: "controlnet:preprocessor",
+  BTN_BACK: "controlnet:back",
+  BTN_SETTINGS: "controlnet:settings",
+  BTN_REMOVE: "controlnet:remove",
+  MODAL_SETTINGS: "controlnet:settings:submit",
+  MODAL_FIELD_STRENGTH: "controlnet:field:strength",
+  MODAL_FIELD_START: "controlnet:field:start",
+  MODAL_FIELD_END: "controlnet:field:end",
+} as const;
+
+/** Sentinel value for the "no preprocessor" option (Discord requires value >= 1 char). */
+export const PREPROCESSOR_NONE_VALUE = "__none__";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Shorten a ControlNet filename into a human-readable label for Discord select menus. */
+function controlNetLabel(filename: string): string {
+  const name = filename.replace(/\.[^.]+$/, "").replace(/[-_]/g, " ");
+  return name.length > 97 ? name.slice(0, 97) + "…" : name;
+}
+
+export function buildControlNetEmbed(draft: DraftParams): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle("🕹️ ControlNet")
+    .setColor(0x1abc9c)
+    .setDescription(
+      "Pick the ControlNet model that matches your control image. Choose a preprocessor if the image is a " +
+        "plain picture, or none if it already is an edge, depth or pose map.\n\n" +
+        controlNetSummary(draft),
+    );
+}
+
+// ---------------------------------------------------------------------------
+// Components
+// ---------------------------------------------------------------------------
+
+export function buildControlNetComponents(
+  draft: DraftParams,
+  options: ComfyOptions,
+): ActionRowBuilder<StringSelectMenuBuilder | ButtonBuilder>[] {
+  const current = draft.controlNet;
+
+  const modelMenu = new StringSelectMenuBuilder()
+    .setCustomId(CONTROLNET_CUSTOM_ID.SELECT_MODEL)
+    .setPlaceholder("ControlNet model")
+    .addOptions(
+      options.controlNets.map((filename) => ({
+        label: controlNetLabel(filename),
+        value: filename,
+        default: current?.model === filename,
+      })),
+    );
+
+  const preprocessorMenu = new StringSelectMenuBuilder()
+    .setCustomId(CONTROLNET_CUSTOM_ID.SELECT_PREPROCESSOR)
+    .setPlaceholder("Preprocessor")
+    .addOptions([
+      {
+        label: "None",
+        value: PREPROCESSOR_NONE_VALUE,
+        description: "The image already is an edge, depth or pose map",
+        default: !current?.preprocessor,
+      },
+      ...options.preprocessors.map((name) => ({
+        label: CONTROLNET_PREPROCESSORS[name].label,
+        value: name,
+        default: current?.preprocessor === name,
+      })),
+    ]);
+
+  const buttons = [
+    new ButtonBuilder()
+      .setCustomId(CONTROLNET_CUSTOM_ID.BTN_BACK)
+      .setLabel("← Back to Settings")
+      .setStyle(ButtonStyle.Secondary),
+    new ButtonBuilder()
+      .setCustomId(CONTROLNET_CUSTOM_ID.BTN_SETTINGS)
+      .setLabel("⚙️ Strength & Timing")
+      .setStyle(ButtonStyle.Primary),
+    new ButtonBuilder()
+      .setCustomId(CONTROLNET_CUSTOM_ID.BTN_REMOVE)
+      .setLabel("Remove ControlNet")
+      .setStyle(ButtonStyle.Danger),
+  ];
+  // The form's button row gives up the workflow button to the ControlNet one, so it lives here
+  if (listWorkflows("gen").length > 1) {
+    buttons.push(
+      new ButtonBuilder()
+        .setCustomId(CUSTOM_ID.BTN_WORKFLOW)
+        .setLabel("🧩 Workflow")
+        .setStyle(ButtonStyle.Secondary),
+    );
+  }
+
+  return [
+    new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(modelMenu),
+    new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(preprocessorMenu),
+    new ActionRowBuilder<ButtonBuilder>().addComponents(...buttons),
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Strength & timing modal
+// ---------------------------------------------------------------------------
+
+export const ControlNetSettingsSchema = z
+  .object({
+    strength: z.coerce.number().min(0, "Minimum strength is 0").max(2, "Maximum strength is 2"),
+    startPercent: z.coerce.number().min(0, "Start must be 0–100%").max(100, "Start must be 0–100%"),
+    endPercent: z.coerce.number().min(0, "End must be 0–100%").max(100, "End must be 0–100%"),
+  })
+  .refine((s) => s.startPercent < s.endPercent, { message: "Start must be before end", path: ["endPercent"] });
+
+export function buildControlNetSettingsModal(draft: DraftParams): ModalBuilder {
+  const cn = draft.controlNet;
+  const field = (id: string, label: string, placeholder: string, value: string): ActionRowBuilder<TextInputBuilder> =>
+    new ActionRowBuilder<TextInputBuilder>().addComponents(
+      new TextInputBuilder()
+        .setCustomId(id)
+        .setLabel(label)
+        .setStyle(TextInputStyle.Short)
+        .setRequired(true)
+        .setMaxLength(5)
+        .setPlaceholder(placeholder)
+        .setValue(value),
+    );
+
+  return new ModalBuilder()
+    .setCustomId(CONTROLNET_CUSTOM_ID.MODAL_SETTINGS)
+    .setTitle("ControlNet Strength & Timing")
+    .addComponents(
+      field(CONTROLNET_CUSTOM_ID.MODAL_FIELD_STRENGTH, "Strength", "0 – 2", (cn?.strength ?? 1).toFixed(2)),
+      field(CONTROLNET_CUSTOM_ID.MODAL_FIELD_START, "Start (% of steps)", "0 – 100", String(Math.round((cn?.startPercent ?? 0) * 100))),
+      field(CONTROLNET_CUSTOM_ID.MODAL_FIELD_END, "End (% of steps)", "0 – 100", String(Math.round((cn?.endPercent ?? 1) * 100))),
+    );
+}
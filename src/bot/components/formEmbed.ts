@@ -5,8 +5,10 @@ import {
   EmbedBuilder,
   StringSelectMenuBuilder,
 } from "discord.js";
-import type { ComfyOptions } from "../../comfy/objectInfo.js";
-import type { JobRow, ImageSize, LoraParam } from "../../queue/types.js";
+import { CONTROLNET_PREPROCESSORS, type ComfyOptions } from "../../comfy/objectInfo.js";
+import { jobWorkflow, listWorkflows } from "../../comfy/workflowManifest.js";
+import type { ControlNetParam, JobRow, ImageSize, InpaintMask, LoraParam, SourceImage } from "../../queue/types.js";
+import { ASPECT_RATIOS, formatSize, presetSize, ratioOfSize, type AspectRatio } from "../../queue/sizes.js";
 import { config } from "../../config.js";
 
 // ---------------------------------------------------------------------------
@@ -19,7 +21,9 @@ export const CUSTOM_ID = {
   SELECT_SCHEDULER: "gen_select_scheduler",
   BTN_EDIT_PROMPTS: "gen_btn_edit_prompts",
   BTN_LORAS: "lora:open",
+  BTN_CONTROLNET: "controlnet:open",
   BTN_GENERATE: "gen_btn_generate",
+  BTN_BATCH: "gen_btn_batch",
   MODAL_PROMPTS: "gen_modal_prompts",
   MODAL_FIELD_POS: "gen_field_positive",
   MODAL_FIELD_NEG: "gen_field_negative",
@@ -34,16 +38,36 @@ export const CUSTOM_ID = {
   DELETE_PREFIX: "gen_delete",
   // Prefix for edit buttons on output posts — full customId: `${prefix}:${jobId}`
   EDIT_PREFIX: "gen_edit",
-  // Prefix for upscale buttons on output posts — full customId: `${prefix}:${jobId}`
+  // Prefix for upscale buttons on output posts — full customId: `${prefix}:${jobId}`, or
+  // `${prefix}:${jobId}:${imageIndex}` for one image of a batch (no index = image 0)
   UPSCALE_PREFIX: "gen_upscale",
-  // Size selector on the gen form
+  // Size selector on the gen form — an aspect ratio, or SIZE_CUSTOM to open the size modal
   SELECT_SIZE: "gen_select_size",
+  SIZE_CUSTOM: "custom",
+  MODAL_SIZE: "gen_modal_size",
+  MODAL_FIELD_WIDTH: "gen_field_width",
+  MODAL_FIELD_HEIGHT: "gen_field_height",
+  // Workflow picker — the button swaps the form's selects for the workflow select
+  BTN_WORKFLOW: "gen_btn_workflow",
+  SELECT_WORKFLOW: "gen_select_workflow",
+  BTN_BACK: "gen_btn_back",
+  // Prefix for cancel buttons on queued/running status messages — full customId: `${prefix}:${jobId}`
+  CANCEL_PREFIX: "gen_cancel",
 } as const;
 
 // ---------------------------------------------------------------------------
 // Draft state (per-user in-process map)
 // ---------------------------------------------------------------------------
 
+/** An image attached to /gen, uploaded to a backend when the job is submitted. */
+export interface SourceAttachment {
+  url: string;
+  name: string;
+}
+
+/** ControlNet settings on the form; `image` is null until the attached control image is uploaded. */
+export type DraftControlNet = Omit<ControlNetParam, "image"> & { image: SourceImage | null };
+
 export interface DraftParams {
   model: string;
   sampler: string;
@@ -52,11 +76,23 @@ export interface DraftParams {
   cfg: number;
   seed: number;
   size: ImageSize;
+  aspectRatio: AspectRatio | null; // null = custom size; otherwise size follows the model's profile
+  batchSize: number;
+  workflow: string; // gen workflow manifest id
+  sourceImage: SourceImage | null; // img2img source already uploaded (editing an img2img job)
+  sourceAttachment: SourceAttachment | null; // img2img source attached to /gen, uploaded on Generate
+  denoise: number;
+  mask: InpaintMask | null; // inpaint mask, uploaded beside sourceImage by /inpaint
+  controlNet: DraftControlNet | null;
+  controlAttachment: SourceAttachment | null; // control image attached to /gen, uploaded on Generate
   positivePrompt: string;
   negativePrompt: string;
   loras: (LoraParam | null)[]; // always length 4; null = empty slot
 }
 
+/** Images per job — Discord shows at most 4 images as a grid on one post. */
+export const MAX_BATCH_SIZE = 4;
+
 const _drafts = new Map<string, DraftParams>();
 
 /** Generate a random seed in the ComfyUI valid range (0–4 294 967 295). */
@@ -65,14 +101,24 @@ function randomSeed(): number {
 }
 
 export function initDraft(userId: string, options: ComfyOptions): DraftParams {
+  const model = options.models[0] ?? "";
   const draft: DraftParams = {
-    model: options.models[0] ?? "",
+    model,
     sampler: options.samplers.includes("dpmpp_2m_sde") ? "dpmpp_2m_sde" : (options.samplers[0] ?? ""),
     scheduler: options.schedulers.includes("karras") ? "karras" : (options.schedulers[0] ?? ""),
     steps: 28,
     cfg: 5,
     seed: randomSeed(),
-    size: "portrait",
+    size: presetSize(model, "2:3"),
+    aspectRatio: "2:3",
+    batchSize: 1,
+    workflow: config.gen.workflow,
+    sourceImage: null,
+    sourceAttachment: null,
+    denoise: 1,
+    mask: null,
+    controlNet: null,
+    controlAttachment: null,
     positivePrompt: "",
     negativePrompt: config.defaultNegativePrompt,
     loras: Array(4).fill(null) as (LoraParam | null)[],
@@ -91,6 +137,15 @@ export function initDraftFromJob(userId: string, job: JobRow): DraftParams {
     cfg: job.cfg,
     seed: job.seed,
     size: job.size,
+    aspectRatio: ratioOfSize(job.model, job.size),
+    batchSize: job.batchSize,
+    workflow: job.workflow,
+    sourceImage: job.sourceImage,
+    sourceAttachment: null,
+    denoise: job.denoise,
+    mask: job.mask,
+    controlNet: job.controlNet,
+    controlAttachment: null,
     positivePrompt: job.positivePrompt,
     negativePrompt: job.negativePrompt,
     loras: job.loras ?? Array(4).fill(null),
@@ -103,10 +158,14 @@ export function getDraft(userId: string): DraftParams | undefined {
   return _drafts.get(userId);
 }
 
+/** Merge into the user's draft. A preset size follows the model's resolution profile when the model changes. */
 export function mergeDraft(userId: string, partial: Partial<DraftParams>): DraftParams {
   const existing = _drafts.get(userId);
   if (!existing) throw new Error(`No draft found for user ${userId}`);
   const updated = { ...existing, ...partial };
+  if (updated.aspectRatio !== null && (partial.model !== undefined || partial.aspectRatio !== undefined)) {
+    updated.size = presetSize(updated.model, updated.aspectRatio);
+  }
   _drafts.set(userId, updated);
   return updated;
 }
@@ -119,13 +178,42 @@ export function deleteDraft(userId: string): void {
 // Embed builder
 // ---------------------------------------------------------------------------
 
+/** Manifest label of the draft's workflow, or its id if it is no longer installed. */
+function workflowLabel(draft: DraftParams): string {
+  return jobWorkflow(draft)?.manifest.label ?? draft.workflow;
+}
+
+function controlNetLabel(filename: string): string {
+  return filename.replace(/\.[^.]+$/, "").replace(/[-_]/g, " ");
+}
+
+/** The draft's ControlNet image, model, preprocessor and settings, for the form and ControlNet panel. */
+export function controlNetSummary(draft: DraftParams): string {
+  const cn = draft.controlNet;
+  if (!cn) return "_none_";
+  const image = draft.controlAttachment
+    ? `[${draft.controlAttachment.name}](${draft.controlAttachment.url})`
+    : (cn.image?.filename ?? "_no image_");
+  const preprocessor = cn.preprocessor ? CONTROLNET_PREPROCESSORS[cn.preprocessor].label : "no preprocessor";
+  const percent = (value: number): string => `${Math.round(value * 100)}%`;
+  return (
+    `${image} · ${cn.model ? controlNetLabel(cn.model) : "_no model_"} · ${preprocessor}\n` +
+    `strength ${cn.strength.toFixed(2)} · steps ${percent(cn.startPercent)}–${percent(cn.endPercent)}`
+  );
+}
+
+/** e.g. "832×1216 (2:3)" or "1000×640 (custom)". */
+function sizeLabel(draft: DraftParams): string {
+  return `${formatSize(draft.size)} (${draft.aspectRatio ?? "custom"})`;
+}
+
 export function buildFormEmbed(draft: DraftParams): EmbedBuilder {
   const activeLoras = draft.loras.filter(Boolean) as LoraParam[];
   const loraField = activeLoras.length > 0
     ? activeLoras.map((l) => `• ${l.name} (strength: ${l.strength.toFixed(1)})`).join("\n")
     : "_none_";
 
-  return new EmbedBuilder()
+  const embed = new EmbedBuilder()
     .setTitle("Image Generation")
     .setColor(0x5865f2)
     .setDescription("Configure your generation settings, then click **Generate**.")
@@ -136,7 +224,9 @@ export function buildFormEmbed(draft: DraftParams): EmbedBuilder {
       { name: "Steps", value: String(draft.steps), inline: true },
       { name: "CFG", value: String(draft.cfg), inline: true },
       { name: "Seed", value: String(draft.seed), inline: true },
-      { name: "Size", value: draft.size, inline: true },
+      { name: "Size", value: sizeLabel(draft), inline: true },
+      { name: "Batch", value: `${draft.batchSize} image${draft.batchSize === 1 ? "" : "s"}`, inline: true },
+      { name: "Workflow", value: workflowLabel(draft), inline: true },
       {
         name: "Positive Prompt",
         value: draft.positivePrompt.length > 0 ? `\`\`\`${draft.positivePrompt.slice(0, 500)}\`\`\`` : "_not set_",
@@ -147,6 +237,22 @@ export function buildFormEmbed(draft: DraftParams): EmbedBuilder {
       },
       { name: `🎨 LoRAs (${activeLoras.length})`, value: loraField },
     );
+
+  const source = draft.sourceAttachment
+    ? `[${draft.sourceAttachment.name}](${draft.sourceAttachment.url})`
+    : draft.sourceImage?.filename;
+  if (draft.mask) {
+    embed.addFields({
+      name: "🩹 Inpaint",
+      value: `${source} · mask ${draft.mask.filename} · grow ${draft.mask.grow}px · feather ${draft.mask.feather}px · denoise ${draft.denoise.toFixed(2)}`,
+    });
+  } else if (source) {
+    embed.addFields({ name: "🖼️ Source Image", value: `${source} · denoise ${draft.denoise.toFixed(2)}` });
+  }
+  if (draft.controlNet) {
+    embed.addFields({ name: "🕹️ ControlNet", value: controlNetSummary(draft) });
+  }
+  return embed;
 }
 
 // ---------------------------------------------------------------------------
@@ -176,28 +282,36 @@ export function buildSelectRows(
   options: ComfyOptions,
   draft: DraftParams,
 ): ActionRowBuilder<StringSelectMenuBuilder>[] {
-  const sizeOptions = [
-    { label: "Portrait (832×1216)", value: "portrait" },
-    { label: "Square (1024×1024)", value: "square" },
-    { label: "Landscape (1216×832)", value: "landscape" },
-  ];
+  // Ratios resolve to the current model's profile sizes, e.g. 2:3 is 512×768 for SD1.5
+  const sizeOptions: { label: string; value: string; default: boolean }[] = ASPECT_RATIOS.map((ratio) => ({
+    label: `${ratio} (${formatSize(presetSize(draft.model, ratio))})`,
+    value: ratio,
+    default: ratio === draft.aspectRatio,
+  }));
+  sizeOptions.push({
+    label: draft.aspectRatio === null ? `Custom (${formatSize(draft.size)})` : "Custom…",
+    value: CUSTOM_ID.SIZE_CUSTOM,
+    default: draft.aspectRatio === null,
+  });
   const sizeMenu = new StringSelectMenuBuilder()
     .setCustomId(CUSTOM_ID.SELECT_SIZE)
     .setPlaceholder("Select size…")
-    .addOptions(sizeOptions.map((o) => ({ ...o, default: o.value === draft.size })));
+    .addOptions(sizeOptions);
 
-  return [
+  const rows = [
     makeSelect(CUSTOM_ID.SELECT_MODEL, "Select model…", options.models, draft.model),
     makeSelect(CUSTOM_ID.SELECT_SAMPLER, "Select sampler…", options.samplers, draft.sampler),
     makeSelect(CUSTOM_ID.SELECT_SCHEDULER, "Select scheduler…", options.schedulers, draft.scheduler),
-    new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(sizeMenu),
   ];
+  // An inpaint job keeps the size of the image it paints into
+  if (!draft.mask) rows.push(new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(sizeMenu));
+  return rows;
 }
 
 export function buildButtonRow(draft: DraftParams): ActionRowBuilder<ButtonBuilder> {
   const activeCount = draft.loras.filter(Boolean).length;
   const loraLabel = activeCount > 0 ? `🎨 LoRAs (${activeCount})` : "🎨 LoRAs";
-  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
     new ButtonBuilder()
       .setCustomId(CUSTOM_ID.BTN_EDIT_PROMPTS)
       .setLabel("Edit Prompts")
@@ -206,9 +320,159 @@ export function buildButtonRow(draft: DraftParams): ActionRowBuilder<ButtonBuild
       .setCustomId(CUSTOM_ID.BTN_LORAS)
       .setLabel(loraLabel)
       .setStyle(ButtonStyle.Secondary),
+  );
+  // Inpainting makes one image, on the INPAINT_WORKFLOW
+  if (draft.mask) {
+    return row.addComponents(
+      new ButtonBuilder()
+        .setCustomId(CUSTOM_ID.BTN_GENERATE)
+        .setLabel("Generate")
+        .setStyle(ButtonStyle.Primary),
+    );
+  }
+  row.addComponents(
+    // Discord allows 5 action rows and the selects use 4, so batch size cycles 1 → 4 on click
+    new ButtonBuilder()
+      .setCustomId(CUSTOM_ID.BTN_BATCH)
+      .setLabel(`🖼️ Batch: ${draft.batchSize}`)
+      .setStyle(ButtonStyle.Secondary),
     new ButtonBuilder()
       .setCustomId(CUSTOM_ID.BTN_GENERATE)
       .setLabel("Generate")
       .setStyle(ButtonStyle.Primary),
   );
+  // A row holds five buttons: with a control image the ControlNet panel takes the
+  // workflow button's place, and offers the workflow button itself
+  if (draft.controlNet) {
+    return row.addComponents(
+      new ButtonBuilder()
+        .setCustomId(CUSTOM_ID.BTN_CONTROLNET)
+        .setLabel("🕹️ ControlNet")
+        .setStyle(ButtonStyle.Secondary),
+    );
+  }
+  // All five rows are taken, so the workflow select lives behind a button — only
+  // worth showing when there is more than one workflow to choose from
+  if (listWorkflows("gen").length > 1) {
+    row.addComponents(
+      new ButtonBuilder()
+        .setCustomId(CUSTOM_ID.BTN_WORKFLOW)
+        .setLabel(`🧩 ${workflowLabel(draft)}`.slice(0, 80))
+        .setStyle(ButtonStyle.Secondary),
+    );
+  }
+  return row;
+}
+
+/** Workflow picker shown in place of the form's selects; choosing one returns to the form. */
+export function buildWorkflowRows(draft: DraftParams): ActionRowBuilder<StringSelectMenuBuilder | ButtonBuilder>[] {
+  const menu = new StringSelectMenuBuilder()
+    .setCustomId(CUSTOM_ID.SELECT_WORKFLOW)
+    .setPlaceholder("Select workflow…")
+    .addOptions(
+      listWorkflows("gen").map(({ manifest }) => ({
+        label: manifest.label,
+        value: manifest.id,
+        description: manifest.description,
+        default: manifest.id === draft.workflow,
+      })),
+    );
+  return [
+    new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu),
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(CUSTOM_ID.BTN_BACK)
+        .setLabel("← Back to Settings")
+        .setStyle(ButtonStyle.Secondary),
+    ),
+  ];
+}
+
+/** Cancel button shown on a job's ephemeral status message while it is queued or running. */
+export function buildCancelRow(jobId: string): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`${CUSTOM_ID.CANCEL_PREFIX}:${jobId}`)
+      .setLabel("Cancel")
+      .setStyle(ButtonStyle.Danger),
+  );
+}
+
+/**
+ * Buttons for a finished gen post. A single image gets one row; a batch gets
+ * the job-wide buttons plus rows of numbered Upscale and Re-roll buttons, one
+ * per image (`<prefix>:<jobId>:<imageIndex>`). `share` is false once the prompt
+ * has been revealed.
+ */
+export function buildOutputRows(
+  jobId: string,
+  imageCount: number,
+  share: boolean,
+): ActionRowBuilder<ButtonBuilder>[] {
+  const buttons: ButtonBuilder[] = [];
+  if (share) {
+    buttons.push(
+      new ButtonBuilder()
+        .setCustomId(`${CUSTOM_ID.SHARE_PROMPT_PREFIX}:${jobId}`)
+        .setLabel("Share Prompt")
+        .setStyle(ButtonStyle.Secondary),
+    );
+  }
+  buttons.push(
+    new ButtonBuilder()
+      .setCustomId(`${CUSTOM_ID.REROLL_PREFIX}:${jobId}`)
+      .setLabel("🎲 Re-roll")
+      .setStyle(ButtonStyle.Primary),
+    new ButtonBuilder()
+      .setCustomId(`${CUSTOM_ID.EDIT_PREFIX}:${jobId}`)
+      .setLabel("✏️ Edit")
+      .setStyle(ButtonStyle.Secondary),
+  );
+
+  const upscaleButtons: ButtonBuilder[] = [];
+  if (config.upscale.enabled) {
+    if (imageCount <= 1) {
+      upscaleButtons.push(
+        new ButtonBuilder()
+          .setCustomId(`${CUSTOM_ID.UPSCALE_PREFIX}:${jobId}`)
+          .setLabel("⬆️ Upscale")
+          .setStyle(ButtonStyle.Success),
+      );
+    } else {
+      for (let i = 0; i < Math.min(imageCount, MAX_BATCH_SIZE); i++) {
+        upscaleButtons.push(
+          new ButtonBuilder()
+            .setCustomId(`${CUSTOM_ID.UPSCALE_PREFIX}:${jobId}:${i}`)
+            .setLabel(`⬆️ Upscale #${i + 1}`)
+            .setStyle(ButtonStyle.Success),
+        );
+      }
+    }
+  }
+
+  // Re-roll from one image of a batch: a variation of that image (image-to-image)
+  const rerollButtons: ButtonBuilder[] = [];
+  if (imageCount > 1) {
+    for (let i = 0; i < Math.min(imageCount, MAX_BATCH_SIZE); i++) {
+      rerollButtons.push(
+        new ButtonBuilder()
+          .setCustomId(`${CUSTOM_ID.REROLL_PREFIX}:${jobId}:${i}`)
+          .setLabel(`🎲 From #${i + 1}`)
+          .setStyle(ButtonStyle.Primary),
+      );
+    }
+  }
+
+  const deleteButton = new ButtonBuilder()
+    .setCustomId(`${CUSTOM_ID.DELETE_PREFIX}:${jobId}`)
+    .setLabel("🗑️ Delete")
+    .setStyle(ButtonStyle.Danger);
+
+  if (imageCount <= 1) {
+    return [new ActionRowBuilder<ButtonBuilder>().addComponents(...buttons, ...upscaleButtons, deleteButton)];
+  }
+  const rows = [new ActionRowBuilder<ButtonBuilder>().addComponents(...buttons, deleteButton)];
+  if (upscaleButtons.length > 0) rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(...upscaleButtons));
+  rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(...rerollButtons));
+  return rows;
 }
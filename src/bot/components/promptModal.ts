@@ -6,6 +6,7 @@ import {
 } from "discord.js";
 import { z } from "zod";
 import { CUSTOM_ID, type DraftParams } from "./formEmbed.js";
+import { parseSize } from "../../queue/sizes.js";
 
 /** Generate a random seed in the ComfyUI valid range (0–4 294 967 295). */
 export function randomSeed(): number {
@@ -68,6 +69,34 @@ export function buildPromptModal(draft: DraftParams): ModalBuilder {
   return modal;
 }
 
+/** Custom width × height, opened from the size select's "Custom…" option. */
+export function buildSizeModal(draft: DraftParams): ModalBuilder {
+  const [width, height] = parseSize(draft.size);
+  const widthInput = new TextInputBuilder()
+    .setCustomId(CUSTOM_ID.MODAL_FIELD_WIDTH)
+    .setLabel("Width (rounded to a multiple of 64)")
+    .setStyle(TextInputStyle.Short)
+    .setRequired(true)
+    .setMaxLength(5)
+    .setValue(String(width));
+
+  const heightInput = new TextInputBuilder()
+    .setCustomId(CUSTOM_ID.MODAL_FIELD_HEIGHT)
+    .setLabel("Height (rounded to a multiple of 64)")
+    .setStyle(TextInputStyle.Short)
+    .setRequired(true)
+    .setMaxLength(5)
+    .setValue(String(height));
+
+  return new ModalBuilder()
+    .setCustomId(CUSTOM_ID.MODAL_SIZE)
+    .setTitle("Custom Size")
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(widthInput),
+      new ActionRowBuilder<TextInputBuilder>().addComponents(heightInput),
+    );
+}
+
 // ---------------------------------------------------------------------------
 // Validation schema for modal fields
 // ---------------------------------------------------------------------------
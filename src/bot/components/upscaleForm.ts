@@ -0,0 +1,295 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  ModalBuilder,
+  StringSelectMenuBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from "discord.js";
+import { z } from "zod";
+import { getWorkflow, listWorkflows, type UpscaleWorkflowManifest } from "../../comfy/workflowManifest.js";
+import { config } from "../../config.js";
+import type { ImageSize, UpscaleJobParams } from "../../queue/types.js";
+
+// ---------------------------------------------------------------------------
+// Custom ID constants
+//
+// Every ID starts with "upscale:" so the handlers can tell the upscale form's
+// components from the gen form's.
+// ---------------------------------------------------------------------------
+
+export const UPSCALE_CUSTOM_ID = {
+  PREFIX: "upscale:",
+  SELECT_MODEL: "upscale:model",
+  SELECT_MODE: "upscale:mode",
+  SELECT_SCALE: "upscale:scale",
+  SELECT_TILE: "upscale:tile",
+  BTN_DENOISE: "upscale:denoise",
+  BTN_SUBMIT: "upscale:submit",
+  MODAL_DENOISE: "upscale:denoise:submit",
+  MODAL_FIELD_DENOISE: "upscale:field:denoise",
+} as const;
+
+/** Sentinel value for "tiles the size of the image" (Discord requires value >= 1 char). */
+export const TILE_AUTO_VALUE = "__auto__";
+
+export const UPSCALE_SCALES = [1.5, 2, 4];
+export const UPSCALE_TILE_SIZES = [512, 768, 1024];
+
+// ---------------------------------------------------------------------------
+// Draft state (per user, in-memory)
+// ---------------------------------------------------------------------------
+
+/** An image attached to a message, opened with the "Upscale with ComfyGen" context-menu command. */
+export interface UpscaleImage {
+  url: string;
+  name: string;
+  size: ImageSize;
+  channelId: string; // where the result is posted
+  backendUrl: string; // chosen when the form opened; the image is uploaded there on Upscale
+  model: string; // checkpoint for modes that re-sample, installed on that backend
+}
+
+export interface UpscaleDraft {
+  sourceJobId: string | null; // null = `image` instead of one of our generations
+  imageIndex: number;
+  image: UpscaleImage | null;
+  upscaleModels: string[]; // installed on the backend holding the source image
+  upscaleModel: string;
+  workflow: string;
+  scale: number;
+  denoise: number | null; // null = the workflow's own
+  tileSize: number | null; // null = the workflow's own
+}
+
+const _drafts = new Map<string, UpscaleDraft>();
+
+/** Start a form for one image, defaulting to UPSCALE_MODEL and UPSCALE_WORKFLOW where available. */
+export function initUpscaleDraft(
+  userId: string,
+  source: Pick<UpscaleDraft, "sourceJobId" | "imageIndex" | "image">,
+  upscaleModels: string[],
+): UpscaleDraft {
+  const workflows = listWorkflows("upscale").map((w) => w.manifest.id);
+  const draft: UpscaleDraft = {
+    ...source,
+    upscaleModels,
+    upscaleModel: upscaleModels.includes(config.upscale.model) ? config.upscale.model : (upscaleModels[0] ?? ""),
+    workflow: workflows.includes(config.upscale.workflow) ? config.upscale.workflow : (workflows[0] ?? ""),
+    scale: 2,
+    denoise: null,
+    tileSize: null,
+  };
+  _drafts.set(userId, draft);
+  return draft;
+}
+
+export function getUpscaleDraft(userId: string): UpscaleDraft | undefined {
+  return _drafts.get(userId);
+}
+
+export function mergeUpscaleDraft(userId: string, partial: Partial<UpscaleDraft>): UpscaleDraft {
+  const existing = _drafts.get(userId);
+  if (!existing) throw new Error(`No upscale draft found for user ${userId}`);
+  const updated = { ...existing, ...partial };
+  _drafts.set(userId, updated);
+  return updated;
+}
+
+export function deleteUpscaleDraft(userId: string): void {
+  _drafts.delete(userId);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function upscaleManifest(workflow: string): UpscaleWorkflowManifest | undefined {
+  const manifest = getWorkflow(workflow, "upscale")?.manifest;
+  return manifest?.kind === "upscale" ? manifest : undefined;
+}
+
+/** Shorten an upscale model filename into a human-readable label for Discord select menus. */
+function upscaleModelLabel(filename: string): string {
+  const name = filename.replace(/\.[^.]+$/, "");
+  return name.length > 97 ? name.slice(0, 97) + "…" : name;
+}
+
+/**
+ * The draft's choices as stored on the upscale job. Denoise and tile size are
+ * dropped for a mode that does not take them, so switching modes back and
+ * forth keeps what the user set.
+ */
+export function upscaleJobOptions(
+  draft: UpscaleDraft,
+): Pick<UpscaleJobParams, "upscaleModel" | "workflow" | "scale" | "denoise" | "tileSize"> {
+  const params = upscaleManifest(draft.workflow)?.params;
+  return {
+    upscaleModel: draft.upscaleModel,
+    workflow: draft.workflow,
+    scale: draft.scale,
+    denoise: params?.denoise ? draft.denoise : null,
+    tileSize: params?.tileSize ? draft.tileSize : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Embed builder
+// ---------------------------------------------------------------------------
+
+export function buildUpscaleEmbed(draft: UpscaleDraft): EmbedBuilder {
+  const manifest = upscaleManifest(draft.workflow);
+  const embed = new EmbedBuilder()
+    .setTitle("🔍 Upscale")
+    .setColor(0x57f287)
+    .setDescription(
+      `${draft.image ? `**${draft.image.name}** (${draft.image.size})` : `Image #${draft.imageIndex + 1} of your generation`}. ` +
+        "Pick your settings, then click **Upscale**.",
+    )
+    .addFields(
+      { name: "Upscale Model", value: upscaleModelLabel(draft.upscaleModel), inline: true },
+      { name: "Mode", value: manifest?.label ?? draft.workflow, inline: true },
+      { name: "Scale", value: `${draft.scale}×`, inline: true },
+    );
+  if (manifest?.params.denoise) {
+    embed.addFields({
+      name: "Denoise",
+      value: draft.denoise === null ? "Workflow default" : draft.denoise.toFixed(2),
+      inline: true,
+    });
+  }
+  if (manifest?.params.tileSize) {
+    embed.addFields({ name: "Tile Size", value: draft.tileSize === null ? "Image size" : `${draft.tileSize}px`, inline: true });
+  }
+  if (manifest?.description) embed.setFooter({ text: manifest.description });
+  return embed;
+}
+
+// ---------------------------------------------------------------------------
+// Components
+// ---------------------------------------------------------------------------
+
+export function buildUpscaleComponents(draft: UpscaleDraft): ActionRowBuilder<StringSelectMenuBuilder | ButtonBuilder>[] {
+  const params = upscaleManifest(draft.workflow)?.params;
+  const rows: ActionRowBuilder<StringSelectMenuBuilder | ButtonBuilder>[] = [];
+
+  // Discord select menus cap at 25 options
+  rows.push(
+    new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+      new StringSelectMenuBuilder()
+        .setCustomId(UPSCALE_CUSTOM_ID.SELECT_MODEL)
+        .setPlaceholder("Upscale model")
+        .addOptions(
+          draft.upscaleModels.slice(0, 25).map((filename) => ({
+            label: upscaleModelLabel(filename),
+            value: filename,
+            default: filename === draft.upscaleModel,
+          })),
+        ),
+    ),
+  );
+
+  const workflows = listWorkflows("upscale");
+  if (workflows.length > 1) {
+    rows.push(
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(UPSCALE_CUSTOM_ID.SELECT_MODE)
+          .setPlaceholder("Mode")
+          .addOptions(
+            workflows.map(({ manifest }) => ({
+              label: manifest.label,
+              value: manifest.id,
+              description: manifest.description,
+              default: manifest.id === draft.workflow,
+            })),
+          ),
+      ),
+    );
+  }
+
+  rows.push(
+    new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+      new StringSelectMenuBuilder()
+        .setCustomId(UPSCALE_CUSTOM_ID.SELECT_SCALE)
+        .setPlaceholder("Scale")
+        .addOptions(
+          UPSCALE_SCALES.map((scale) => ({
+            label: `${scale}×`,
+            value: String(scale),
+            default: scale === draft.scale,
+          })),
+        ),
+    ),
+  );
+
+  if (params?.tileSize) {
+    rows.push(
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(UPSCALE_CUSTOM_ID.SELECT_TILE)
+          .setPlaceholder("Tile size")
+          .addOptions([
+            {
+              label: "Image size",
+              value: TILE_AUTO_VALUE,
+              description: "One tile per source image area",
+              default: draft.tileSize === null,
+            },
+            ...UPSCALE_TILE_SIZES.map((size) => ({
+              label: `${size}px tiles`,
+              value: String(size),
+              default: size === draft.tileSize,
+            })),
+          ]),
+      ),
+    );
+  }
+
+  const buttons: ButtonBuilder[] = [];
+  if (params?.denoise) {
+    buttons.push(
+      new ButtonBuilder()
+        .setCustomId(UPSCALE_CUSTOM_ID.BTN_DENOISE)
+        .setLabel("⚙️ Denoise")
+        .setStyle(ButtonStyle.Primary),
+    );
+  }
+  buttons.push(
+    new ButtonBuilder()
+      .setCustomId(UPSCALE_CUSTOM_ID.BTN_SUBMIT)
+      .setLabel("🔍 Upscale")
+      .setStyle(ButtonStyle.Success),
+  );
+  rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(...buttons));
+
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Denoise modal
+// ---------------------------------------------------------------------------
+
+/** Blank = the workflow's own denoise. */
+export const UpscaleDenoiseSchema = z.preprocess(
+  (v) => (typeof v === "string" && v.trim() === "" ? null : v),
+  z.coerce.number().min(0.05, "Minimum denoise is 0.05").max(1, "Maximum denoise is 1").nullable(),
+);
+
+export function buildUpscaleDenoiseModal(draft: UpscaleDraft): ModalBuilder {
+  const input = new TextInputBuilder()
+    .setCustomId(UPSCALE_CUSTOM_ID.MODAL_FIELD_DENOISE)
+    .setLabel("Denoise (blank = workflow default)")
+    .setStyle(TextInputStyle.Short)
+    .setRequired(false)
+    .setMaxLength(5)
+    .setPlaceholder("0.05 – 1");
+  if (draft.denoise !== null) input.setValue(draft.denoise.toFixed(2));
+
+  return new ModalBuilder()
+    .setCustomId(UPSCALE_CUSTOM_ID.MODAL_DENOISE)
+    .setTitle("Upscale Denoise")
+    .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input));
+}
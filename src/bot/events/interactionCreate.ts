@@ -1,8 +1,13 @@
-import type { Interaction, ButtonBuilder } from "discord.js";
+import type { ButtonInteraction, Interaction } from "discord.js";
 import { PermissionFlagsBits } from "discord.js";
 import { v4 as uuidv4 } from "uuid";
 import { execute as genExecute } from "../commands/gen.js";
 import { execute as bannedExecute } from "../commands/banned.js";
+import { execute as queueExecute } from "../commands/queue.js";
+import { execute as quotaExecute } from "../commands/quota.js";
+import { execute as adminExecute } from "../commands/admin.js";
+import { execute as inpaintExecute, autocomplete as inpaintAutocomplete } from "../commands/inpaint.js";
+import { execute as upscaleImageExecute } from "../commands/upscaleImage.js";
 import { guardPrompt } from "../promptGuard.js";
 import { buildBannedWordEmbed, buildBannedEditButtonRow, BANNED_EDIT_CUSTOM_ID } from "../components/bannedWordEmbed.js";
 import {
@@ -14,6 +19,11 @@ import {
   mergeDraft,
   deleteDraft,
   initDraftFromJob,
+  buildCancelRow,
+  buildOutputRows,
+  buildWorkflowRows,
+  MAX_BATCH_SIZE,
+  type SourceAttachment,
 } from "../components/formEmbed.js";
 import {
   LORA_CUSTOM_ID,
@@ -23,17 +33,58 @@ import {
   buildLoraStrengthModal,
   LoraStrengthSchema,
 } from "../components/loraEmbed.js";
-import { buildPromptModal, ModalSchema, resolveSeed, randomSeed } from "../components/promptModal.js";
-import { fetchOptions } from "../../comfy/objectInfo.js";
-import { validate as validateWorkflow, bind } from "../../comfy/workflowBinder.js";
+import {
+  CONTROLNET_CUSTOM_ID,
+  PREPROCESSOR_NONE_VALUE,
+  buildControlNetEmbed,
+  buildControlNetComponents,
+  buildControlNetSettingsModal,
+  ControlNetSettingsSchema,
+} from "../components/controlNetEmbed.js";
+import {
+  UPSCALE_CUSTOM_ID,
+  TILE_AUTO_VALUE,
+  initUpscaleDraft,
+  getUpscaleDraft,
+  mergeUpscaleDraft,
+  deleteUpscaleDraft,
+  upscaleJobOptions,
+  buildUpscaleEmbed,
+  buildUpscaleComponents,
+  buildUpscaleDenoiseModal,
+  UpscaleDenoiseSchema,
+  type UpscaleDraft,
+  type UpscaleImage,
+} from "../components/upscaleForm.js";
+import { buildPromptModal, buildSizeModal, ModalSchema, resolveSeed, randomSeed } from "../components/promptModal.js";
+import { fetchOptions, getBackendOptions } from "../../comfy/objectInfo.js";
+import { bind } from "../../comfy/workflowBinder.js";
+import { getWorkflow, jobWorkflow } from "../../comfy/workflowManifest.js";
 import { getTriggerWords } from "../../civitai/triggerWords.js";
-import { insertJob, countQueuedBefore, getJobOrThrow } from "../../db/jobs.js";
-import { insertUpscaleJob, countUpscaleQueuedBefore } from "../../db/upscaleJobs.js";
-import { enqueue, enqueueUpscale } from "../../queue/jobQueue.js";
-import { comfyClient } from "../../comfy/client.js";
+import { insertJob, getJobOrThrow } from "../../db/jobs.js";
+import { insertUpscaleJob, getUpscaleJobOrThrow } from "../../db/upscaleJobs.js";
+import {
+  enqueue,
+  enqueueUpscale,
+  queuedJobsForUser,
+  nextQueuePosition,
+  cancelJob,
+  backendForSourceImage,
+} from "../../queue/jobQueue.js";
+import { userWeight } from "../../queue/scheduler.js";
+import { estimateNewJobEta, formatEta } from "../../queue/eta.js";
+import { checkQuota, chargeQuota, genJobCost, formatRemaining } from "../../queue/quota.js";
+import { memberRoleIds } from "../memberRoles.js";
+import { maintenanceReply } from "../maintenance.js";
+import { downloadAttachment } from "../imageAttachments.js";
+import { primaryClient, backendForJob, type ComfyBackend } from "../../comfy/backendPool.js";
 import { config } from "../../config.js";
 import { logger } from "../../logger.js";
-import type { JobParams, ImageSize, LoraParam } from "../../queue/types.js";
+import { customSize, type AspectRatio } from "../../queue/sizes.js";
+import type { ControlNetPreprocessor, JobParams, LoraParam, SourceImage, UpscaleJobParams } from "../../queue/types.js";
+
+/** Denoise for a re-roll from one image of a batch, unless the original job already was image-to-image. */
+const VARIATION_DENOISE = 0.6;
 
 export async function onInteractionCreate(interaction: Interaction): Promise<void> {
   // ---------------------------------------------------------------------------
@@ -49,6 +100,36 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
     return;
   }
 
+  if (interaction.isChatInputCommand() && interaction.commandName === "queue") {
+    await queueExecute(interaction);
+    return;
+  }
+
+  if (interaction.isChatInputCommand() && interaction.commandName === "quota") {
+    await quotaExecute(interaction);
+    return;
+  }
+
+  if (interaction.isChatInputCommand() && interaction.commandName === "admin") {
+    await adminExecute(interaction);
+    return;
+  }
+
+  if (interaction.isChatInputCommand() && interaction.commandName === "inpaint") {
+    await inpaintExecute(interaction);
+    return;
+  }
+
+  if (interaction.isMessageContextMenuCommand() && interaction.commandName === "Upscale with ComfyGen") {
+    await upscaleImageExecute(interaction);
+    return;
+  }
+
+  if (interaction.isAutocomplete() && interaction.commandName === "inpaint") {
+    await inpaintAutocomplete(interaction);
+    return;
+  }
+
   if (interaction.isChatInputCommand() && interaction.commandName === "purge") {
     const { execute: purgeExecute } = await import("../commands/purge.js");
     await purgeExecute(interaction);
@@ -58,7 +139,7 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
   // ---------------------------------------------------------------------------
   // 2. String select menus
   // ---------------------------------------------------------------------------
-  if (interaction.isStringSelectMenu()) {
+  if (interaction.isStringSelectMenu() && !interaction.customId.startsWith(UPSCALE_CUSTOM_ID.PREFIX)) {
     const userId = interaction.user.id;
     const draft = getDraft(userId);
     if (!draft) {
@@ -78,7 +159,7 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
         newLoras[slotIndex] = null;
       } else {
         const existing = draft.loras[slotIndex];
-        const loraHash = await comfyClient.getLoraFileHash(selectedValue).catch(() => null);
+        const loraHash = await primaryClient().getLoraFileHash(selectedValue).catch(() => null);
         const triggerWords = await getTriggerWords(selectedValue, config.civitaiApiKey, loraHash ?? undefined);
         newLoras[slotIndex] = {
           name: selectedValue,
@@ -96,6 +177,32 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
       return;
     }
 
+    // ControlNet panel selects
+    if (
+      interaction.customId === CONTROLNET_CUSTOM_ID.SELECT_MODEL ||
+      interaction.customId === CONTROLNET_CUSTOM_ID.SELECT_PREPROCESSOR
+    ) {
+      if (!draft.controlNet) {
+        await interaction.reply({ content: "Your session has expired. Run `/gen` again.", ephemeral: true });
+        return;
+      }
+      const value = interaction.values[0];
+      const controlNet =
+        interaction.customId === CONTROLNET_CUSTOM_ID.SELECT_MODEL
+          ? { ...draft.controlNet, model: value }
+          : {
+              ...draft.controlNet,
+              preprocessor: value === PREPROCESSOR_NONE_VALUE ? null : (value as ControlNetPreprocessor),
+            };
+      const updatedDraft = mergeDraft(userId, { controlNet });
+      const controlNetOptions = await fetchOptions();
+      await interaction.update({
+        embeds: [buildControlNetEmbed(updatedDraft)],
+        components: buildControlNetComponents(updatedDraft, controlNetOptions),
+      });
+      return;
+    }
+
     if (interaction.customId === CUSTOM_ID.SELECT_MODEL) {
       mergeDraft(userId, { model: interaction.values[0] });
     } else if (interaction.customId === CUSTOM_ID.SELECT_SAMPLER) {
@@ -103,7 +210,19 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
     } else if (interaction.customId === CUSTOM_ID.SELECT_SCHEDULER) {
       mergeDraft(userId, { scheduler: interaction.values[0] });
     } else if (interaction.customId === CUSTOM_ID.SELECT_SIZE) {
-      mergeDraft(userId, { size: interaction.values[0] as ImageSize });
+      if (interaction.values[0] === CUSTOM_ID.SIZE_CUSTOM) {
+        const draft = getDraft(userId);
+        if (!draft) {
+          await interaction.reply({ content: "Your session has expired. Run `/gen` again.", ephemeral: true });
+          return;
+        }
+        // The form is updated when the modal is submitted
+        await interaction.showModal(buildSizeModal(draft));
+        return;
+      }
+      mergeDraft(userId, { aspectRatio: interaction.values[0] as AspectRatio });
+    } else if (interaction.customId === CUSTOM_ID.SELECT_WORKFLOW) {
+      mergeDraft(userId, { workflow: interaction.values[0] });
     } else {
       return; // not ours
     }
@@ -145,6 +264,21 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
       return;
     }
 
+    if (interaction.customId === CUSTOM_ID.BTN_BATCH) {
+      const draft = getDraft(userId);
+      if (!draft) {
+        await interaction.reply({ content: "Your session has expired. Run `/gen` again.", ephemeral: true });
+        return;
+      }
+      const updated = mergeDraft(userId, { batchSize: (draft.batchSize % MAX_BATCH_SIZE) + 1 });
+      const batchOptions = await fetchOptions();
+      await interaction.update({
+        embeds: [buildFormEmbed(updated)],
+        components: [...buildSelectRows(batchOptions, updated), buildButtonRow(updated)],
+      });
+      return;
+    }
+
     if (interaction.customId === CUSTOM_ID.BTN_LORAS) {
       const draft = getDraft(userId);
       if (!draft) {
@@ -159,7 +293,62 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
       return;
     }
 
-    if (interaction.customId === LORA_CUSTOM_ID.BTN_BACK) {
+    if (interaction.customId === CUSTOM_ID.BTN_CONTROLNET) {
+      const draft = getDraft(userId);
+      if (!draft) {
+        await interaction.reply({ content: "Your session has expired. Run `/gen` again.", ephemeral: true });
+        return;
+      }
+      const controlNetOptions = await fetchOptions();
+      await interaction.update({
+        embeds: [buildControlNetEmbed(draft)],
+        components: buildControlNetComponents(draft, controlNetOptions),
+      });
+      return;
+    }
+
+    if (interaction.customId === CONTROLNET_CUSTOM_ID.BTN_SETTINGS) {
+      const draft = getDraft(userId);
+      if (!draft) {
+        await interaction.reply({ content: "Your session has expired. Run `/gen` again.", ephemeral: true });
+        return;
+      }
+      await interaction.showModal(buildControlNetSettingsModal(draft));
+      return;
+    }
+
+    if (interaction.customId === CONTROLNET_CUSTOM_ID.BTN_REMOVE) {
+      if (!getDraft(userId)) {
+        await interaction.reply({ content: "Your session has expired. Run `/gen` again.", ephemeral: true });
+        return;
+      }
+      const updated = mergeDraft(userId, { controlNet: null, controlAttachment: null });
+      const removeOptions = await fetchOptions();
+      await interaction.update({
+        embeds: [buildFormEmbed(updated)],
+        components: [...buildSelectRows(removeOptions, updated), buildButtonRow(updated)],
+      });
+      return;
+    }
+
+    if (interaction.customId === CUSTOM_ID.BTN_WORKFLOW) {
+      const draft = getDraft(userId);
+      if (!draft) {
+        await interaction.reply({ content: "Your session has expired. Run `/gen` again.", ephemeral: true });
+        return;
+      }
+      await interaction.update({
+        embeds: [buildFormEmbed(draft)],
+        components: buildWorkflowRows(draft),
+      });
+      return;
+    }
+
+    if (
+      interaction.customId === LORA_CUSTOM_ID.BTN_BACK ||
+      interaction.customId === CONTROLNET_CUSTOM_ID.BTN_BACK ||
+      interaction.customId === CUSTOM_ID.BTN_BACK
+    ) {
       const draft = getDraft(userId);
       if (!draft) {
         await interaction.reply({ content: "Your session has expired. Run `/gen` again.", ephemeral: true });
@@ -199,24 +388,24 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
         return;
       }
 
-      // Pre-submission workflow validation
-      const loadBase = (await import("../../comfy/workflowBinder.js")).loadBaseWorkflow;
-      const wfValidation = validateWorkflow(loadBase());
-      if (!wfValidation.ok) {
-        logger.error({ reason: wfValidation.reason }, "Workflow validation failed at generate click");
-        await interaction.reply({
-          content: `Workflow configuration error: ${wfValidation.reason} — please contact the bot administrator.`,
-          ephemeral: true,
-        });
-        return;
-      }
-
       // Build full JobParams
       if (!interaction.guildId) {
         await interaction.reply({ content: "This command can only be used in a server.", ephemeral: true });
         return;
       }
 
+      const maintenance = maintenanceReply(userId);
+      if (maintenance) {
+        await interaction.reply({ content: maintenance, ephemeral: true });
+        return;
+      }
+
+      const capMsg = queueCapMessage(userId);
+      if (capMsg) {
+        await interaction.reply({ content: capMsg, ephemeral: true });
+        return;
+      }
+
       // Banned word guard
       const bannedHits = guardPrompt(draft.positivePrompt);
       if (bannedHits.length > 0) {
@@ -239,20 +428,32 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
         cfg: draft.cfg,
         seed: draft.seed,
         size: draft.size,
+        batchSize: draft.batchSize,
+        workflow: draft.workflow,
+        // An attachment not yet uploaded stands in for the source until the bind check has passed
+        sourceImage: draft.sourceImage ?? (draft.sourceAttachment ? { filename: draft.sourceAttachment.name, backendUrl: "" } : null),
+        denoise: draft.denoise,
+        mask: draft.mask,
+        controlNet: draft.controlNet
+          ? { ...draft.controlNet, image: draft.controlNet.image ?? { filename: draft.controlAttachment?.name ?? "", backendUrl: "" } }
+          : null,
         positivePrompt: draft.positivePrompt,
         negativePrompt: draft.negativePrompt,
         loras: draft.loras,
       };
 
       // Final bind validation with actual values
-      const tempJob: typeof params & { id: string; discordMessageId: null; status: "queued"; comfyPromptId: null; outputImages: null; errorMessage: null; createdAt: number; startedAt: null; completedAt: null } = {
+      const tempJob: typeof params & { id: string; discordMessageId: null; status: "queued"; comfyPromptId: null; backendUrl: null; outputImages: null; errorMessage: null; attempts: number; lastError: null; createdAt: number; startedAt: null; completedAt: null } = {
         ...params,
         id: "preview",
         discordMessageId: null,
         status: "queued" as const,
         comfyPromptId: null,
+        backendUrl: null,
         outputImages: null,
         errorMessage: null,
+        attempts: 0,
+        lastError: null,
         createdAt: Date.now(),
         startedAt: null,
         completedAt: null,
@@ -266,20 +467,68 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
         return;
       }
 
+      const roleIds = memberRoleIds(interaction);
+      const cost = genJobCost(params.steps, params.size, params.batchSize);
+      const quota = checkQuota(userId, roleIds, cost);
+      if (!quota.ok) {
+        await interaction.reply({ content: `⛔ ${quota.reason}`, ephemeral: true });
+        return;
+      }
+
+      // Upload attached img2img source and control images to the backend the job will be pinned to
+      if (draft.sourceAttachment || draft.controlAttachment) {
+        await interaction.deferUpdate();
+        try {
+          const backend = await backendForAttachments(params);
+          if (draft.sourceAttachment) {
+            params.sourceImage = await uploadAttachment(draft.sourceAttachment, backend, "img2img");
+          }
+          if (draft.controlAttachment && params.controlNet) {
+            params.controlNet.image = await uploadAttachment(draft.controlAttachment, backend, "controlnet");
+          }
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          logger.error({ userId, err: msg }, "Failed to upload attached image");
+          await interaction.followUp({ content: `❌ Failed to upload your image: ${msg}`, ephemeral: true });
+          return;
+        }
+      }
+
       // Persist and enqueue
       const jobId = uuidv4();
       insertJob(jobId, params);
-      const position = countQueuedBefore(jobId) + 1;
+      chargeQuota(userId, jobId, "gen", cost);
+      const weight = userWeight(roleIds);
+      const position = nextQueuePosition(userId, weight);
+      const eta = formatEta(
+        estimateNewJobEta(position, {
+          type: "gen",
+          model: params.model,
+          steps: params.steps,
+          size: params.size,
+          batchSize: params.batchSize,
+        }),
+      );
 
       // Acknowledge the button click first, then hand the webhook to the runner
       // so it can edit this same ephemeral as the job progresses.
       const queuedMsg =
         position === 1
-          ? "⏳ Queued — you're next! I'll update this message as your job runs."
-          : `⏳ Queued — position **${position}** in the queue. I'll update this message as your job runs.`;
-
-      await interaction.update({ content: queuedMsg, embeds: [], components: [] });
-      enqueue(jobId, interaction.webhook);
+          ? `⏳ Queued — you're next! Estimated finish in ${eta}. I'll update this message as your job runs.`
+          : `⏳ Queued — position **${position}** in the queue, estimated finish in ${eta}. I'll update this message as your job runs.`;
+      const quotaLine = formatRemaining(quota.remaining);
+
+      const queuedPayload = {
+        content: quotaLine ? `${queuedMsg}\n${quotaLine}` : queuedMsg,
+        embeds: [],
+        components: [buildCancelRow(jobId)],
+      };
+      if (interaction.deferred) {
+        await interaction.editReply(queuedPayload);
+      } else {
+        await interaction.update(queuedPayload);
+      }
+      enqueue(jobId, userId, interaction.webhook, weight);
       deleteDraft(userId);
 
       logger.info({ jobId, userId, position }, "Job submitted by user");
@@ -320,8 +569,13 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
         ? job.positivePrompt.slice(0, 997) + "…"
         : job.positivePrompt;
 
+    const imageCount = job.outputImages?.length ?? 1;
     const revealedEmbed = new EmbedBuilder()
-      .setTitle(`Image generated by ${interaction.user.displayName}`)
+      .setTitle(
+        imageCount > 1
+          ? `${imageCount} images generated by ${interaction.user.displayName}`
+          : `Image generated by ${interaction.user.displayName}`,
+      )
       .setColor(0x5865f2)
       .addFields(
         { name: "Model", value: job.model, inline: true },
@@ -335,37 +589,16 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
           : []),
       );
 
-    // Preserve the image attachment reference from the original embed
-    const existingImage = interaction.message.embeds[0]?.image?.url;
-    if (existingImage) revealedEmbed.setImage(existingImage);
-
-    // Rebuild Re-roll, Edit, and Delete buttons so they survive the prompt reveal
-    const { ActionRowBuilder, ButtonBuilder: BtnBuilder, ButtonStyle } = await import("discord.js");
-    const rerollBtn = new BtnBuilder()
-      .setCustomId(`${CUSTOM_ID.REROLL_PREFIX}:${jobId}`)
-      .setLabel("🎲 Re-roll")
-      .setStyle(ButtonStyle.Primary);
-    const editBtn = new BtnBuilder()
-      .setCustomId(`${CUSTOM_ID.EDIT_PREFIX}:${jobId}`)
-      .setLabel("✏️ Edit")
-      .setStyle(ButtonStyle.Secondary);
-    const deleteBtn = new BtnBuilder()
-      .setCustomId(`${CUSTOM_ID.DELETE_PREFIX}:${jobId}`)
-      .setLabel("🗑️ Delete")
-      .setStyle(ButtonStyle.Danger);
-    const survivingButtons: InstanceType<typeof BtnBuilder>[] = [rerollBtn, editBtn];
-    if (config.upscale.enabled) {
-      const upscaleBtn = new BtnBuilder()
-        .setCustomId(`${CUSTOM_ID.UPSCALE_PREFIX}:${jobId}`)
-        .setLabel("⬆️ Upscale")
-        .setStyle(ButtonStyle.Success);
-      survivingButtons.push(upscaleBtn);
-    }
-    survivingButtons.push(deleteBtn);
-    const survivingRow = new ActionRowBuilder<ButtonBuilder>().addComponents(...survivingButtons);
-
-    // Edit the post in-place; remove Share Prompt, keep Re-roll + Edit + Delete
-    await interaction.update({ embeds: [revealedEmbed], components: [survivingRow] });
+    // Preserve the image attachment reference (and gallery URL) from the original embed
+    const [original, ...galleryEmbeds] = interaction.message.embeds;
+    if (original?.image?.url) revealedEmbed.setImage(original.image.url);
+    if (original?.url) revealedEmbed.setURL(original.url);
+
+    // Edit the post in-place; remove Share Prompt, keep the other buttons
+    await interaction.update({
+      embeds: [revealedEmbed, ...galleryEmbeds],
+      components: buildOutputRows(jobId, imageCount, false),
+    });
     return;
   }
 
@@ -376,7 +609,9 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
     interaction.isButton() &&
     interaction.customId.startsWith(CUSTOM_ID.REROLL_PREFIX + ":")
   ) {
-    const jobId = interaction.customId.slice(CUSTOM_ID.REROLL_PREFIX.length + 1);
+    // `gen_reroll:<jobId>` (whole job) or `gen_reroll:<jobId>:<imageIndex>` (from one image of a batch)
+    const [jobId, indexPart] = interaction.customId.slice(CUSTOM_ID.REROLL_PREFIX.length + 1).split(":");
+    const imageIndex = indexPart ? parseInt(indexPart, 10) : null;
 
     let originalJob;
     try {
@@ -395,6 +630,25 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
       return;
     }
 
+    const maintenance = maintenanceReply(originalJob.userId);
+    if (maintenance) {
+      await interaction.reply({ content: maintenance, ephemeral: true });
+      return;
+    }
+
+    const capMsg = queueCapMessage(originalJob.userId);
+    if (capMsg) {
+      await interaction.reply({ content: capMsg, ephemeral: true });
+      return;
+    }
+
+    // From one image: a variation of it — the image becomes the new job's img2img source
+    const variationOf = imageIndex !== null ? originalJob.outputImages?.[imageIndex] : undefined;
+    if (imageIndex !== null && (!variationOf || originalJob.mask)) {
+      await interaction.reply({ content: "This image is not available for re-rolling.", ephemeral: true });
+      return;
+    }
+
     const newJobId = uuidv4();
     const params: JobParams = {
       userId: originalJob.userId,
@@ -407,11 +661,33 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
       cfg: originalJob.cfg,
       seed: randomSeed(),
       size: originalJob.size,
+      batchSize: originalJob.batchSize,
+      workflow: originalJob.workflow,
+      sourceImage: originalJob.sourceImage,
+      denoise: originalJob.denoise,
+      mask: originalJob.mask,
+      controlNet: originalJob.controlNet,
       positivePrompt: originalJob.positivePrompt,
       negativePrompt: originalJob.negativePrompt,
       loras: originalJob.loras,
     };
 
+    const rerollWorkflow = jobWorkflow(params);
+    if (!rerollWorkflow) {
+      await interaction.reply({
+        content: "⛔ This generation can no longer be re-rolled because its workflow has been removed.",
+        ephemeral: true,
+      });
+      return;
+    }
+    if (variationOf && !(rerollWorkflow.manifest.kind === "gen" && rerollWorkflow.manifest.img2img)) {
+      await interaction.reply({
+        content: `⛔ The ${rerollWorkflow.manifest.label} workflow does not support re-rolling from one image.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
     // Banned word guard (catches words added after the original job was submitted)
     const rerollBannedHits = guardPrompt(params.positivePrompt);
     if (rerollBannedHits.length > 0) {
@@ -422,16 +698,71 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
       return;
     }
 
+    const roleIds = memberRoleIds(interaction);
+    const cost = genJobCost(params.steps, params.size, params.batchSize);
+    const quota = checkQuota(originalJob.userId, roleIds, cost);
+    if (!quota.ok) {
+      await interaction.reply({ content: `⛔ ${quota.reason}`, ephemeral: true });
+      return;
+    }
+
+    if (variationOf) {
+      // The image only exists on the backend that generated it, so the new job is pinned there
+      const backend = backendForJob(originalJob.backendUrl);
+      if (!backend?.healthy) {
+        await interaction.reply({
+          content: "The ComfyUI server that generated this image is offline right now. Please try again later.",
+          ephemeral: true,
+        });
+        return;
+      }
+
+      // Defer — the image fetch + upload may take a few seconds
+      await interaction.deferReply({ ephemeral: true });
+      try {
+        const imageBuffer = await backend.client.getOutputImage(originalJob.comfyPromptId!, variationOf);
+        const { name } = await backend.client.uploadImage(imageBuffer, `reroll_${uuidv4()}.png`);
+        params.sourceImage = { filename: name, backendUrl: backend.url };
+        params.denoise = originalJob.sourceImage ? originalJob.denoise : VARIATION_DENOISE;
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        logger.error({ jobId, imageIndex, err: msg }, "Failed to upload re-roll source image");
+        await interaction.editReply({ content: `❌ Failed to re-roll from this image: ${msg}` });
+        return;
+      }
+    }
+
     insertJob(newJobId, params);
-    const position = countQueuedBefore(newJobId) + 1;
+    chargeQuota(originalJob.userId, newJobId, "gen", cost);
+    const weight = userWeight(roleIds);
+    const position = nextQueuePosition(originalJob.userId, weight);
+    const eta = formatEta(
+      estimateNewJobEta(position, {
+        type: "gen",
+        model: params.model,
+        steps: params.steps,
+        size: params.size,
+        batchSize: params.batchSize,
+      }),
+    );
     const queuedMsg =
       position === 1
-        ? "⏳ Queued — you're next! I'll update this message as your job runs."
-        : `⏳ Queued — position **${position}** in the queue. I'll update this message as your job runs.`;
+        ? `⏳ Queued — you're next! Estimated finish in ${eta}. I'll update this message as your job runs.`
+        : `⏳ Queued — position **${position}** in the queue, estimated finish in ${eta}. I'll update this message as your job runs.`;
+
+    const quotaLine = formatRemaining(quota.remaining);
 
-    await interaction.reply({ content: queuedMsg, ephemeral: true });
-    enqueue(newJobId, interaction.webhook);
-    logger.info({ newJobId, originalJobId: jobId, userId: originalJob.userId }, "Re-roll submitted");
+    const rerollPayload = {
+      content: quotaLine ? `${queuedMsg}\n${quotaLine}` : queuedMsg,
+      components: [buildCancelRow(newJobId)],
+    };
+    if (interaction.deferred) {
+      await interaction.editReply(rerollPayload);
+    } else {
+      await interaction.reply({ ...rerollPayload, ephemeral: true });
+    }
+    enqueue(newJobId, originalJob.userId, interaction.webhook, weight);
+    logger.info({ newJobId, originalJobId: jobId, imageIndex, userId: originalJob.userId }, "Re-roll submitted");
     return;
   }
 
@@ -503,107 +834,92 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
   }
 
   // ---------------------------------------------------------------------------
-  // 8. Upscale button on output posts
+  // 8. Upscale button on output posts — opens the upscale form
   // ---------------------------------------------------------------------------
   if (
     interaction.isButton() &&
     interaction.customId.startsWith(CUSTOM_ID.UPSCALE_PREFIX + ":")
   ) {
-    if (!config.upscale.enabled) {
-      await interaction.reply({ content: "Upscaling is currently disabled.", ephemeral: true });
-      return;
-    }
+    // `gen_upscale:<jobId>` (single image) or `gen_upscale:<jobId>:<imageIndex>` (batch)
+    const [jobId, indexPart] = interaction.customId.slice(CUSTOM_ID.UPSCALE_PREFIX.length + 1).split(":");
+    const imageIndex = indexPart ? parseInt(indexPart, 10) : 0;
 
-    const jobId = interaction.customId.slice(CUSTOM_ID.UPSCALE_PREFIX.length + 1);
+    const source = await upscaleSource(interaction, jobId, imageIndex);
+    if (!source) return;
 
-    let job;
+    // Only the models on the backend holding the image can be used
+    let upscaleModels: string[];
     try {
-      job = getJobOrThrow(jobId);
-    } catch {
-      await interaction.reply({ content: "Could not find the job for this image.", ephemeral: true });
-      return;
-    }
-
-    if (interaction.user.id !== job.userId) {
+      upscaleModels = (await getBackendOptions(source.backend)).upscaleModels;
+    } catch (err) {
+      logger.error({ url: source.backend.url, err }, "Failed to load upscale models");
       await interaction.reply({
-        content: `Only <@${job.userId}> can upscale this image.`,
+        content: "The ComfyUI server that generated this image is not responding. Please try again later.",
         ephemeral: true,
       });
       return;
     }
-
-    if (job.status !== "completed" || !job.outputImages || job.outputImages.length === 0) {
+    if (upscaleModels.length === 0) {
       await interaction.reply({
-        content: "This image is not available for upscaling yet.",
+        content: "No upscale models are installed on the ComfyUI server that generated this image.",
         ephemeral: true,
       });
       return;
     }
 
-    // Defer — the image fetch + upload may take a few seconds
-    await interaction.deferReply({ ephemeral: true });
-
-    try {
-      // Fetch the finished image from ComfyUI output folder
-      const sourceFilename = job.outputImages[0];
-      const history = await comfyClient.getHistory(job.comfyPromptId!);
-      let subfolder = "";
-      let imgType = "output";
-      if (history) {
-        for (const out of Object.values(history.outputs)) {
-          const img = (out.images ?? []).find((i) => i.filename === sourceFilename);
-          if (img) {
-            subfolder = img.subfolder;
-            imgType = img.type;
-            break;
-          }
-        }
-      }
-
-      const imageBuffer = await comfyClient.getImage(sourceFilename, subfolder, imgType);
+    const draft = initUpscaleDraft(interaction.user.id, { sourceJobId: jobId, imageIndex, image: null }, upscaleModels);
+    await interaction.reply({
+      ephemeral: true,
+      embeds: [buildUpscaleEmbed(draft)],
+      components: buildUpscaleComponents(draft),
+    });
+    return;
+  }
 
-      // Upload to ComfyUI /upload/image so the workflow's image loader can read it
-      const { name: uploadedFilename } = await comfyClient.uploadImage(imageBuffer, sourceFilename);
+  // ---------------------------------------------------------------------------
+  // 9. Cancel button on queued/running status messages
+  // ---------------------------------------------------------------------------
+  if (
+    interaction.isButton() &&
+    interaction.customId.startsWith(CUSTOM_ID.CANCEL_PREFIX + ":")
+  ) {
+    const jobId = interaction.customId.slice(CUSTOM_ID.CANCEL_PREFIX.length + 1);
 
-      // Create the upscale job in the DB
-      if (!interaction.guildId) {
-        await interaction.editReply({ content: "This command can only be used in a server." });
+    // Gen and upscale jobs share the button; the ID is only present in one table
+    let jobUserId: string;
+    try {
+      jobUserId = getJobOrThrow(jobId).userId;
+    } catch {
+      try {
+        jobUserId = getUpscaleJobOrThrow(jobId).userId;
+      } catch {
+        await interaction.reply({ content: "Could not find this job.", ephemeral: true });
         return;
       }
+    }
 
-      const upscaleJobId = uuidv4();
-      insertUpscaleJob(upscaleJobId, {
-        userId: job.userId,
-        guildId: interaction.guildId,
-        channelId: job.channelId,
-        sourceJobId: job.id,
-        sourceImageFilename: uploadedFilename,
-        model: job.model,
-        positivePrompt: job.positivePrompt,
-        negativePrompt: job.negativePrompt,
-        upscaleModel: config.upscale.model,
+    if (interaction.user.id !== jobUserId && interaction.user.id !== config.ownerId) {
+      await interaction.reply({
+        content: `Only <@${jobUserId}> or the bot owner can cancel this job.`,
+        ephemeral: true,
       });
-
-      const position = countUpscaleQueuedBefore(upscaleJobId) + 1;
-      const queuedMsg =
-        position === 1
-          ? `⏳ Queued for upscaling (${config.upscale.workflow} mode) — you're next! I'll update this message as it runs.`
-          : `⏳ Queued for upscaling (${config.upscale.workflow} mode) — position **${position}** in the queue.`;
-
-      await interaction.editReply({ content: queuedMsg });
-      enqueueUpscale(upscaleJobId, interaction.webhook);
-
-      logger.info({ upscaleJobId, sourceJobId: jobId, userId: job.userId }, "Upscale job submitted");
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      logger.error({ jobId, err: msg }, "Failed to initiate upscale");
-      await interaction.editReply({ content: `❌ Failed to start upscale: ${msg}` });
+      return;
     }
+
+    const result = await cancelJob(jobId);
+    const content =
+      result === "cancelled"
+        ? "🚫 Job cancelled."
+        : result === "cancelling"
+          ? "🚫 Cancelling… ComfyUI is stopping the job."
+          : "This job has already finished and can no longer be cancelled.";
+    await interaction.update({ content, embeds: [], components: [] });
+    logger.info({ jobId, userId: interaction.user.id, result }, "Cancel requested");
     return;
   }
 
   // ---------------------------------------------------------------------------
-  // 9. Modal submit
+  // 10. Modal submit
   // ---------------------------------------------------------------------------
   if (interaction.isModalSubmit() && interaction.customId === CUSTOM_ID.MODAL_PROMPTS) {
     const userId = interaction.user.id;
@@ -666,7 +982,40 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
   }
 
   // ---------------------------------------------------------------------------
-  // 10. LoRA strength modal submit
+  // 11. Custom size modal submit
+  // ---------------------------------------------------------------------------
+  if (interaction.isModalSubmit() && interaction.customId === CUSTOM_ID.MODAL_SIZE) {
+    const userId = interaction.user.id;
+    if (!getDraft(userId)) {
+      await interaction.reply({ content: "Your session has expired. Run `/gen` again.", ephemeral: true });
+      return;
+    }
+
+    const result = customSize(
+      Number(interaction.fields.getTextInputValue(CUSTOM_ID.MODAL_FIELD_WIDTH).trim()),
+      Number(interaction.fields.getTextInputValue(CUSTOM_ID.MODAL_FIELD_HEIGHT).trim()),
+    );
+    if (!result.ok) {
+      await interaction.reply({ content: `• **size**: ${result.reason}`, ephemeral: true });
+      return;
+    }
+
+    const updated = mergeDraft(userId, { size: result.size, aspectRatio: null });
+    const options = await fetchOptions();
+    const embedPayload = {
+      embeds: [buildFormEmbed(updated)],
+      components: [...buildSelectRows(options, updated), buildButtonRow(updated)],
+    };
+    if (interaction.isFromMessage()) {
+      await interaction.update(embedPayload);
+    } else {
+      await interaction.reply({ ...embedPayload, ephemeral: true });
+    }
+    return;
+  }
+
+  // ---------------------------------------------------------------------------
+  // 12. LoRA strength modal submit
   // ---------------------------------------------------------------------------
   if (interaction.isModalSubmit() && interaction.customId === LORA_CUSTOM_ID.MODAL_STRENGTH) {
     const userId = interaction.user.id;
@@ -705,4 +1054,343 @@ export async function onInteractionCreate(interaction: Interaction): Promise<voi
     }
     return;
   }
+
+  // ---------------------------------------------------------------------------
+  // 13. ControlNet strength & timing modal submit
+  // ---------------------------------------------------------------------------
+  if (interaction.isModalSubmit() && interaction.customId === CONTROLNET_CUSTOM_ID.MODAL_SETTINGS) {
+    const userId = interaction.user.id;
+    const draft = getDraft(userId);
+    if (!draft?.controlNet) {
+      await interaction.reply({ content: "Your session has expired. Run `/gen` again.", ephemeral: true });
+      return;
+    }
+
+    const parsed = ControlNetSettingsSchema.safeParse({
+      strength: interaction.fields.getTextInputValue(CONTROLNET_CUSTOM_ID.MODAL_FIELD_STRENGTH),
+      startPercent: interaction.fields.getTextInputValue(CONTROLNET_CUSTOM_ID.MODAL_FIELD_START),
+      endPercent: interaction.fields.getTextInputValue(CONTROLNET_CUSTOM_ID.MODAL_FIELD_END),
+    });
+    if (!parsed.success) {
+      const errors = parsed.error.issues.map((i) => `• **${i.path.join(".")}**: ${i.message}`).join("\n");
+      await interaction.reply({
+        content: `Please fix the following errors:\n${errors}`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const updatedDraft = mergeDraft(userId, {
+      controlNet: {
+        ...draft.controlNet,
+        strength: parsed.data.strength,
+        startPercent: parsed.data.startPercent / 100,
+        endPercent: parsed.data.endPercent / 100,
+      },
+    });
+    const controlNetOptions = await fetchOptions();
+    const controlNetPayload = {
+      embeds: [buildControlNetEmbed(updatedDraft)],
+      components: buildControlNetComponents(updatedDraft, controlNetOptions),
+    };
+    if (interaction.isFromMessage()) {
+      await interaction.update(controlNetPayload);
+    } else {
+      await interaction.reply({ ...controlNetPayload, ephemeral: true });
+    }
+    return;
+  }
+
+  // ---------------------------------------------------------------------------
+  // 14. Upscale form (selects, denoise modal and the Upscale button)
+  // ---------------------------------------------------------------------------
+  if (
+    (interaction.isStringSelectMenu() || interaction.isButton() || interaction.isModalSubmit()) &&
+    interaction.customId.startsWith(UPSCALE_CUSTOM_ID.PREFIX)
+  ) {
+    const userId = interaction.user.id;
+    const draft = getUpscaleDraft(userId);
+    if (!draft) {
+      await interaction.reply({ content: "Your session has expired. Open the upscale form again.", ephemeral: true });
+      return;
+    }
+
+    if (interaction.isStringSelectMenu()) {
+      const value = interaction.values[0];
+      let partial: Partial<UpscaleDraft> = {};
+      if (interaction.customId === UPSCALE_CUSTOM_ID.SELECT_MODEL) partial = { upscaleModel: value };
+      else if (interaction.customId === UPSCALE_CUSTOM_ID.SELECT_MODE) partial = { workflow: value };
+      else if (interaction.customId === UPSCALE_CUSTOM_ID.SELECT_SCALE) partial = { scale: Number(value) };
+      else if (interaction.customId === UPSCALE_CUSTOM_ID.SELECT_TILE) {
+        partial = { tileSize: value === TILE_AUTO_VALUE ? null : Number(value) };
+      }
+      const updated = mergeUpscaleDraft(userId, partial);
+      await interaction.update({ embeds: [buildUpscaleEmbed(updated)], components: buildUpscaleComponents(updated) });
+      return;
+    }
+
+    if (interaction.isButton() && interaction.customId === UPSCALE_CUSTOM_ID.BTN_DENOISE) {
+      await interaction.showModal(buildUpscaleDenoiseModal(draft));
+      return;
+    }
+
+    if (interaction.isModalSubmit() && interaction.customId === UPSCALE_CUSTOM_ID.MODAL_DENOISE) {
+      const parsed = UpscaleDenoiseSchema.safeParse(
+        interaction.fields.getTextInputValue(UPSCALE_CUSTOM_ID.MODAL_FIELD_DENOISE),
+      );
+      if (!parsed.success) {
+        await interaction.reply({ content: `Please fix the following error: ${parsed.error.issues[0].message}`, ephemeral: true });
+        return;
+      }
+      const updated = mergeUpscaleDraft(userId, { denoise: parsed.data });
+      const upscalePayload = { embeds: [buildUpscaleEmbed(updated)], components: buildUpscaleComponents(updated) };
+      if (interaction.isFromMessage()) {
+        await interaction.update(upscalePayload);
+      } else {
+        await interaction.reply({ ...upscalePayload, ephemeral: true });
+      }
+      return;
+    }
+
+    if (interaction.isButton() && interaction.customId === UPSCALE_CUSTOM_ID.BTN_SUBMIT) {
+      // Re-check everything: the source, backend, queue and quota may have changed while the form was open
+      const source = draft.image
+        ? await messageImageUpscaleSource(interaction, draft.image)
+        : await upscaleSource(interaction, draft.sourceJobId!, draft.imageIndex);
+      if (!source) return;
+
+      const workflow = getWorkflow(draft.workflow, "upscale");
+      if (!workflow) {
+        await interaction.reply({ content: "That upscale mode is no longer available. Please pick another.", ephemeral: true });
+        return;
+      }
+
+      const capMsg = queueCapMessage(userId);
+      if (capMsg) {
+        await interaction.reply({ content: capMsg, ephemeral: true });
+        return;
+      }
+
+      const roleIds = memberRoleIds(interaction);
+      const quota = checkQuota(userId, roleIds, 0);
+      if (!quota.ok) {
+        await interaction.reply({ content: `⛔ ${quota.reason}`, ephemeral: true });
+        return;
+      }
+
+      if (!interaction.guildId) {
+        await interaction.reply({ content: "This command can only be used in a server.", ephemeral: true });
+        return;
+      }
+
+      // Defer — the image fetch + upload may take a few seconds
+      await interaction.deferUpdate();
+
+      try {
+        const upscaleJobId = uuidv4();
+        insertUpscaleJob(upscaleJobId, {
+          userId,
+          guildId: interaction.guildId,
+          ...source.row,
+          sourceImageFilename: await source.upload(),
+          ...upscaleJobOptions(draft),
+          backendUrl: source.backend.url,
+        });
+        chargeQuota(userId, upscaleJobId, "upscale", 0);
+
+        const weight = userWeight(roleIds);
+        const position = nextQueuePosition(userId, weight);
+        const eta = formatEta(estimateNewJobEta(position, { type: "upscale" }));
+        const mode = `${workflow.manifest.label}, ${draft.scale}×`;
+        const queuedMsg =
+          position === 1
+            ? `⏳ Queued for upscaling (${mode}) — you're next! Estimated finish in ${eta}. I'll update this message as it runs.`
+            : `⏳ Queued for upscaling (${mode}) — position **${position}** in the queue, estimated finish in ${eta}.`;
+
+        const quotaLine = formatRemaining(quota.remaining);
+        await interaction.editReply({
+          content: quotaLine ? `${queuedMsg}\n${quotaLine}` : queuedMsg,
+          embeds: [],
+          components: [buildCancelRow(upscaleJobId)],
+        });
+        enqueueUpscale(upscaleJobId, userId, interaction.webhook, weight);
+        deleteUpscaleDraft(userId);
+
+        logger.info(
+          { upscaleJobId, sourceJobId: draft.sourceJobId, imageIndex: draft.imageIndex, userId, workflow: draft.workflow, scale: draft.scale },
+          "Upscale job submitted",
+        );
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        logger.error({ sourceJobId: draft.sourceJobId, err: msg }, "Failed to initiate upscale");
+        await interaction.editReply({ content: `❌ Failed to start upscale: ${msg}`, embeds: [], components: [] });
+      }
+      return;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Upscale helpers
+// ---------------------------------------------------------------------------
+
+/** Where an upscale job's image comes from, once it has been checked. */
+interface UpscaleSource {
+  /** The backend the job is pinned to. */
+  backend: ComfyBackend;
+  /** Upload the image to `backend`; resolves to the filename its image loader reads. */
+  upload: () => Promise<string>;
+  /** What the upscale job row takes from the source. */
+  row: Pick<
+    UpscaleJobParams,
+    "channelId" | "sourceJobId" | "sourceImageIndex" | "model" | "positivePrompt" | "negativePrompt" | "sourceSize"
+  >;
+}
+
+/**
+ * Validate that the user may upscale image `imageIndex` of job `jobId` now, and
+ * find the backend holding it. Replies with the reason and returns null if not.
+ */
+async function upscaleSource(
+  interaction: ButtonInteraction,
+  jobId: string,
+  imageIndex: number,
+): Promise<UpscaleSource | null> {
+  if (!config.upscale.enabled) {
+    await interaction.reply({ content: "Upscaling is currently disabled.", ephemeral: true });
+    return null;
+  }
+
+  let job;
+  try {
+    job = getJobOrThrow(jobId);
+  } catch {
+    await interaction.reply({ content: "Could not find the job for this image.", ephemeral: true });
+    return null;
+  }
+
+  if (interaction.user.id !== job.userId) {
+    await interaction.reply({
+      content: `Only <@${job.userId}> can upscale this image.`,
+      ephemeral: true,
+    });
+    return null;
+  }
+
+  if (job.status !== "completed" || !job.outputImages || !job.outputImages[imageIndex]) {
+    await interaction.reply({
+      content: "This image is not available for upscaling yet.",
+      ephemeral: true,
+    });
+    return null;
+  }
+
+  const maintenance = maintenanceReply(job.userId);
+  if (maintenance) {
+    await interaction.reply({ content: maintenance, ephemeral: true });
+    return null;
+  }
+
+  // The source image only exists on the backend that generated it, so the
+  // upscale is uploaded to and pinned on that same backend.
+  const backend = backendForJob(job.backendUrl);
+  if (!backend?.healthy) {
+    await interaction.reply({
+      content: "The ComfyUI server that generated this image is offline right now. Please try again later.",
+      ephemeral: true,
+    });
+    return null;
+  }
+
+  const sourceFilename = job.outputImages[imageIndex];
+  return {
+    backend,
+    upload: async () => {
+      // Fetch the finished image from ComfyUI output folder, then upload it to
+      // /upload/image so the workflow's image loader can read it
+      const imageBuffer = await backend.client.getOutputImage(job.comfyPromptId!, sourceFilename);
+      return (await backend.client.uploadImage(imageBuffer, sourceFilename)).name;
+    },
+    row: {
+      channelId: job.channelId,
+      sourceJobId: job.id,
+      sourceImageIndex: imageIndex,
+      model: job.model,
+      positivePrompt: job.positivePrompt,
+      negativePrompt: job.negativePrompt,
+      sourceSize: job.size,
+    },
+  };
+}
+
+/**
+ * As upscaleSource, for an image attached to a message: re-checks what may have
+ * changed since the context-menu command opened the form.
+ */
+async function messageImageUpscaleSource(
+  interaction: ButtonInteraction,
+  image: UpscaleImage,
+): Promise<UpscaleSource | null> {
+  if (!config.upscale.enabled) {
+    await interaction.reply({ content: "Upscaling is currently disabled.", ephemeral: true });
+    return null;
+  }
+
+  const maintenance = maintenanceReply(interaction.user.id);
+  if (maintenance) {
+    await interaction.reply({ content: maintenance, ephemeral: true });
+    return null;
+  }
+
+  const backend = backendForJob(image.backendUrl);
+  if (!backend?.healthy) {
+    await interaction.reply({
+      content: "The ComfyUI server picked for this image went offline. Please run **Upscale with ComfyGen** again.",
+      ephemeral: true,
+    });
+    return null;
+  }
+
+  return {
+    backend,
+    upload: async () => (await uploadAttachment(image, backend, "upscale")).filename,
+    row: {
+      channelId: image.channelId,
+      sourceJobId: null,
+      sourceImageIndex: 0,
+      model: image.model,
+      positivePrompt: "",
+      negativePrompt: "",
+      sourceSize: image.size,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Queue helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * The least-loaded backend that can run the job, for the images attached to
+ * /gen; the job is pinned there. Error messages are safe to show in Discord.
+ */
+async function backendForAttachments(params: JobParams): Promise<ComfyBackend> {
+  const loras = params.loras.filter((l): l is LoraParam => l !== null).map((l) => l.name);
+  const backend = await backendForSourceImage(params.model, loras, params.controlNet?.model ?? null);
+  if (!backend) throw new Error("no online ComfyUI server has this job's models and LoRAs installed.");
+  return backend;
+}
+
+/** Download an image attached to /gen (or a message) and upload it to `backend` as `<prefix>_<uuid>.<ext>`. */
+async function uploadAttachment(attachment: SourceAttachment, backend: ComfyBackend, prefix: string): Promise<SourceImage> {
+  const extension = attachment.name.match(/\.(png|jpe?g|webp)$/i)?.[1].toLowerCase() ?? "png";
+  const { name } = await backend.client.uploadImage(await downloadAttachment(attachment), `${prefix}_${uuidv4()}.${extension}`);
+  return { filename: name, backendUrl: backend.url };
+}
+
+/** Rejection text when `userId` is at the per-user queue cap, or null if they may queue another job. */
+function queueCapMessage(userId: string): string | null {
+  const max = config.queue.maxPerUser;
+  if (max === 0 || queuedJobsForUser(userId) < max) return null;
+  return `⏳ You already have **${max}** job${max === 1 ? "" : "s"} waiting in the queue. Please wait for one to start before adding another.`;
 }
@@ -1,6 +1,15 @@
-import type { Client } from "discord.js";
+import { ActivityType, type Client, type PresenceStatusData } from "discord.js";
 import { logger } from "../../logger.js";
 import { config } from "../../config.js";
+import {
+  getBackends,
+  poolState,
+  onBackendHealthChange,
+  type ComfyBackend,
+  type PoolState,
+} from "../../comfy/backendPool.js";
+import { onWorkflowReload, type WorkflowReload } from "../../comfy/workflowManifest.js";
+import { queueLength } from "../../queue/jobQueue.js";
 
 export function onReady(client: Client): void {
   logger.info(
@@ -10,4 +19,100 @@ export function onReady(client: Client): void {
     },
     "Bot ready",
   );
+
+  let lastState = poolState();
+  setComfyPresence(client, lastState);
+
+  onBackendHealthChange((backend, healthy) => {
+    const previous = lastState;
+    lastState = poolState();
+    setComfyPresence(client, lastState);
+    void notifyOwner(client, backend, healthy, lastState, previous);
+  });
+
+  onWorkflowReload((reload) => {
+    if (reload.rejected.length > 0) void notifyOwnerOfRejectedWorkflows(client, reload);
+  });
+}
+
+/** DM the bot owner; failures are logged, never thrown. */
+async function dmOwner(client: Client, content: string): Promise<void> {
+  try {
+    const owner = await client.users.fetch(config.ownerId);
+    await owner.send(content);
+  } catch (err) {
+    logger.warn({ err }, "Could not DM the bot owner");
+  }
+}
+
+// ---------------------------------------------------------------------------
+// ComfyUI health reporting
+// ---------------------------------------------------------------------------
+
+const PRESENCE: Record<PoolState, { status: PresenceStatusData; text: string }> = {
+  online: { status: "online", text: "🟢 ComfyUI online" },
+  degraded: { status: "idle", text: "🟡 ComfyUI degraded" },
+  offline: { status: "dnd", text: "🔴 ComfyUI offline — jobs paused" },
+};
+
+function setComfyPresence(client: Client, state: PoolState): void {
+  const { status, text } = PRESENCE[state];
+  const healthy = getBackends().filter((b) => b.healthy).length;
+  const total = getBackends().length;
+  client.user?.setPresence({
+    status,
+    activities: [
+      {
+        type: ActivityType.Custom,
+        name: "custom",
+        state: state === "degraded" ? `${text} (${healthy}/${total} up)` : text,
+      },
+    ],
+  });
+}
+
+function formatGb(bytes: number): string {
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+}
+
+/** DM the bot owner when a backend goes down or comes back. */
+async function notifyOwner(
+  client: Client,
+  backend: ComfyBackend,
+  healthy: boolean,
+  state: PoolState,
+  previous: PoolState,
+): Promise<void> {
+  const lines = healthy
+    ? [`🟢 ComfyUI backend **${backend.url}** is back online.`]
+    : [`🔴 ComfyUI backend **${backend.url}** is unreachable.`];
+  if (healthy && backend.stats) {
+    const { vramFree, vramTotal, queueDepth } = backend.stats;
+    lines.push(`VRAM free: ${formatGb(vramFree)} / ${formatGb(vramTotal)} · ComfyUI queue: ${queueDepth}`);
+  }
+  if (state === "offline") {
+    lines.push(`No backend is reachable — the runner is paused with **${queueLength()}** job(s) waiting.`);
+  } else if (previous === "offline") {
+    lines.push("The runner has resumed.");
+  }
+
+  await dmOwner(client, lines.join("\n"));
+}
+
+// ---------------------------------------------------------------------------
+// Workflow reload reporting
+// ---------------------------------------------------------------------------
+
+/** Problems listed in one DM; Discord caps messages at 2000 characters. */
+const MAX_REPORTED_PROBLEMS = 15;
+
+/** DM the bot owner why edited workflow files were not loaded. */
+async function notifyOwnerOfRejectedWorkflows(client: Client, reload: WorkflowReload): Promise<void> {
+  const lines = ["⚠️ Workflow files changed, but some failed validation — the previously loaded version (if any) stays live:"];
+  lines.push(...reload.rejected.slice(0, MAX_REPORTED_PROBLEMS).map((p) => `• ${p.slice(0, 110)}`));
+  if (reload.rejected.length > MAX_REPORTED_PROBLEMS) {
+    lines.push(`…and ${reload.rejected.length - MAX_REPORTED_PROBLEMS} more — see the bot log.`);
+  }
+  if (reload.changed.length > 0) lines.push(`Reloaded: ${reload.changed.join(", ")}`);
+  await dmOwner(client, lines.join("\n"));
 }
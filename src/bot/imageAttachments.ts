@@ -0,0 +1,28 @@
+import type { Attachment } from "discord.js";
+
+/** Image types ComfyUI's LoadImage reads. */
+export const IMAGE_CONTENT_TYPES = ["image/png", "image/jpeg", "image/webp"];
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/** Whether an attachment is an image type ComfyUI can load, regardless of its size. */
+export function isImageAttachment(attachment: Pick<Attachment, "contentType">): boolean {
+  return IMAGE_CONTENT_TYPES.includes(attachment.contentType ?? "");
+}
+
+/**
+ * Reason an attachment cannot be used as an input image, or null if it can.
+ * `what` names it in the reply, e.g. "mask".
+ */
+export function checkImageAttachment(attachment: Pick<Attachment, "contentType" | "size">, what: string): string | null {
+  if (!isImageAttachment(attachment) || attachment.size > MAX_IMAGE_BYTES) {
+    return `The ${what} must be a PNG, JPEG or WebP file of at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`;
+  }
+  return null;
+}
+
+/** Download an attachment from Discord's CDN. */
+export async function downloadAttachment(attachment: { url: string; name: string }): Promise<Buffer> {
+  const resp = await fetch(attachment.url, { signal: AbortSignal.timeout(15_000) });
+  if (!resp.ok) throw new Error(`Discord returned HTTP ${resp.status} for ${attachment.name}.`);
+  return Buffer.from(await resp.arrayBuffer());
+}
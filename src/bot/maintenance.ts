@@ -0,0 +1,12 @@
+import { getMaintenanceMessage } from "../db/admin.js";
+import { config } from "../config.js";
+
+/**
+ * Reply for a new generation request while maintenance mode is on, or null to
+ * let it through. The bot owner is never blocked, so they can test fixes.
+ */
+export function maintenanceReply(userId: string): string | null {
+  if (userId === config.ownerId) return null;
+  const message = getMaintenanceMessage();
+  return message === null ? null : `🛠️ ${message}`;
+}
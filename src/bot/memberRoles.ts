@@ -0,0 +1,13 @@
+import type { Interaction } from "discord.js";
+
+/**
+ * Role IDs of the interacting guild member — empty outside a guild. The
+ * @everyone role (whose ID is the guild ID) is always included in a guild so
+ * it can carry server-wide defaults such as the base quota tier.
+ */
+export function memberRoleIds(interaction: Interaction): string[] {
+  if (!interaction.guildId) return [];
+  const roles = interaction.member?.roles;
+  const ids = !roles ? [] : Array.isArray(roles) ? roles : [...roles.cache.keys()];
+  return ids.includes(interaction.guildId) ? ids : [...ids, interaction.guildId];
+}
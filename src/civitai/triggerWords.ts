@@ -1,5 +1,5 @@
 import { fetchLoraMetadata } from "./client.js";
-import { comfyClient } from "../comfy/client.js";
+import { primaryClient } from "../comfy/backendPool.js";
 
 interface CacheEntry {
   triggerWords: string[];
@@ -26,7 +26,7 @@ export async function getTriggerWords(
   }
 
   // --- 1. LoRA Manager plugin (local, fast, zero extra config) ---
-  const lmResult = await comfyClient.getLoraManagerTriggerWords(filename);
+  const lmResult = await primaryClient().getLoraManagerTriggerWords(filename);
   if (lmResult !== null && lmResult.length > 0) {
     // Plugin returned actual trigger words — definitive, cache and skip CivitAI.
     _cache.set(filename, { triggerWords: lmResult, cachedAt: Date.now() });
@@ -0,0 +1,133 @@
+import { createComfyClient, type ComfyClient } from "./client.js";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ComfyBackend {
+  /** Base URL — also the stable identifier persisted on job rows. */
+  url: string;
+  client: ComfyClient;
+  /** Maximum number of jobs the runner may have in flight on this backend. */
+  concurrency: number;
+  /** Jobs currently dispatched to this backend. */
+  active: number;
+  /** Result of the most recent ping(). */
+  healthy: boolean;
+  /** Load reported at the last successful health check; null while down or unknown. */
+  stats: BackendStats | null;
+}
+
+export interface BackendStats {
+  vramTotal: number; // bytes
+  vramFree: number;  // bytes
+  /** Prompts running or pending in ComfyUI's own queue, from any client. */
+  queueDepth: number;
+}
+
+export type BackendHealthListener = (backend: ComfyBackend, healthy: boolean) => void;
+
+/** Pool-wide availability: every backend up, some up, or none. */
+export type PoolState = "online" | "degraded" | "offline";
+
+// ---------------------------------------------------------------------------
+// Pool state
+// ---------------------------------------------------------------------------
+
+const _backends: ComfyBackend[] = config.comfy.backends.map((b) => ({
+  url: b.url,
+  client: createComfyClient(b.url),
+  concurrency: b.concurrency,
+  active: 0,
+  healthy: false,
+  stats: null,
+}));
+
+const _healthListeners: BackendHealthListener[] = [];
+let _healthTimer: NodeJS.Timeout | null = null;
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+export function getBackends(): readonly ComfyBackend[] {
+  return _backends;
+}
+
+export function getBackend(url: string): ComfyBackend | undefined {
+  return _backends.find((b) => b.url === url);
+}
+
+/**
+ * Backend for a job row's `backend_url`. Rows written before the pool existed
+ * have no URL and belong to the first configured backend.
+ */
+export function backendForJob(backendUrl: string | null): ComfyBackend | undefined {
+  return backendUrl ? getBackend(backendUrl) : _backends[0];
+}
+
+/**
+ * Client for requests not tied to a particular job (LoRA metadata, trigger words).
+ * Prefers the first healthy backend, falling back to the first configured one.
+ */
+export function primaryClient(): ComfyClient {
+  return (_backends.find((b) => b.healthy) ?? _backends[0]).client;
+}
+
+export function hasFreeSlot(backend: ComfyBackend): boolean {
+  return backend.healthy && backend.active < backend.concurrency;
+}
+
+export function poolState(): PoolState {
+  const healthy = _backends.filter((b) => b.healthy).length;
+  if (healthy === 0) return "offline";
+  return healthy === _backends.length ? "online" : "degraded";
+}
+
+// ---------------------------------------------------------------------------
+// Health
+// ---------------------------------------------------------------------------
+
+export function onBackendHealthChange(listener: BackendHealthListener): void {
+  _healthListeners.push(listener);
+}
+
+/** VRAM from `/system_stats` and depth from `/queue`; null if either request fails. */
+async function fetchStats(backend: ComfyBackend): Promise<BackendStats | null> {
+  try {
+    const [system, queue] = await Promise.all([backend.client.getSystemStats(), backend.client.getQueue()]);
+    return { ...system, queueDepth: queue.running.length + queue.pending.length };
+  } catch (err) {
+    logger.debug({ url: backend.url, err }, "Could not read ComfyUI backend stats");
+    return null;
+  }
+}
+
+/** Ping one backend and record the result, notifying listeners on a state change. */
+export async function refreshBackendHealth(backend: ComfyBackend): Promise<boolean> {
+  const healthy = await backend.client.ping();
+  backend.stats = healthy ? await fetchStats(backend) : null;
+  if (healthy !== backend.healthy) {
+    backend.healthy = healthy;
+    logger[healthy ? "info" : "warn"]({ url: backend.url }, healthy ? "ComfyUI backend is up" : "ComfyUI backend is down");
+    for (const listener of _healthListeners) listener(backend, healthy);
+  }
+  return healthy;
+}
+
+/** Ping every backend in parallel. Resolves to the number of healthy backends. */
+export async function refreshAllBackendHealth(): Promise<number> {
+  const results = await Promise.all(_backends.map(refreshBackendHealth));
+  return results.filter(Boolean).length;
+}
+
+export function startBackendHealthChecks(): void {
+  if (_healthTimer) return;
+  _healthTimer = setInterval(() => void refreshAllBackendHealth(), config.comfy.healthIntervalMs);
+  logger.info(
+    { backends: _backends.length, intervalMs: config.comfy.healthIntervalMs },
+    "Backend health checks started",
+  );
+}
@@ -1,22 +1,72 @@
-import { request, FormData } from "undici";
+import { request, FormData, WebSocket } from "undici";
 import { Blob } from "node:buffer";
-import { config } from "../config.js";
+import { v4 as uuidv4 } from "uuid";
+import { ComfyHttpError, parsePromptRejection, formatTraceback } from "./errors.js";
 import { logger } from "../logger.js";
 
+/** Prompt IDs currently in the ComfyUI queue, from `GET /queue`. */
+export interface ComfyQueueState {
+  running: string[];
+  pending: string[];
+}
+
+/** Summary of `GET /system_stats`, with VRAM summed over all GPU devices. */
+export interface ComfySystemStats {
+  vramTotal: number; // bytes
+  vramFree: number;  // bytes
+}
+
 export interface ComfyHistoryEntry {
-  status: { completed: boolean; status_str: string };
+  status: {
+    completed: boolean;
+    status_str: string;
+    /** Execution log, e.g. ["execution_error", { node_id, node_type, exception_message, traceback }]. */
+    messages?: Array<[string, Record<string, unknown>]>;
+  };
   outputs: Record<
     string,
     { images?: Array<{ filename: string; subfolder: string; type: string }> }
   >;
 }
 
+/** Execution events received over the ComfyUI `/ws` socket, narrowed to one prompt. */
+export type ComfyExecutionEvent =
+  | { type: "executing"; promptId: string; node: string | null } // node null = prompt finished
+  | { type: "progress"; promptId: string; node: string | null; value: number; max: number }
+  | {
+      type: "execution_error";
+      promptId: string;
+      nodeId: string;
+      nodeType: string;
+      message: string;
+      /** Exception type and traceback, for the log. */
+      detail?: string;
+    }
+  | { type: "execution_interrupted"; promptId: string }
+  | { type: "execution_success"; promptId: string };
+
+export type ComfyExecutionListener = (event: ComfyExecutionEvent) => void;
+
 export interface ComfyClient {
+  /** Base URL of the ComfyUI instance this client talks to (no trailing slash). */
+  readonly baseUrl: string;
   ping(): Promise<boolean>;
+  getSystemStats(): Promise<ComfySystemStats>;
   getObjectInfo(): Promise<Record<string, unknown>>;
   submitPrompt(workflow: Record<string, unknown>): Promise<{ promptId: string }>;
+  /** Null when ComfyUI has no history entry for the prompt; HTTP and network errors throw. */
   getHistory(promptId: string): Promise<ComfyHistoryEntry | null>;
+  getQueue(): Promise<ComfyQueueState>;
+  /** Remove prompts that have not started yet from the ComfyUI queue. */
+  deleteFromQueue(promptIds: string[]): Promise<void>;
+  /**
+   * Interrupt the prompt ComfyUI is executing. Newer ComfyUI builds only interrupt
+   * if `promptId` is the one running; older ones ignore it and interrupt whatever is.
+   */
+  interrupt(promptId?: string): Promise<void>;
   getImage(filename: string, subfolder: string, type: string): Promise<Buffer>;
+  /** An image a finished prompt saved, located through the prompt's history. */
+  getOutputImage(promptId: string, filename: string): Promise<Buffer>;
   uploadImage(buffer: Buffer, filename: string): Promise<{ name: string; subfolder: string; type: string }>;
   /**
    * Read the safetensors metadata header for a LoRA file and return the embedded
@@ -31,150 +81,326 @@ export interface ComfyClient {
    * caller can fall through to an alternative source.
    */
   getLoraManagerTriggerWords(filename: string): Promise<string[] | null>;
+  /**
+   * Subscribe to WebSocket execution events for a single prompt. Opens this
+   * backend's `/ws` connection on first use. Returns an unsubscribe function.
+   */
+  watchPrompt(promptId: string, listener: ComfyExecutionListener): () => void;
+  /** True while the `/ws` connection is open. Callers should poll `/history` otherwise. */
+  isSocketConnected(): boolean;
 }
 
-function base(): string {
-  return config.comfy.baseUrl;
-}
+// ---------------------------------------------------------------------------
+// WebSocket (/ws) message parsing
+// ---------------------------------------------------------------------------
 
-async function jsonGet<T>(path: string): Promise<T> {
-  const { statusCode, body } = await request(`${base()}${path}`, { method: "GET" });
-  if (statusCode < 200 || statusCode >= 300) {
-    throw new Error(`ComfyUI GET ${path} returned HTTP ${statusCode}`);
+const RECONNECT_DELAY_MS = 5_000;
+
+/** Parse one `/ws` text frame into an execution event, or null if it is not one we track. */
+function parseSocketMessage(raw: string): ComfyExecutionEvent | null {
+  let msg: { type?: string; data?: Record<string, unknown> };
+  try {
+    msg = JSON.parse(raw) as typeof msg;
+  } catch {
+    return null;
+  }
+  const data = msg.data ?? {};
+  const promptId = typeof data.prompt_id === "string" ? data.prompt_id : null;
+  if (!promptId) return null;
+
+  switch (msg.type) {
+    case "executing":
+      return { type: "executing", promptId, node: (data.node as string | null) ?? null };
+    case "progress":
+      return {
+        type: "progress",
+        promptId,
+        node: (data.node as string | null) ?? null,
+        value: Number(data.value),
+        max: Number(data.max),
+      };
+    case "execution_error":
+      return {
+        type: "execution_error",
+        promptId,
+        nodeId: String(data.node_id ?? "?"),
+        nodeType: String(data.node_type ?? "unknown node"),
+        message: String(data.exception_message ?? "unknown error").trim(),
+        detail: formatTraceback(data.exception_type, data.traceback),
+      };
+    case "execution_interrupted":
+      return { type: "execution_interrupted", promptId };
+    case "execution_success":
+      return { type: "execution_success", promptId };
+    default:
+      return null;
   }
-  return body.json() as Promise<T>;
 }
 
-export const comfyClient: ComfyClient = {
-  async ping(): Promise<boolean> {
-    try {
-      const { statusCode } = await request(`${base()}/system_stats`, {
-        method: "GET",
-        headersTimeout: 5_000,
-        bodyTimeout: 5_000,
-      });
-      return statusCode === 200;
-    } catch {
-      return false;
-    }
-  },
+// ---------------------------------------------------------------------------
+// Factory — one client per ComfyUI backend
+// ---------------------------------------------------------------------------
 
-  async getObjectInfo(): Promise<Record<string, unknown>> {
-    return jsonGet<Record<string, unknown>>("/object_info");
-  },
+/** Create a client bound to a single ComfyUI instance. `baseUrl` must not end with a slash. */
+export function createComfyClient(baseUrl: string): ComfyClient {
+  async function jsonGet<T>(path: string): Promise<T> {
+    const { statusCode, body } = await request(`${baseUrl}${path}`, { method: "GET" });
+    if (statusCode < 200 || statusCode >= 300) {
+      throw new ComfyHttpError("GET", path, statusCode);
+    }
+    return body.json() as Promise<T>;
+  }
 
-  async submitPrompt(workflow: Record<string, unknown>): Promise<{ promptId: string }> {
-    const body = JSON.stringify({ prompt: workflow });
-    const { statusCode, body: resBody } = await request(`${base()}/prompt`, {
+  async function jsonPost(path: string, payload: unknown): Promise<void> {
+    const { statusCode, body } = await request(`${baseUrl}${path}`, {
       method: "POST",
       headers: { "content-type": "application/json" },
-      body,
+      body: JSON.stringify(payload),
     });
+    await body.dump();
     if (statusCode < 200 || statusCode >= 300) {
-      const text = await resBody.text();
-      throw new Error(`ComfyUI POST /prompt returned HTTP ${statusCode}: ${text}`);
+      throw new ComfyHttpError("POST", path, statusCode);
+    }
+  }
+
+  // --- WebSocket state: sent with every /prompt so ComfyUI routes events to our socket ---
+  const clientId = uuidv4();
+  let socket: WebSocket | null = null;
+  let socketOpen = false;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  const watchers = new Map<string, Set<ComfyExecutionListener>>();
+
+  function ensureSocket(): void {
+    if (socket || reconnectTimer) return;
+
+    const url = `${baseUrl.replace(/^http/, "ws")}/ws?clientId=${clientId}`;
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.addEventListener("open", () => {
+      socketOpen = true;
+      logger.info({ url }, "ComfyUI WebSocket connected");
+    });
+    ws.addEventListener("message", (ev) => {
+      // Binary frames are live preview images — not used
+      if (typeof ev.data === "string") dispatchSocketMessage(ev.data);
+    });
+    ws.addEventListener("error", () => {
+      // A "close" event always follows; reconnect is handled there
+    });
+    ws.addEventListener("close", () => {
+      if (socketOpen) logger.warn({ url }, "ComfyUI WebSocket closed — falling back to polling");
+      socket = null;
+      socketOpen = false;
+      // Only reconnect while someone is waiting on a prompt; otherwise reconnect lazily
+      if (watchers.size > 0) {
+        reconnectTimer = setTimeout(() => {
+          reconnectTimer = null;
+          if (watchers.size > 0) ensureSocket();
+        }, RECONNECT_DELAY_MS);
+      }
+    });
+  }
+
+  function dispatchSocketMessage(raw: string): void {
+    const event = parseSocketMessage(raw);
+    if (!event) return;
+    const listeners = watchers.get(event.promptId);
+    if (!listeners) return;
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        logger.error({ promptId: event.promptId, err }, "ComfyUI execution listener threw");
+      }
     }
-    const json = (await resBody.json()) as { prompt_id: string };
-    logger.debug({ promptId: json.prompt_id }, "ComfyUI prompt submitted");
-    return { promptId: json.prompt_id };
-  },
+  }
 
-  async getHistory(promptId: string): Promise<ComfyHistoryEntry | null> {
-    try {
+  return {
+    baseUrl,
+
+    async ping(): Promise<boolean> {
+      try {
+        const { statusCode } = await request(`${baseUrl}/system_stats`, {
+          method: "GET",
+          headersTimeout: 5_000,
+          bodyTimeout: 5_000,
+        });
+        return statusCode === 200;
+      } catch {
+        return false;
+      }
+    },
+
+    async getSystemStats(): Promise<ComfySystemStats> {
+      const data = await jsonGet<{ devices?: Array<{ vram_total?: number; vram_free?: number }> }>("/system_stats");
+      const devices = data.devices ?? [];
+      return {
+        vramTotal: devices.reduce((sum, d) => sum + (d.vram_total ?? 0), 0),
+        vramFree: devices.reduce((sum, d) => sum + (d.vram_free ?? 0), 0),
+      };
+    },
+
+    async getObjectInfo(): Promise<Record<string, unknown>> {
+      return jsonGet<Record<string, unknown>>("/object_info");
+    },
+
+    async submitPrompt(workflow: Record<string, unknown>): Promise<{ promptId: string }> {
+      const body = JSON.stringify({ prompt: workflow, client_id: clientId });
+      const { statusCode, body: resBody } = await request(`${baseUrl}/prompt`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body,
+      });
+      if (statusCode < 200 || statusCode >= 300) {
+        const text = await resBody.text();
+        throw parsePromptRejection(statusCode, text) ?? new ComfyHttpError("POST", "/prompt", statusCode, text);
+      }
+      const json = (await resBody.json()) as { prompt_id: string };
+      logger.debug({ promptId: json.prompt_id }, "ComfyUI prompt submitted");
+      return { promptId: json.prompt_id };
+    },
+
+    async getHistory(promptId: string): Promise<ComfyHistoryEntry | null> {
       const data = await jsonGet<Record<string, unknown>>(`/history/${promptId}`);
       const entry = data[promptId] as ComfyHistoryEntry | undefined;
       return entry ?? null;
-    } catch {
-      return null;
-    }
-  },
+    },
 
-  async getImage(filename: string, subfolder: string, type: string): Promise<Buffer> {
-    const url = `${base()}/view?filename=${encodeURIComponent(filename)}&subfolder=${encodeURIComponent(subfolder)}&type=${encodeURIComponent(type)}`;
-    const { statusCode, body } = await request(url);
-    if (statusCode !== 200) {
-      throw new Error(`ComfyUI image fetch returned HTTP ${statusCode} for ${filename}`);
-    }
-    const bytes = await body.arrayBuffer();
-    return Buffer.from(bytes);
-  },
+    async getQueue(): Promise<ComfyQueueState> {
+      // Each queue item is [number, prompt_id, prompt, extra_data, outputs_to_execute]
+      type QueueItem = [number, string, ...unknown[]];
+      const data = await jsonGet<{ queue_running?: QueueItem[]; queue_pending?: QueueItem[] }>("/queue");
+      return {
+        running: (data.queue_running ?? []).map((item) => item[1]),
+        pending: (data.queue_pending ?? []).map((item) => item[1]),
+      };
+    },
 
-  async uploadImage(buffer: Buffer, filename: string): Promise<{ name: string; subfolder: string; type: string }> {
-    const formData = new FormData();
-    formData.append("image", new Blob([new Uint8Array(buffer)], { type: "image/png" }), filename);
-    formData.append("overwrite", "true");
+    async deleteFromQueue(promptIds: string[]): Promise<void> {
+      await jsonPost("/queue", { delete: promptIds });
+    },
 
-    const { statusCode, body: resBody } = await request(`${base()}/upload/image`, {
-      method: "POST",
-      body: formData,
-    });
-    if (statusCode < 200 || statusCode >= 300) {
-      const text = await resBody.text();
-      throw new Error(`ComfyUI POST /upload/image returned HTTP ${statusCode}: ${text}`);
-    }
-    const json = (await resBody.json()) as { name: string; subfolder: string; type: string };
-    logger.debug({ name: json.name }, "Image uploaded to ComfyUI input folder");
-    return { name: json.name, subfolder: json.subfolder, type: json.type };
-  },
-
-  async getLoraFileHash(filename: string): Promise<string | null> {
-    const url = `${base()}/view_metadata/loras?filename=${encodeURIComponent(filename)}`;
-    try {
-      const { statusCode, body } = await request(url,
-        { method: "GET", headersTimeout: 5_000, bodyTimeout: 10_000 },
-      );
+    async interrupt(promptId?: string): Promise<void> {
+      await jsonPost("/interrupt", promptId ? { prompt_id: promptId } : {});
+    },
+
+    async getImage(filename: string, subfolder: string, type: string): Promise<Buffer> {
+      const url = `${baseUrl}/view?filename=${encodeURIComponent(filename)}&subfolder=${encodeURIComponent(subfolder)}&type=${encodeURIComponent(type)}`;
+      const { statusCode, body } = await request(url);
       if (statusCode !== 200) {
-        logger.debug({ filename, statusCode }, "[lora-hash] /view_metadata/loras returned non-200");
-        return null;
-      }
-      const meta = await body.json() as Record<string, unknown>;
-      const keys = Object.keys(meta);
-      logger.debug({ filename, keys }, "[lora-hash] safetensors metadata keys");
-      // CivitAI's downloader embeds the SHA-256 in safetensors metadata under keys
-      // such as "modelspec.hash.sha256", "sshs_model_hash", or "sha256".
-      const sha256Key = keys.find((k) => k.toLowerCase().includes("sha256"));
-      if (sha256Key && typeof meta[sha256Key] === "string" && (meta[sha256Key] as string).length >= 8) {
-        logger.debug({ filename, sha256Key, hash: meta[sha256Key] }, "[lora-hash] found sha256 hash");
-        return meta[sha256Key] as string;
+        throw new ComfyHttpError("GET", `/view (${filename})`, statusCode);
       }
-      const hashKey = keys.find((k) => k.toLowerCase() === "sshs_model_hash");
-      if (hashKey && typeof meta[hashKey] === "string") {
-        logger.debug({ filename, hashKey, hash: meta[hashKey] }, "[lora-hash] found sshs_model_hash");
-        return meta[hashKey] as string;
+      const bytes = await body.arrayBuffer();
+      return Buffer.from(bytes);
+    },
+
+    async getOutputImage(promptId: string, filename: string): Promise<Buffer> {
+      const entry = await this.getHistory(promptId);
+      const image = Object.values(entry?.outputs ?? {})
+        .flatMap((out) => out.images ?? [])
+        .find((i) => i.filename === filename);
+      return this.getImage(filename, image?.subfolder ?? "", image?.type ?? "output");
+    },
+
+    async uploadImage(buffer: Buffer, filename: string): Promise<{ name: string; subfolder: string; type: string }> {
+      const formData = new FormData();
+      formData.append("image", new Blob([new Uint8Array(buffer)], { type: "image/png" }), filename);
+      formData.append("overwrite", "true");
+
+      const { statusCode, body: resBody } = await request(`${baseUrl}/upload/image`, {
+        method: "POST",
+        body: formData,
+      });
+      if (statusCode < 200 || statusCode >= 300) {
+        const text = await resBody.text();
+        throw new ComfyHttpError("POST", "/upload/image", statusCode, text);
       }
-      logger.debug({ filename }, "[lora-hash] no usable hash key found in metadata");
-      return null;
-    } catch (err) {
-      logger.debug({ filename, err }, "[lora-hash] exception fetching metadata");
-      return null;
-    }
-  },
-
-  async getLoraManagerTriggerWords(filename: string): Promise<string[] | null> {
-    // LoRA Manager stores file_name without extension — strip it before querying.
-    const stem = filename.replace(/\.[^.]+$/, "");
-    const url = `${base()}/api/lm/loras/get-trigger-words?name=${encodeURIComponent(stem)}`;
-    try {
-      const resp = await fetch(url, { signal: AbortSignal.timeout(5_000) });
-      if (!resp.ok) {
-        logger.debug({ filename, status: resp.status }, "[lora-manager] get-trigger-words non-200");
+      const json = (await resBody.json()) as { name: string; subfolder: string; type: string };
+      logger.debug({ name: json.name }, "Image uploaded to ComfyUI input folder");
+      return { name: json.name, subfolder: json.subfolder, type: json.type };
+    },
+
+    async getLoraFileHash(filename: string): Promise<string | null> {
+      const url = `${baseUrl}/view_metadata/loras?filename=${encodeURIComponent(filename)}`;
+      try {
+        const { statusCode, body } = await request(url,
+          { method: "GET", headersTimeout: 5_000, bodyTimeout: 10_000 },
+        );
+        if (statusCode !== 200) {
+          logger.debug({ filename, statusCode }, "[lora-hash] /view_metadata/loras returned non-200");
+          return null;
+        }
+        const meta = await body.json() as Record<string, unknown>;
+        const keys = Object.keys(meta);
+        logger.debug({ filename, keys }, "[lora-hash] safetensors metadata keys");
+        // CivitAI's downloader embeds the SHA-256 in safetensors metadata under keys
+        // such as "modelspec.hash.sha256", "sshs_model_hash", or "sha256".
+        const sha256Key = keys.find((k) => k.toLowerCase().includes("sha256"));
+        if (sha256Key && typeof meta[sha256Key] === "string" && (meta[sha256Key] as string).length >= 8) {
+          logger.debug({ filename, sha256Key, hash: meta[sha256Key] }, "[lora-hash] found sha256 hash");
+          return meta[sha256Key] as string;
+        }
+        const hashKey = keys.find((k) => k.toLowerCase() === "sshs_model_hash");
+        if (hashKey && typeof meta[hashKey] === "string") {
+          logger.debug({ filename, hashKey, hash: meta[hashKey] }, "[lora-hash] found sshs_model_hash");
+          return meta[hashKey] as string;
+        }
+        logger.debug({ filename }, "[lora-hash] no usable hash key found in metadata");
+        return null;
+      } catch (err) {
+        logger.debug({ filename, err }, "[lora-hash] exception fetching metadata");
         return null;
       }
-      const data = await resp.json() as { success?: boolean; trigger_words?: unknown[] };
-      if (data.success !== true) {
-        logger.debug({ filename }, "[lora-manager] get-trigger-words success=false");
+    },
+
+    async getLoraManagerTriggerWords(filename: string): Promise<string[] | null> {
+      // LoRA Manager stores file_name without extension — strip it before querying.
+      const stem = filename.replace(/\.[^.]+$/, "");
+      const url = `${baseUrl}/api/lm/loras/get-trigger-words?name=${encodeURIComponent(stem)}`;
+      try {
+        const resp = await fetch(url, { signal: AbortSignal.timeout(5_000) });
+        if (!resp.ok) {
+          logger.debug({ filename, status: resp.status }, "[lora-manager] get-trigger-words non-200");
+          return null;
+        }
+        const data = await resp.json() as { success?: boolean; trigger_words?: unknown[] };
+        if (data.success !== true) {
+          logger.debug({ filename }, "[lora-manager] get-trigger-words success=false");
+          return null;
+        }
+        // LoRA Manager may return comma-separated words as a single string element
+        // e.g. ["dynamic pose, foreshortening, extreme perspective"] → split and trim each.
+        const words = (data.trigger_words ?? [])
+          .filter((w): w is string => typeof w === "string")
+          .flatMap((w) => w.split(",").map((t) => t.trim()).filter(Boolean));
+        logger.debug({ filename, words }, "[lora-manager] trigger words returned");
+        return words;
+      } catch (err) {
+        logger.debug({ filename, err }, "[lora-manager] get-trigger-words failed (plugin absent?)");
         return null;
       }
-      // LoRA Manager may return comma-separated words as a single string element
-      // e.g. ["dynamic pose, foreshortening, extreme perspective"] → split and trim each.
-      const words = (data.trigger_words ?? [])
-        .filter((w): w is string => typeof w === "string")
-        .flatMap((w) => w.split(",").map((t) => t.trim()).filter(Boolean));
-      logger.debug({ filename, words }, "[lora-manager] trigger words returned");
-      return words;
-    } catch (err) {
-      logger.debug({ filename, err }, "[lora-manager] get-trigger-words failed (plugin absent?)");
-      return null;
-    }
-  },
-};
+    },
+
+    watchPrompt(promptId: string, listener: ComfyExecutionListener): () => void {
+      let listeners = watchers.get(promptId);
+      if (!listeners) {
+        listeners = new Set();
+        watchers.set(promptId, listeners);
+      }
+      listeners.add(listener);
+      ensureSocket();
+
+      return () => {
+        const set = watchers.get(promptId);
+        if (!set) return;
+        set.delete(listener);
+        if (set.size === 0) watchers.delete(promptId);
+      };
+    },
+
+    isSocketConnected(): boolean {
+      return socketOpen;
+    },
+  };
+}
@@ -0,0 +1,202 @@
+import type { ComfyHistoryEntry } from "./client.js";
+
+// ---------------------------------------------------------------------------
+// Error types
+// ---------------------------------------------------------------------------
+
+/** One node-level problem reported by ComfyUI. */
+export interface ComfyNodeError {
+  nodeId: string;
+  nodeType: string;
+  /** Short, user-presentable reason, e.g. `lora_name not found: foo.safetensors`. */
+  message: string;
+  /** Everything else ComfyUI said (validation details, exception type, traceback) — for the log only. */
+  detail?: string;
+}
+
+/**
+ * Non-2xx response from ComfyUI. `statusCode` lets callers tell a server-side
+ * hiccup (5xx from ComfyUI or a reverse proxy) from a rejected request (4xx).
+ */
+export class ComfyHttpError extends Error {
+  constructor(
+    readonly method: string,
+    readonly path: string,
+    readonly statusCode: number,
+    detail?: string,
+  ) {
+    super(`ComfyUI ${method} ${path} returned HTTP ${statusCode}${detail ? `: ${detail}` : ""}`);
+    this.name = "ComfyHttpError";
+  }
+}
+
+/** `POST /prompt` rejected the workflow during validation (HTTP 400 with `error` / `node_errors`). */
+export class ComfyPromptError extends ComfyHttpError {
+  constructor(
+    statusCode: number,
+    /** ComfyUI's top-level error message, e.g. "Prompt outputs failed validation". */
+    readonly reason: string,
+    readonly nodeErrors: ComfyNodeError[],
+    body: string,
+  ) {
+    super("POST", "/prompt", statusCode, body);
+    this.name = "ComfyPromptError";
+  }
+}
+
+/** A prompt ComfyUI accepted failed (or was interrupted) while executing. */
+export class ComfyExecutionError extends Error {
+  constructor(
+    readonly promptId: string,
+    readonly nodeError: ComfyNodeError | null,
+    readonly interrupted = false,
+  ) {
+    const what = interrupted
+      ? "execution was interrupted"
+      : nodeError
+        ? `${nodeError.nodeType} ${nodeError.nodeId}: ${nodeError.message}`
+        : "unknown error";
+    super(`ComfyUI execution failed (prompt ${promptId}) — ${what}`);
+    this.name = "ComfyExecutionError";
+  }
+}
+
+/**
+ * A prompt ComfyUI accepted is no longer queued, running or in its history —
+ * typically because ComfyUI was restarted and forgot it.
+ */
+export class ComfyLostPromptError extends Error {
+  constructor(readonly promptId: string) {
+    super(`ComfyUI lost prompt ${promptId} — it is not queued, running or in the history`);
+    this.name = "ComfyLostPromptError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface RawNodeIssue {
+  type?: string;
+  message?: string;
+  details?: string;
+  extra_info?: { input_name?: string; received_value?: unknown };
+}
+
+/** Turn one entry of a `node_errors[id].errors` list into a short reason. */
+function describeIssue(issue: RawNodeIssue): string {
+  const input = issue.extra_info?.input_name;
+  const received = issue.extra_info?.received_value;
+  if (issue.type === "value_not_in_list" && input) {
+    return received !== undefined ? `${input} not found: ${String(received)}` : `${input} not found`;
+  }
+  const message = issue.message ?? issue.type ?? "invalid value";
+  return input ? `${input}: ${message}` : message;
+}
+
+/**
+ * Parse a `/prompt` error body. Returns null when the body is not ComfyUI's
+ * structured validation error, so the caller can fall back to a plain HTTP error.
+ */
+export function parsePromptRejection(statusCode: number, body: string): ComfyPromptError | null {
+  let json: {
+    error?: { type?: string; message?: string; details?: string } | string;
+    node_errors?: Record<string, { class_type?: string; errors?: RawNodeIssue[] }>;
+  };
+  try {
+    json = JSON.parse(body) as typeof json;
+  } catch {
+    return null;
+  }
+  if (!json.error && !json.node_errors) return null;
+
+  const reason =
+    typeof json.error === "string" ? json.error : (json.error?.message ?? "Prompt failed validation");
+  const nodeErrors: ComfyNodeError[] = [];
+  for (const [nodeId, node] of Object.entries(json.node_errors ?? {})) {
+    for (const issue of node.errors ?? []) {
+      nodeErrors.push({
+        nodeId,
+        nodeType: node.class_type ?? "unknown node",
+        message: describeIssue(issue),
+        detail: issue.details || undefined,
+      });
+    }
+  }
+  return new ComfyPromptError(statusCode, reason, nodeErrors, body);
+}
+
+/** The failing node recorded in a history entry's `status.messages`, if any. */
+export function nodeErrorFromHistory(entry: ComfyHistoryEntry): ComfyNodeError | null {
+  for (const [type, data] of entry.status.messages ?? []) {
+    if (type !== "execution_error") continue;
+    return {
+      nodeId: String(data.node_id ?? "?"),
+      nodeType: String(data.node_type ?? "unknown node"),
+      message: String(data.exception_message ?? "unknown error").trim(),
+      detail: formatTraceback(data.exception_type, data.traceback),
+    };
+  }
+  return null;
+}
+
+/** Exception type + traceback from an `execution_error` payload, for the log. */
+export function formatTraceback(exceptionType: unknown, traceback: unknown): string | undefined {
+  const lines = Array.isArray(traceback) ? traceback.map(String).join("").trim() : "";
+  const head = typeof exceptionType === "string" ? exceptionType : "";
+  return [head, lines].filter(Boolean).join("\n") || undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Discord-facing summaries
+// ---------------------------------------------------------------------------
+
+/** Node lines shown per failure embed — the rest are in the log. */
+const MAX_NODE_LINES = 3;
+const MAX_LINE_LENGTH = 200;
+
+/**
+ * Make ComfyUI text safe to post: server paths are reduced to the file name,
+ * whitespace is collapsed and the result is length-capped.
+ */
+function sanitize(text: string): string {
+  const clean = text
+    .replace(/(?:[A-Za-z]:)?[\\/](?:[^\s\\/'"`]+[\\/])+([^\s\\/'"`]+)/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+  return clean.length > MAX_LINE_LENGTH ? clean.slice(0, MAX_LINE_LENGTH - 1) + "…" : clean;
+}
+
+function nodeLine(err: ComfyNodeError): string {
+  return `**${sanitize(err.nodeType)} ${sanitize(err.nodeId)}**: ${sanitize(err.message)}`;
+}
+
+/**
+ * Sanitised, Discord-ready description of a ComfyUI validation, execution or
+ * lost-prompt error, e.g. "ComfyUI rejected the workflow:\n**LoraLoader 2001**: lora_name not found".
+ * Returns null for any other kind of error.
+ */
+export function summarizeComfyError(err: unknown): string | null {
+  if (err instanceof ComfyPromptError) {
+    const lines = err.nodeErrors.slice(0, MAX_NODE_LINES).map(nodeLine);
+    if (err.nodeErrors.length > MAX_NODE_LINES) lines.push(`…and ${err.nodeErrors.length - MAX_NODE_LINES} more`);
+    return [`ComfyUI rejected the workflow: ${sanitize(err.reason)}`, ...lines].join("\n");
+  }
+  if (err instanceof ComfyExecutionError) {
+    if (err.interrupted) return "ComfyUI interrupted the job before it finished.";
+    return err.nodeError
+      ? `ComfyUI failed while running the workflow:\n${nodeLine(err.nodeError)}`
+      : "ComfyUI failed while running the workflow.";
+  }
+  if (err instanceof ComfyLostPromptError) {
+    return "ComfyUI lost this job — it was probably restarted while the job was waiting or running. Please try again.";
+  }
+  return null;
+}
+
+/** Full node-level detail for the log, or undefined if `err` carries none. */
+export function comfyErrorDetail(err: unknown): ComfyNodeError[] | undefined {
+  if (err instanceof ComfyPromptError) return err.nodeErrors;
+  if (err instanceof ComfyExecutionError && err.nodeError) return [err.nodeError];
+  return undefined;
+}
@@ -1,11 +1,15 @@
-import { comfyClient } from "./client.js";
+import { getBackends, type ComfyBackend } from "./backendPool.js";
 import { logger } from "../logger.js";
+import type { ControlNetPreprocessor } from "../queue/types.js";
 
 export interface ComfyOptions {
   models: string[];
   samplers: string[];
   schedulers: string[];
   loras: string[];
+  controlNets: string[];
+  preprocessors: ControlNetPreprocessor[]; // those whose node class is installed
+  upscaleModels: string[];
 }
 
 // ---------------------------------------------------------------------------
@@ -37,6 +41,30 @@ function getNodeInputList(
   return pickStrings(listOrType);
 }
 
+/**
+ * Allowed values of a combo (drop-down) input, or null if the class has no such
+ * input or it is not a combo. Accepts both the legacy `[[...values]]` field def
+ * and the newer `["COMBO", { options }]` one.
+ */
+export function getComboOptions(
+  objectInfo: Record<string, unknown>,
+  classType: string,
+  field: string,
+): string[] | null {
+  const node = objectInfo[classType] as Record<string, unknown> | undefined;
+  const input = (node?.input ?? node?.inputs) as Record<string, unknown> | undefined;
+  const required = input?.required as Record<string, unknown> | undefined;
+  const optional = input?.optional as Record<string, unknown> | undefined;
+  const fieldDef = required?.[field] ?? optional?.[field];
+  if (!Array.isArray(fieldDef)) return null;
+  if (Array.isArray(fieldDef[0])) return pickStrings(fieldDef[0]);
+  if (fieldDef[0] === "COMBO") {
+    const options = (fieldDef[1] as { options?: unknown } | undefined)?.options;
+    return pickStrings(options);
+  }
+  return null;
+}
+
 // ---------------------------------------------------------------------------
 // LoRA detection
 // ---------------------------------------------------------------------------
@@ -45,6 +73,52 @@ export function getLoras(objectInfo: Record<string, unknown>): string[] {
   return getNodeInputList(objectInfo, "LoraLoader", "lora_name") ?? [];
 }
 
+// ---------------------------------------------------------------------------
+// ControlNet detection
+//
+// Canny ships with ComfyUI; the depth and pose preprocessors come from the
+// comfyui_controlnet_aux custom nodes and are only offered where installed.
+// ---------------------------------------------------------------------------
+
+export interface PreprocessorNode {
+  label: string;
+  classType: string;
+  /** Fixed inputs besides the image; a `resolution` input is set to the job's short side. */
+  inputs: Record<string, unknown>;
+}
+
+export const CONTROLNET_PREPROCESSORS: Record<ControlNetPreprocessor, PreprocessorNode> = {
+  canny: { label: "Canny edges", classType: "Canny", inputs: { low_threshold: 0.4, high_threshold: 0.8 } },
+  depth: {
+    label: "Depth map",
+    classType: "DepthAnythingPreprocessor",
+    inputs: { ckpt_name: "depth_anything_vitl14.pth", resolution: 512 },
+  },
+  pose: {
+    label: "OpenPose",
+    classType: "OpenposePreprocessor",
+    inputs: { detect_hand: "enable", detect_body: "enable", detect_face: "enable", resolution: 512 },
+  },
+};
+
+export function getControlNets(objectInfo: Record<string, unknown>): string[] {
+  return getNodeInputList(objectInfo, "ControlNetLoader", "control_net_name") ?? [];
+}
+
+function getPreprocessors(objectInfo: Record<string, unknown>): ControlNetPreprocessor[] {
+  return (Object.keys(CONTROLNET_PREPROCESSORS) as ControlNetPreprocessor[]).filter(
+    (name) => CONTROLNET_PREPROCESSORS[name].classType in objectInfo,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Upscale model detection
+// ---------------------------------------------------------------------------
+
+export function getUpscaleModels(objectInfo: Record<string, unknown>): string[] {
+  return getNodeInputList(objectInfo, "UpscaleModelLoader", "model_name") ?? [];
+}
+
 // ---------------------------------------------------------------------------
 // Checkpoint loader detection (Section 6.1)
 // ---------------------------------------------------------------------------
@@ -93,21 +167,14 @@ function findSamplerClass(objectInfo: Record<string, unknown>): string | null {
 }
 
 // ---------------------------------------------------------------------------
-// Public API
+// Option extraction
 // ---------------------------------------------------------------------------
 
-let _cached: ComfyOptions | null = null;
-
 /**
- * Fetch and return the cached option lists.
- * Call once at startup; results are held for the process lifetime.
+ * Extract the full (uncapped) option lists from one backend's object_info.
  * Throws (fatal) if required classes cannot be found.
  */
-export async function fetchOptions(): Promise<ComfyOptions> {
-  if (_cached) return _cached;
-
-  const objectInfo = await comfyClient.getObjectInfo();
-
+function parseOptions(objectInfo: Record<string, unknown>): ComfyOptions {
   // --- Models ---
   const ckptClass = findCheckpointClass(objectInfo);
   if (!ckptClass) {
@@ -147,6 +214,86 @@ export async function fetchOptions(): Promise<ComfyOptions> {
     throw new Error(`Fatal: sampler class '${samplerClass}' has no 'scheduler' options.`);
   }
 
+  // LoRAs, ControlNets and upscale models — optional, no fatal error if none found
+  return {
+    models,
+    samplers,
+    schedulers,
+    loras: getLoras(objectInfo),
+    controlNets: getControlNets(objectInfo),
+    preprocessors: getPreprocessors(objectInfo),
+    upscaleModels: getUpscaleModels(objectInfo),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Per-backend cache
+// ---------------------------------------------------------------------------
+
+const _objectInfo = new Map<string, Record<string, unknown>>();
+const _backendOptions = new Map<string, ComfyOptions>();
+
+/** Raw object_info for one backend, fetched once and cached until cleared. */
+export async function getBackendObjectInfo(backend: ComfyBackend): Promise<Record<string, unknown>> {
+  const cached = _objectInfo.get(backend.url);
+  if (cached) return cached;
+  const objectInfo = await backend.client.getObjectInfo();
+  _objectInfo.set(backend.url, objectInfo);
+  return objectInfo;
+}
+
+/** Full option lists installed on one backend (not capped for Discord). */
+export async function getBackendOptions(backend: ComfyBackend): Promise<ComfyOptions> {
+  const cached = _backendOptions.get(backend.url);
+  if (cached) return cached;
+  const options = parseOptions(await getBackendObjectInfo(backend));
+  _backendOptions.set(backend.url, options);
+  logger.info(
+    { url: backend.url, models: options.models.length, loras: options.loras.length },
+    "Backend options loaded",
+  );
+  return options;
+}
+
+/** Cached options for a backend without triggering a fetch. */
+export function peekBackendOptions(backend: ComfyBackend): ComfyOptions | undefined {
+  return _backendOptions.get(backend.url);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+let _cached: ComfyOptions | null = null;
+
+/** Union of several lists, preserving first-seen order. */
+function union(lists: string[][]): string[] {
+  return [...new Set(lists.flat())];
+}
+
+/**
+ * Fetch and return the cached option lists offered in the gen form: the union of
+ * what every healthy backend has installed. Call once at startup; results are
+ * held until clearOptionsCache(). Throws if no backend yields usable options.
+ */
+export async function fetchOptions(): Promise<ComfyOptions> {
+  if (_cached) return _cached;
+
+  const loaded: ComfyOptions[] = [];
+  let firstError: unknown = null;
+  for (const backend of getBackends()) {
+    if (!backend.healthy) continue;
+    try {
+      loaded.push(await getBackendOptions(backend));
+    } catch (err) {
+      logger.error({ url: backend.url, err }, "Failed to load options from ComfyUI backend");
+      firstError ??= err;
+    }
+  }
+  if (loaded.length === 0) {
+    throw firstError ?? new Error("No healthy ComfyUI backend is available.");
+  }
+
   // Discord select menus cap at 25 options
   const cap = (arr: string[], label: string): string[] => {
     if (arr.length > 25) {
@@ -156,25 +303,38 @@ export async function fetchOptions(): Promise<ComfyOptions> {
     return arr;
   };
 
-  // LoRAs — optional, no fatal error if none found; cap at 100 for the select menus
-  const allLoras = getLoras(objectInfo);
+  // LoRAs — cap at 100 for the select menus
+  const allLoras = union(loaded.map((o) => o.loras));
   const loras = allLoras.length > 100 ? allLoras.slice(0, 100) : allLoras;
 
   _cached = {
-    models: cap(models, "models"),
-    samplers: cap(samplers, "samplers"),
-    schedulers: cap(schedulers, "schedulers"),
+    models: cap(union(loaded.map((o) => o.models)), "models"),
+    samplers: cap(union(loaded.map((o) => o.samplers)), "samplers"),
+    schedulers: cap(union(loaded.map((o) => o.schedulers)), "schedulers"),
     loras,
+    controlNets: cap(union(loaded.map((o) => o.controlNets)), "controlNets"),
+    preprocessors: union(loaded.map((o) => o.preprocessors)) as ControlNetPreprocessor[],
+    upscaleModels: cap(union(loaded.map((o) => o.upscaleModels)), "upscaleModels"),
   };
 
   logger.info(
-    { models: _cached.models.length, samplers: _cached.samplers.length, schedulers: _cached.schedulers.length, loras: _cached.loras.length },
+    { backends: loaded.length, models: _cached.models.length, samplers: _cached.samplers.length, schedulers: _cached.schedulers.length, loras: _cached.loras.length },
     "ComfyUI options loaded",
   );
   return _cached;
 }
 
-/** Clear the cache (e.g. for a future !refresh command). */
-export function clearOptionsCache(): void {
+/**
+ * Clear cached object_info and options — for one backend (e.g. after it restarts,
+ * since its installed models may have changed) or for all of them.
+ */
+export function clearOptionsCache(backendUrl?: string): void {
   _cached = null;
+  if (backendUrl) {
+    _objectInfo.delete(backendUrl);
+    _backendOptions.delete(backendUrl);
+  } else {
+    _objectInfo.clear();
+    _backendOptions.clear();
+  }
 }
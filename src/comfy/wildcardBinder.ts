@@ -1,240 +0,0 @@
-import { readFileSync } from "node:fs";
-import { resolve, dirname } from "node:path";
-import { fileURLToPath } from "node:url";
-import type { JobRow, LoraParam } from "../queue/types.js";
-import { logger } from "../logger.js";
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
-
-// ---------------------------------------------------------------------------
-// Result types (same shape as workflowBinder)
-// ---------------------------------------------------------------------------
-
-export interface BindOk {
-  ok: true;
-  workflow: Record<string, unknown>;
-}
-
-export interface BindError {
-  ok: false;
-  reason: string;
-}
-
-export type BindResult = BindOk | BindError;
-
-// ---------------------------------------------------------------------------
-// Binding rules
-//
-//  Node  | Field(s) written
-//  ------|---------------------------------------------------------
-//  "6"   | inputs.width, inputs.height               (latent size)
-//  "152" | inputs.ckpt_name                          (checkpoint)
-//  "256" | inputs.seed                               (seed)
-//  "269" | inputs.wildcard_text, inputs.seed         (positive prompt via ImpactWildcardEncode)
-//  "4"   | inputs.text                               (negative prompt)
-//  "239" | inputs.sampler_name, scheduler, steps, cfg (base sampler — all fields)
-//  "249" | inputs.sampler_name, scheduler            (sampler/scheduler ONLY)
-//  "52"  | inputs.sampler_name, scheduler            (sampler/scheduler ONLY)
-//  "118" | inputs.sampler_name, scheduler            (sampler/scheduler ONLY)
-//
-//  steps / cfg are written ONLY to node "239".
-// ---------------------------------------------------------------------------
-
-const REQUIRED_NODES = ["6", "152", "256", "269", "4", "239", "249", "52", "118"] as const;
-
-const REQUIRED_FIELDS: Record<string, string[]> = {
-  "6": ["width", "height"],
-  "152": ["ckpt_name"],
-  "256": ["seed"],
-  "269": ["wildcard_text"],
-  "4": ["text"],
-  "239": ["sampler_name", "scheduler", "steps", "cfg"],
-  "249": ["sampler_name", "scheduler"],
-  "52": ["sampler_name", "scheduler"],
-  "118": ["sampler_name", "scheduler"],
-};
-
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-function node(workflow: Record<string, unknown>, id: string): Record<string, unknown> | null {
-  const n = workflow[id];
-  if (typeof n !== "object" || n === null) return null;
-  return n as Record<string, unknown>;
-}
-
-function inputs(n: Record<string, unknown>): Record<string, unknown> | null {
-  const inp = n["inputs"];
-  if (typeof inp !== "object" || inp === null) return null;
-  return inp as Record<string, unknown>;
-}
-
-function setField(workflow: Record<string, unknown>, nodeId: string, field: string, value: unknown): void {
-  const n = node(workflow, nodeId);
-  if (!n) return;
-  const inp = inputs(n);
-  if (!inp) return;
-  inp[field] = value;
-}
-
-// ---------------------------------------------------------------------------
-// Size map
-// ---------------------------------------------------------------------------
-
-const SIZE_MAP: Record<string, [number, number]> = {
-  portrait:  [832, 1216],
-  square:    [1024, 1024],
-  landscape: [1216, 832],
-};
-
-// ---------------------------------------------------------------------------
-// Load base workflow from disk
-// ---------------------------------------------------------------------------
-
-let _workflowCache: string | null = null;
-
-function loadBase(): Record<string, unknown> {
-  if (!_workflowCache) {
-    const wfPath = resolve(__dirname, "../../workflows/wildcard/base.json");
-    _workflowCache = readFileSync(wfPath, "utf-8");
-    logger.debug({ wfPath }, "Wildcard base.json loaded from disk");
-  }
-  return JSON.parse(_workflowCache) as Record<string, unknown>;
-}
-
-/** Exposed so startup can pre-load and validate the file early. */
-export function loadBaseWildcardWorkflow(): Record<string, unknown> {
-  return loadBase();
-}
-
-// ---------------------------------------------------------------------------
-// LoRA injection (identical logic to workflowBinder)
-// ---------------------------------------------------------------------------
-
-function injectLoras(wf: Record<string, unknown>, loras: (LoraParam | null)[]): void {
-  const active = loras.filter((l): l is LoraParam => l !== null).slice(0, 4);
-  if (active.length === 0) return;
-
-  const loraNodeIds = active.map((_, i) => String(2001 + i));
-
-  for (let i = 0; i < active.length; i++) {
-    const id = loraNodeIds[i];
-    const prevId = i === 0 ? "152" : loraNodeIds[i - 1];
-    wf[id] = {
-      class_type: "LoraLoader",
-      inputs: {
-        model: [prevId, 0],
-        clip: [prevId, 1],
-        lora_name: active[i].name,
-        strength_model: active[i].strength,
-        strength_clip: active[i].strength,
-      },
-    };
-  }
-
-  const lastLoraId = loraNodeIds[loraNodeIds.length - 1];
-
-  for (const [nodeId, nodeData] of Object.entries(wf)) {
-    if (loraNodeIds.includes(nodeId)) continue;
-    if (typeof nodeData !== "object" || nodeData === null) continue;
-    const inp = (nodeData as Record<string, unknown>)["inputs"];
-    if (typeof inp !== "object" || inp === null) continue;
-    for (const [field, val] of Object.entries(inp as Record<string, unknown>)) {
-      if (!Array.isArray(val) || val.length < 2) continue;
-      if (val[0] === "152" && val[1] === 0) {
-        (inp as Record<string, unknown>)[field] = [lastLoraId, 0];
-      } else if (val[0] === "152" && val[1] === 1) {
-        (inp as Record<string, unknown>)[field] = [lastLoraId, 1];
-      }
-    }
-  }
-}
-
-// ---------------------------------------------------------------------------
-// validateWildcardWorkflow()
-// ---------------------------------------------------------------------------
-
-export function validateWildcardWorkflow(): BindResult {
-  let wf: Record<string, unknown>;
-  try {
-    wf = loadBase();
-  } catch (err) {
-    return { ok: false, reason: `Could not load workflows/wildcard/base.json: ${String(err)}` };
-  }
-
-  if (typeof wf !== "object" || wf === null || Array.isArray(wf)) {
-    return { ok: false, reason: "Wildcard workflow is not a plain object." };
-  }
-
-  for (const nodeId of REQUIRED_NODES) {
-    const n = node(wf, nodeId);
-    if (!n) {
-      return { ok: false, reason: `Wildcard workflow is missing required node "${nodeId}".` };
-    }
-    const inp = inputs(n);
-    if (!inp) {
-      return { ok: false, reason: `Wildcard workflow node "${nodeId}" is missing an "inputs" object.` };
-    }
-    for (const field of REQUIRED_FIELDS[nodeId] ?? []) {
-      if (inp[field] === undefined || inp[field] === null) {
-        return { ok: false, reason: `Wildcard workflow node "${nodeId}" inputs.${field} is missing or null.` };
-      }
-    }
-  }
-
-  return { ok: true, workflow: wf };
-}
-
-// ---------------------------------------------------------------------------
-// bind()
-// ---------------------------------------------------------------------------
-
-export function bind(job: JobRow): BindResult {
-  const base = loadBase();
-  const result = validateWildcardWorkflow();
-  if (!result.ok) return result;
-
-  const wf: Record<string, unknown> = JSON.parse(JSON.stringify(base));
-
-  if (job.loras && job.loras.some(Boolean)) {
-    injectLoras(wf, job.loras);
-  }
-
-  // Node "6" — latent image size
-  const [w, h] = SIZE_MAP[job.size] ?? SIZE_MAP["portrait"];
-  setField(wf, "6", "width", w);
-  setField(wf, "6", "height", h);
-
-  // Node "152" — checkpoint model
-  setField(wf, "152", "ckpt_name", job.model);
-
-  // Node "256" — seed generator
-  setField(wf, "256", "seed", job.seed);
-
-  // Node "269" — ImpactWildcardEncode: positive prompt + seed (for reproducible wildcard branches)
-  const triggerWords = (job.loras ?? [])
-    .filter((l): l is LoraParam => l !== null)
-    .flatMap((l) => l.triggerWords);
-  const combinedPrompt = [job.positivePrompt, ...triggerWords].filter(Boolean).join(" ").trim();
-  setField(wf, "269", "wildcard_text", combinedPrompt || job.positivePrompt);
-  setField(wf, "269", "seed", job.seed);
-
-  // Node "4" — negative prompt
-  setField(wf, "4", "text", job.negativePrompt);
-
-  // Node "239" — base sampler: all four fields
-  setField(wf, "239", "sampler_name", job.sampler);
-  setField(wf, "239", "scheduler", job.scheduler);
-  setField(wf, "239", "steps", job.steps);
-  setField(wf, "239", "cfg", job.cfg);
-
-  // Nodes "249", "52", "118" — sampler/scheduler ONLY
-  for (const nodeId of ["249", "52", "118"] as const) {
-    setField(wf, nodeId, "sampler_name", job.sampler);
-    setField(wf, nodeId, "scheduler", job.scheduler);
-  }
-
-  logger.debug({ jobId: job.id }, "Wildcard workflow bound for job");
-  return { ok: true, workflow: wf };
-}
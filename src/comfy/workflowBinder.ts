@@ -1,11 +1,15 @@
-import { readFileSync } from "node:fs";
-import { resolve, dirname } from "node:path";
-import { fileURLToPath } from "node:url";
-import type { JobRow, LoraParam } from "../queue/types.js";
+import type { ControlNetParam, JobRow, LoraParam, UpscaleJobRow } from "../queue/types.js";
+import {
+  getWorkflow,
+  jobWorkflow,
+  type GenWorkflowManifest,
+  type WorkflowDefinition,
+  type WorkflowTarget,
+} from "./workflowManifest.js";
+import { CONTROLNET_PREPROCESSORS } from "./objectInfo.js";
+import { parseSize } from "../queue/sizes.js";
 import { logger } from "../logger.js";
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
-
 // ---------------------------------------------------------------------------
 // Result types
 // ---------------------------------------------------------------------------
@@ -23,90 +27,33 @@ export interface BindError {
 export type BindResult = BindOk | BindError;
 
 // ---------------------------------------------------------------------------
-// Workflow binding rules (LOCKED — do not modify without architecture review)
+// Workflow binding
 //
-//  Node  | Field(s) written
-//  ------|---------------------------------------------------------
-//  "6"   | inputs.width, inputs.height               (latent size)
-//  "152" | inputs.ckpt_name                  (checkpoint model)
-//  "268" | inputs.text                       (positive prompt)
-//  "4"   | inputs.text                       (negative prompt)
-//  "239" | inputs.sampler_name, scheduler,   (BASE sampler — all fields)
-//         | inputs.steps, inputs.cfg
-//  "249" | inputs.sampler_name, scheduler    (sampler/scheduler ONLY)
-//  "52"  | inputs.sampler_name, scheduler    (sampler/scheduler ONLY)
-//  "118" | inputs.sampler_name, scheduler    (sampler/scheduler ONLY)
+// Which node and input each job parameter is written to comes from the
+// workflow's manifest (see workflowManifest.ts), e.g. for multisampler:
 //
-//  steps / cfg are written ONLY to node "239".
-// ---------------------------------------------------------------------------
-
-const REQUIRED_NODES = ["6", "152", "256", "268", "4", "239", "249", "52", "118"] as const;
-
-/** Fields each node must have. Used by validate(). */
-const REQUIRED_FIELDS: Record<string, string[]> = {
-  "6": ["width", "height"],
-  "152": ["ckpt_name"],
-  "256": ["seed"],
-  "268": ["text"],
-  "4": ["text"],
-  "239": ["sampler_name", "scheduler", "steps", "cfg"],
-  "249": ["sampler_name", "scheduler"],
-  "52": ["sampler_name", "scheduler"],
-  "118": ["sampler_name", "scheduler"],
-};
-
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-function node(workflow: Record<string, unknown>, id: string): Record<string, unknown> | null {
-  const n = workflow[id];
-  if (typeof n !== "object" || n === null) return null;
-  return n as Record<string, unknown>;
-}
-
-function inputs(n: Record<string, unknown>): Record<string, unknown> | null {
-  const inp = n["inputs"];
-  if (typeof inp !== "object" || inp === null) return null;
-  return inp as Record<string, unknown>;
-}
-
-function setField(workflow: Record<string, unknown>, nodeId: string, field: string, value: unknown): void {
-  const n = node(workflow, nodeId);
-  if (!n) return;
-  const inp = inputs(n);
-  if (!inp) return;
-  inp[field] = value;
-}
-
-// ---------------------------------------------------------------------------
-// Size map
-// ---------------------------------------------------------------------------
-
-const SIZE_MAP: Record<string, [number, number]> = {
-  portrait:  [832, 1216],
-  square:    [1024, 1024],
-  landscape: [1216, 832],
-};
-
-// ---------------------------------------------------------------------------
-// Load base workflow from disk
+//  model    → "152".ckpt_name        sampler   → "239", "249", "52", "118"
+//  positive → "268".text             scheduler → "239", "249", "52", "118"
+//  negative → "4".text               steps/cfg → "239" only
+//  seed     → "256".seed             width/height/batchSize → "6"
+//  denoise  → "239".denoise          (img2img jobs only)
+//
+// LoRAs are chained from "152", and ControlNet applied to the conditioning of
+// "268" and "4", by injecting nodes and re-pointing the links that used them.
+//
+// Manifests are validated when loaded, so every target exists in the graph.
 // ---------------------------------------------------------------------------
 
-let _workflowCache: string | null = null;
-
-function loadBase(): Record<string, unknown> {
-  if (!_workflowCache) {
-    const wfPath = resolve(__dirname, "../../workflows/multisampler/base.json");
-    _workflowCache = readFileSync(wfPath, "utf-8");
-    logger.debug({ wfPath }, "Workflow base.json loaded from disk");
+function setTargets(workflow: Record<string, unknown>, targets: WorkflowTarget[] | undefined, value: unknown): void {
+  for (const { node, field } of targets ?? []) {
+    const inputs = (workflow[node] as { inputs: Record<string, unknown> }).inputs;
+    inputs[field] = value;
   }
-  return JSON.parse(_workflowCache) as Record<string, unknown>;
 }
 
-/** Exposed so startup can pre-load and validate the file early. */
-export function loadBaseWorkflow(): Record<string, unknown> {
-  return loadBase();
+/** Deep clone so each job gets its own copy of the shared graph. */
+function cloneGraph(graph: Record<string, unknown>): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(graph)) as Record<string, unknown>;
 }
 
 // ---------------------------------------------------------------------------
@@ -115,21 +62,18 @@ export function loadBaseWorkflow(): Record<string, unknown> {
 
 /**
  * Injects LoraLoader nodes into the workflow for each active LoRA.
- * The first node chains from checkpoint node "152"; each subsequent node
+ * The first node chains from the manifest's attach node; each subsequent node
  * chains from the previous. After injection, all other nodes that referenced
- * "152" for MODEL (output 0) or CLIP (output 1) are re-pointed to the last
- * LoRA node so the chain is complete.
+ * the attach node for MODEL (output 0) or CLIP (output 1) are re-pointed to
+ * the last LoRA node so the chain is complete.
  */
-function injectLoras(wf: Record<string, unknown>, loras: (LoraParam | null)[]): void {
-  const active = loras.filter((l): l is LoraParam => l !== null).slice(0, 4);
-  if (active.length === 0) return;
-
+function injectLoras(wf: Record<string, unknown>, attachNode: string, active: LoraParam[]): void {
   const loraNodeIds = active.map((_, i) => String(2001 + i));
 
   // Build LoraLoader nodes
   for (let i = 0; i < active.length; i++) {
     const id = loraNodeIds[i];
-    const prevId = i === 0 ? "152" : loraNodeIds[i - 1];
+    const prevId = i === 0 ? attachNode : loraNodeIds[i - 1];
     wf[id] = {
       class_type: "LoraLoader",
       inputs: {
@@ -144,55 +88,115 @@ function injectLoras(wf: Record<string, unknown>, loras: (LoraParam | null)[]):
 
   const lastLoraId = loraNodeIds[loraNodeIds.length - 1];
 
-  // Re-point all existing nodes (not the new LoRA nodes) that reference node "152"
-  // for MODEL (output 0) or CLIP (output 1)
+  // Re-point all existing nodes (not the new LoRA nodes) that reference the
+  // attach node for MODEL (output 0) or CLIP (output 1)
   for (const [nodeId, nodeData] of Object.entries(wf)) {
     if (loraNodeIds.includes(nodeId)) continue;
     if (typeof nodeData !== "object" || nodeData === null) continue;
     const inp = (nodeData as Record<string, unknown>)["inputs"];
     if (typeof inp !== "object" || inp === null) continue;
     for (const [field, val] of Object.entries(inp as Record<string, unknown>)) {
-      if (!Array.isArray(val) || val.length < 2) continue;
-      if (val[0] === "152" && val[1] === 0) {
-        (inp as Record<string, unknown>)[field] = [lastLoraId, 0];
-      } else if (val[0] === "152" && val[1] === 1) {
-        (inp as Record<string, unknown>)[field] = [lastLoraId, 1];
+      if (!Array.isArray(val) || val.length < 2 || val[0] !== attachNode) continue;
+      if (val[1] === 0 || val[1] === 1) {
+        (inp as Record<string, unknown>)[field] = [lastLoraId, val[1]];
       }
     }
   }
 }
 
 // ---------------------------------------------------------------------------
-// validate()
+// Image-to-image
 // ---------------------------------------------------------------------------
 
 /**
- * Validate that the given workflow object contains all required nodes and fields.
- * Returns BindError on first failure so the caller has a specific message.
+ * Replaces the manifest's empty-latent node with the source image: LoadImage →
+ * ImageScale (to the job's size, centre-cropped) → VAEEncode, repeated to the
+ * batch size. Every node that read the latent node's output is re-pointed to
+ * the encoded image; the latent node itself is left unused.
  */
-export function validate(workflow: unknown): BindResult {
-  if (typeof workflow !== "object" || workflow === null || Array.isArray(workflow)) {
-    return { ok: false, reason: "Workflow is not a plain object." };
+function injectImg2Img(
+  wf: Record<string, unknown>,
+  { latent, vae }: NonNullable<GenWorkflowManifest["img2img"]>,
+  image: string,
+  width: number,
+  height: number,
+  batchSize: number,
+): void {
+  wf["3001"] = { class_type: "LoadImage", inputs: { image } };
+  wf["3002"] = {
+    class_type: "ImageScale",
+    inputs: { image: ["3001", 0], upscale_method: "lanczos", width, height, crop: "center" },
+  };
+  wf["3003"] = { class_type: "VAEEncode", inputs: { pixels: ["3002", 0], vae } };
+  const injectedIds = ["3001", "3002", "3003"];
+  if (batchSize > 1) {
+    wf["3004"] = { class_type: "RepeatLatentBatch", inputs: { samples: ["3003", 0], amount: batchSize } };
+    injectedIds.push("3004");
   }
-  const wf = workflow as Record<string, unknown>;
+  const encoded = injectedIds[injectedIds.length - 1];
 
-  for (const nodeId of REQUIRED_NODES) {
-    const n = node(wf, nodeId);
-    if (!n) {
-      return { ok: false, reason: `Workflow is missing required node "${nodeId}".` };
-    }
-    const inp = inputs(n);
-    if (!inp) {
-      return { ok: false, reason: `Node "${nodeId}" is missing an "inputs" object.` };
-    }
-    for (const field of REQUIRED_FIELDS[nodeId] ?? []) {
-      if (inp[field] === undefined || inp[field] === null) {
-        return { ok: false, reason: `Node "${nodeId}" inputs.${field} is missing or null.` };
-      }
+  for (const [nodeId, nodeData] of Object.entries(wf)) {
+    if (injectedIds.includes(nodeId)) continue;
+    const inp = (nodeData as { inputs?: Record<string, unknown> } | null)?.inputs;
+    if (typeof inp !== "object" || inp === null) continue;
+    for (const [field, val] of Object.entries(inp)) {
+      if (Array.isArray(val) && val[0] === latent && val[1] === 0) inp[field] = [encoded, 0];
     }
   }
+}
 
-  return { ok: true, workflow: wf };
+// ---------------------------------------------------------------------------
+// ControlNet injection
+// ---------------------------------------------------------------------------
+
+/**
+ * Injects ControlNetLoader + LoadImage (+ a preprocessor) + ControlNetApplyAdvanced
+ * on the manifest's positive and negative conditioning. Every other node that
+ * read either link is re-pointed to the applied conditioning, as injectLoras
+ * does for the checkpoint's MODEL and CLIP.
+ */
+function injectControlNet(
+  wf: Record<string, unknown>,
+  { positive, negative }: NonNullable<GenWorkflowManifest["controlNet"]>,
+  controlNet: ControlNetParam,
+  shortSide: number,
+): void {
+  wf["4001"] = { class_type: "ControlNetLoader", inputs: { control_net_name: controlNet.model } };
+  wf["4002"] = { class_type: "LoadImage", inputs: { image: controlNet.image.filename } };
+  const injectedIds = ["4001", "4002"];
+  let hint = "4002";
+  if (controlNet.preprocessor) {
+    const { classType, inputs } = CONTROLNET_PREPROCESSORS[controlNet.preprocessor];
+    const resolution = "resolution" in inputs ? { resolution: shortSide } : {};
+    wf["4003"] = { class_type: classType, inputs: { ...inputs, ...resolution, image: ["4002", 0] } };
+    injectedIds.push("4003");
+    hint = "4003";
+  }
+  wf["4004"] = {
+    class_type: "ControlNetApplyAdvanced",
+    inputs: {
+      positive,
+      negative,
+      control_net: ["4001", 0],
+      image: [hint, 0],
+      strength: controlNet.strength,
+      start_percent: controlNet.startPercent,
+      end_percent: controlNet.endPercent,
+    },
+  };
+  injectedIds.push("4004");
+
+  const isLink = (val: unknown, link: [string, number]): boolean =>
+    Array.isArray(val) && val[0] === link[0] && val[1] === link[1];
+  for (const [nodeId, nodeData] of Object.entries(wf)) {
+    if (injectedIds.includes(nodeId)) continue;
+    const inp = (nodeData as { inputs?: Record<string, unknown> } | null)?.inputs;
+    if (typeof inp !== "object" || inp === null) continue;
+    for (const [field, val] of Object.entries(inp)) {
+      if (isLink(val, positive)) inp[field] = ["4004", 0];
+      else if (isLink(val, negative)) inp[field] = ["4004", 1];
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -200,55 +204,108 @@ export function validate(workflow: unknown): BindResult {
 // ---------------------------------------------------------------------------
 
 /**
- * Deep-clone base.json, inject all job parameters per the binding rules,
- * and return the ready-to-submit workflow.
+ * Clone the job's gen workflow — or its inpaint workflow, if it has a mask —
+ * inject all job parameters where its manifest says, and return the
+ * ready-to-submit workflow. `def` is the workflow version the job was queued
+ * with; by default the one live now.
  */
-export function bind(job: JobRow): BindResult {
-  const base = loadBase();
-  const result = validate(base);
-  if (!result.ok) return result;
+export function bind(job: JobRow, def: WorkflowDefinition | undefined = jobWorkflow(job)): BindResult {
+  const kind = job.mask ? "inpaint" : "gen";
+  if (!def || def.manifest.kind !== kind) {
+    const name = kind === "inpaint" ? "inpaint" : "generation";
+    return { ok: false, reason: `The ${name} workflow "${job.workflow}" is not installed or failed validation.` };
+  }
+  const { loras: loraAttach } = def.manifest;
+  const img2img = def.manifest.kind === "gen" ? def.manifest.img2img : undefined;
+  const controlNetAttach = def.manifest.kind === "gen" ? def.manifest.controlNet : undefined;
+  const params: Record<string, WorkflowTarget[] | undefined> = def.manifest.params;
+
+  const active = (job.loras ?? []).filter((l): l is LoraParam => l !== null).slice(0, 4);
+  if (active.length > 0 && !loraAttach) {
+    return { ok: false, reason: `The ${def.manifest.label} workflow does not support LoRAs.` };
+  }
+  if (kind === "gen" && job.sourceImage && !img2img) {
+    return { ok: false, reason: `The ${def.manifest.label} workflow does not support image-to-image.` };
+  }
+  if (job.controlNet && !controlNetAttach) {
+    return { ok: false, reason: `The ${def.manifest.label} workflow does not support ControlNet.` };
+  }
 
-  // Deep clone so each job gets its own copy
-  const wf: Record<string, unknown> = JSON.parse(JSON.stringify(base));
+  const wf = cloneGraph(def.graph);
 
   // Inject LoRA nodes if any are active (must happen before re-pointing refs)
-  if (job.loras && job.loras.some(Boolean)) {
-    injectLoras(wf, job.loras);
+  if (active.length > 0 && loraAttach) {
+    injectLoras(wf, loraAttach.node, active);
   }
 
-  // Node "6" — latent image size
-  const [w, h] = SIZE_MAP[job.size] ?? SIZE_MAP["portrait"];
-  setField(wf, "6", "width", w);
-  setField(wf, "6", "height", h);
-
-  // Node "152" — checkpoint model
-  setField(wf, "152", "ckpt_name", job.model);
-
-  // Node "256" — Seed Generator: inject resolved seed
-  setField(wf, "256", "seed", job.seed);
-
-  // Node "268" — positive prompt (combined with LoRA trigger words)
-  const triggerWords = (job.loras ?? [])
-    .filter((l): l is LoraParam => l !== null)
-    .flatMap((l) => l.triggerWords);
+  // Positive prompt is combined with LoRA trigger words
+  const triggerWords = active.flatMap((l) => l.triggerWords);
   const combinedPrompt = [job.positivePrompt, ...triggerWords].filter(Boolean).join(" ").trim();
-  setField(wf, "268", "text", combinedPrompt || job.positivePrompt);
 
-  // Node "4" — negative prompt
-  setField(wf, "4", "text", job.negativePrompt);
+  const [w, h] = parseSize(job.size);
+  if (job.sourceImage && img2img) {
+    injectImg2Img(wf, img2img, job.sourceImage.filename, w, h, job.batchSize);
+    setTargets(wf, params.denoise, job.denoise);
+  }
+  if (job.controlNet && controlNetAttach) {
+    injectControlNet(wf, controlNetAttach, job.controlNet, Math.min(w, h));
+  }
+  setTargets(wf, params.model, job.model);
+  setTargets(wf, params.positive, combinedPrompt || job.positivePrompt);
+  setTargets(wf, params.negative, job.negativePrompt);
+  setTargets(wf, params.seed, job.seed);
+  setTargets(wf, params.steps, job.steps);
+  setTargets(wf, params.cfg, job.cfg);
+  setTargets(wf, params.sampler, job.sampler);
+  setTargets(wf, params.scheduler, job.scheduler);
+  setTargets(wf, params.width, w);
+  setTargets(wf, params.height, h);
+  setTargets(wf, params.batchSize, job.batchSize);
+  if (job.mask) {
+    setTargets(wf, params.image, job.sourceImage?.filename);
+    setTargets(wf, params.mask, job.mask.filename);
+    setTargets(wf, params.grow, job.mask.grow);
+    setTargets(wf, params.feather, job.mask.feather);
+    setTargets(wf, params.denoise, job.denoise);
+  }
 
-  // Node "239" — base sampler: all four fields
-  setField(wf, "239", "sampler_name", job.sampler);
-  setField(wf, "239", "scheduler", job.scheduler);
-  setField(wf, "239", "steps", job.steps);
-  setField(wf, "239", "cfg", job.cfg);
+  logger.debug({ jobId: job.id, workflow: job.workflow }, "Workflow bound for job");
+  return { ok: true, workflow: wf };
+}
 
-  // Nodes "249", "52", "118" — sampler/scheduler ONLY (no steps, no cfg)
-  for (const nodeId of ["249", "52", "118"] as const) {
-    setField(wf, nodeId, "sampler_name", job.sampler);
-    setField(wf, nodeId, "scheduler", job.scheduler);
+/**
+ * Clone the job's upscale workflow and inject the uploaded source image, the
+ * upscale model, the scale factor (or the target size it gives) and — where the
+ * workflow re-samples — the source job's checkpoint and prompts, denoise and
+ * tile size.
+ *
+ * @param uploadedFilename  The filename returned by ComfyUI's /upload/image endpoint.
+ * @param def               The workflow version the job was queued with; by default the one live now.
+ */
+export function bindUpscale(
+  job: UpscaleJobRow,
+  uploadedFilename: string,
+  def: WorkflowDefinition | undefined = getWorkflow(job.workflow, "upscale"),
+): BindResult {
+  if (!def || def.manifest.kind !== "upscale") {
+    return { ok: false, reason: `The upscale workflow "${job.workflow}" is not installed or failed validation.` };
   }
-
-  logger.debug({ jobId: job.id }, "Workflow bound for job");
+  const { params } = def.manifest;
+
+  const wf = cloneGraph(def.graph);
+  setTargets(wf, params.image, uploadedFilename);
+  setTargets(wf, params.upscaleModel, job.upscaleModel);
+  setTargets(wf, params.model, job.model);
+  setTargets(wf, params.positive, job.positivePrompt);
+  setTargets(wf, params.negative, job.negativePrompt);
+
+  const [w, h] = parseSize(job.sourceSize);
+  setTargets(wf, params.scale, job.scale);
+  setTargets(wf, params.width, Math.round(w * job.scale));
+  setTargets(wf, params.height, Math.round(h * job.scale));
+  if (job.denoise !== null) setTargets(wf, params.denoise, job.denoise);
+  if (job.tileSize !== null) setTargets(wf, params.tileSize, job.tileSize);
+
+  logger.debug({ jobId: job.id, workflow: def.manifest.id }, "Upscale workflow bound");
   return { ok: true, workflow: wf };
 }
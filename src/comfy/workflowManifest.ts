@@ -0,0 +1,556 @@
+import { readFileSync, readdirSync, watch, type FSWatcher } from "node:fs";
+import { resolve, dirname, relative, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import { getBackends } from "./backendPool.js";
+import { getBackendObjectInfo, getComboOptions } from "./objectInfo.js";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+import type { JobParams } from "../queue/types.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/** Root of the installed workflows; every `*.manifest.json` below it is loaded. */
+export const WORKFLOWS_DIR = resolve(__dirname, "../../workflows");
+
+const MANIFEST_SUFFIX = ".manifest.json";
+
+// ---------------------------------------------------------------------------
+// Manifest schema
+//
+// Each API-format workflow `<name>.json` has a `<name>.manifest.json` beside it
+// that says where the bot writes each job parameter: a list of node ID + input
+// field targets per logical parameter. The generic binder (workflowBinder.ts)
+// needs nothing else, so adding a workflow means adding these two files.
+// ---------------------------------------------------------------------------
+
+const TargetSchema = z.object({
+  node: z.string().min(1),
+  field: z.string().min(1),
+}).strict();
+
+const TargetsSchema = z.array(TargetSchema).min(1);
+
+/** A node output, as ComfyUI writes links: [node ID, output index]. */
+const LinkSchema = z.tuple([z.string().min(1), z.number().int().min(0)]);
+
+const ManifestBase = {
+  /** Stable identifier, stored on job rows and used by GEN_WORKFLOW / UPSCALE_WORKFLOW. */
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "must be lowercase letters, digits, - or _"),
+  // Select-menu text — Discord caps both at 100 characters
+  label: z.string().min(1).max(100),
+  description: z.string().max(100).optional(),
+  /** Run time relative to the reference job COMFY_TIMEOUT_MS is sized for. */
+  timeoutFactor: z.number().positive().default(1),
+};
+
+const GenManifestSchema = z.object({
+  ...ManifestBase,
+  kind: z.literal("gen"),
+  params: z.object({
+    model: TargetsSchema,
+    positive: TargetsSchema, // prompt plus LoRA trigger words
+    negative: TargetsSchema,
+    seed: TargetsSchema,
+    steps: TargetsSchema,
+    cfg: TargetsSchema,
+    sampler: TargetsSchema,
+    scheduler: TargetsSchema,
+    width: TargetsSchema,
+    height: TargetsSchema,
+    batchSize: TargetsSchema.optional(), // without it the workflow makes one image per job
+    denoise: TargetsSchema.optional(), // required with img2img
+  }).strict(),
+  /**
+   * LoRA attach point: LoraLoader nodes are chained from this node's MODEL (0)
+   * and CLIP (1) outputs, and everything that used those outputs is re-pointed
+   * to the end of the chain. Without it the workflow does not take LoRAs.
+   */
+  loras: z.object({ node: z.string().min(1) }).strict().optional(),
+  /**
+   * Image-to-image: the source image is loaded, scaled to the job's size and
+   * VAE-encoded with `vae` (a [node, output] link), and everything that used
+   * the `latent` node's output replaced with it. Without it the workflow is
+   * text-to-image only.
+   */
+  img2img: z.object({
+    latent: z.string().min(1),
+    vae: LinkSchema,
+  }).strict().optional(),
+  /**
+   * ControlNet: the positive and negative conditioning ([node, output] links)
+   * are run through ControlNetApplyAdvanced, and everything that used them is
+   * re-pointed to its outputs. Without it the workflow takes no ControlNet.
+   */
+  controlNet: z.object({
+    positive: LinkSchema,
+    negative: LinkSchema,
+  }).strict().optional(),
+}).strict();
+
+const InpaintManifestSchema = z.object({
+  ...ManifestBase,
+  kind: z.literal("inpaint"),
+  params: z.object({
+    model: TargetsSchema,
+    positive: TargetsSchema,
+    negative: TargetsSchema,
+    seed: TargetsSchema,
+    steps: TargetsSchema,
+    cfg: TargetsSchema,
+    sampler: TargetsSchema,
+    scheduler: TargetsSchema,
+    denoise: TargetsSchema,
+    image: TargetsSchema, // source image, as uploaded
+    mask: TargetsSchema, // mask image, as uploaded — white = repaint
+    grow: TargetsSchema, // pixels to grow the mask by
+    feather: TargetsSchema, // blur radius of the mask edge
+  }).strict(),
+  loras: z.object({ node: z.string().min(1) }).strict().optional(), // as for gen
+}).strict();
+
+const UpscaleManifestSchema = z.object({
+  ...ManifestBase,
+  kind: z.literal("upscale"),
+  params: z.object({
+    image: TargetsSchema, // filename returned by /upload/image
+    upscaleModel: TargetsSchema,
+    scale: TargetsSchema.optional(), // scale factor, for workflows that upscale by a factor
+    width: TargetsSchema.optional(), // source size × scale, for workflows that resize to a target size
+    height: TargetsSchema.optional(),
+    model: TargetsSchema.optional(), // checkpoint of the source job, for re-sampling workflows
+    positive: TargetsSchema.optional(),
+    negative: TargetsSchema.optional(),
+    denoise: TargetsSchema.optional(), // offered on the upscale form when present
+    tileSize: TargetsSchema.optional(), // tile width and height, for tiled workflows; offered when present
+  }).strict(),
+}).strict();
+
+const ManifestSchema = z.discriminatedUnion("kind", [GenManifestSchema, InpaintManifestSchema, UpscaleManifestSchema]);
+
+export type WorkflowTarget = z.infer<typeof TargetSchema>;
+export type GenWorkflowManifest = z.infer<typeof GenManifestSchema>;
+export type InpaintWorkflowManifest = z.infer<typeof InpaintManifestSchema>;
+export type UpscaleWorkflowManifest = z.infer<typeof UpscaleManifestSchema>;
+export type WorkflowManifest = z.infer<typeof ManifestSchema>;
+export type WorkflowKind = WorkflowManifest["kind"];
+
+export interface WorkflowDefinition<M extends WorkflowManifest = WorkflowManifest> {
+  manifest: M;
+  /** The API-format graph. Shared between jobs — binders deep-clone it before writing. */
+  graph: Record<string, unknown>;
+  /** Workflow file path relative to workflows/, for messages. */
+  file: string;
+}
+
+// ---------------------------------------------------------------------------
+// Loading and structural validation
+// ---------------------------------------------------------------------------
+
+function findManifests(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return findManifests(path);
+    return entry.name.endsWith(MANIFEST_SUFFIX) ? [path] : [];
+  });
+}
+
+function readJson(path: string): unknown {
+  return JSON.parse(readFileSync(path, "utf-8")) as unknown;
+}
+
+/** Read one manifest and the workflow beside it. Throws with a readable message. */
+function loadDefinition(manifestPath: string): WorkflowDefinition {
+  const parsed = ManifestSchema.safeParse(readJson(manifestPath));
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map((i) => `${i.path.join(".") || "manifest"}: ${i.message}`).join("; "));
+  }
+  const workflowPath = manifestPath.slice(0, -MANIFEST_SUFFIX.length) + ".json";
+  const graph = readJson(workflowPath);
+  if (typeof graph !== "object" || graph === null || Array.isArray(graph)) {
+    throw new Error(`${relative(WORKFLOWS_DIR, workflowPath)} is not a plain object`);
+  }
+  return { manifest: parsed.data, graph: graph as Record<string, unknown>, file: relative(WORKFLOWS_DIR, workflowPath) };
+}
+
+function nodeInputs(graph: Record<string, unknown>, nodeId: string): Record<string, unknown> | null {
+  const node = graph[nodeId];
+  if (typeof node !== "object" || node === null) return null;
+  const inputs = (node as Record<string, unknown>).inputs;
+  if (typeof inputs !== "object" || inputs === null) return null;
+  return inputs as Record<string, unknown>;
+}
+
+/**
+ * Check that every node and input field the manifest targets exists in the
+ * graph. Returns every problem found; an empty list means the pair is usable.
+ */
+export function checkWorkflow(def: WorkflowDefinition): string[] {
+  const problems: string[] = [];
+  const params: Record<string, WorkflowTarget[] | undefined> = def.manifest.params;
+  for (const [param, targets] of Object.entries(params)) {
+    for (const { node, field } of targets ?? []) {
+      const inputs = nodeInputs(def.graph, node);
+      if (!inputs) {
+        problems.push(`${param}: node "${node}" is missing or has no inputs`);
+      } else if (inputs[field] === undefined || inputs[field] === null) {
+        problems.push(`${param}: node "${node}" inputs.${field} is missing or null`);
+      }
+    }
+  }
+  if (def.manifest.kind !== "upscale" && def.manifest.loras && !nodeInputs(def.graph, def.manifest.loras.node)) {
+    problems.push(`loras: node "${def.manifest.loras.node}" is missing`);
+  }
+  if (def.manifest.kind === "gen" && def.manifest.img2img) {
+    const { latent, vae } = def.manifest.img2img;
+    if (!nodeInputs(def.graph, latent)) problems.push(`img2img: latent node "${latent}" is missing`);
+    if (!nodeInputs(def.graph, vae[0])) problems.push(`img2img: vae node "${vae[0]}" is missing`);
+    if (!def.manifest.params.denoise) problems.push("img2img: params.denoise is required");
+  }
+  if (def.manifest.kind === "gen" && def.manifest.controlNet) {
+    for (const [side, [node]] of Object.entries(def.manifest.controlNet)) {
+      if (!nodeInputs(def.graph, node)) problems.push(`controlNet: ${side} node "${node}" is missing`);
+    }
+  }
+  return problems;
+}
+
+// ---------------------------------------------------------------------------
+// Checking against installed nodes and models
+// ---------------------------------------------------------------------------
+
+/** Allowed values listed in a problem message before it is cut short. */
+const MAX_LISTED_OPTIONS = 5;
+
+/** Node classes the binder adds for image-to-image jobs. */
+const IMG2IMG_CLASSES = ["LoadImage", "ImageScale", "VAEEncode", "RepeatLatentBatch"];
+/** Node classes the binder adds for ControlNet jobs; preprocessors are optional. */
+const CONTROLNET_CLASSES = ["LoadImage", "ControlNetLoader", "ControlNetApplyAdvanced"];
+
+/**
+ * Check a workflow against one backend's object_info: every node's class must
+ * be installed and every literal combo value (checkpoint, detector model, enum
+ * setting…) must be one the backend offers. Inputs the binder fills per job are
+ * skipped, except the upscale model, which is checked as UPSCALE_MODEL — the
+ * form's default. Returns every problem found.
+ */
+export function checkWorkflowInstalled(def: WorkflowDefinition, objectInfo: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+
+  const bound = new Map<string, unknown>();
+  const params: Record<string, WorkflowTarget[] | undefined> = def.manifest.params;
+  for (const [param, targets] of Object.entries(params)) {
+    for (const { node, field } of targets ?? []) {
+      bound.set(`${node}.${field}`, param === "upscaleModel" ? config.upscale.model : undefined);
+    }
+  }
+
+  for (const [nodeId, node] of Object.entries(def.graph)) {
+    const classType = (node as { class_type?: unknown } | null)?.class_type;
+    if (typeof classType !== "string") {
+      problems.push(`node "${nodeId}": no class_type`);
+      continue;
+    }
+    if (!(classType in objectInfo)) {
+      problems.push(`node "${nodeId}": ${classType} is not installed`);
+      continue;
+    }
+    for (const [field, literal] of Object.entries(nodeInputs(def.graph, nodeId) ?? {})) {
+      const key = `${nodeId}.${field}`;
+      const value = bound.has(key) ? bound.get(key) : literal;
+      if (typeof value !== "string") continue; // a link, a number, or set per job
+      const options = getComboOptions(objectInfo, classType, field);
+      if (!options || options.includes(value)) continue;
+      const listed = options.slice(0, MAX_LISTED_OPTIONS).join(", ") + (options.length > MAX_LISTED_OPTIONS ? ", …" : "");
+      problems.push(`node "${nodeId}" (${classType}): ${field} "${value}" is not available (${listed || "none installed"})`);
+    }
+  }
+
+  if (def.manifest.kind !== "upscale" && def.manifest.loras && !("LoraLoader" in objectInfo)) {
+    problems.push("loras: LoraLoader is not installed");
+  }
+  if (def.manifest.kind === "gen" && def.manifest.img2img) {
+    for (const classType of IMG2IMG_CLASSES) {
+      if (!(classType in objectInfo)) problems.push(`img2img: ${classType} is not installed`);
+    }
+  }
+  if (def.manifest.kind === "gen" && def.manifest.controlNet) {
+    for (const classType of CONTROLNET_CLASSES) {
+      if (!(classType in objectInfo)) problems.push(`controlNet: ${classType} is not installed`);
+    }
+  }
+  return problems;
+}
+
+/** object_info of every healthy backend that answers, keyed by URL. */
+async function readObjectInfos(): Promise<Map<string, Record<string, unknown>>> {
+  const objectInfos = new Map<string, Record<string, unknown>>();
+  for (const backend of getBackends()) {
+    if (!backend.healthy) continue;
+    try {
+      objectInfos.set(backend.url, await getBackendObjectInfo(backend));
+    } catch (err) {
+      logger.warn({ url: backend.url, err }, "Could not read object_info to check workflows");
+    }
+  }
+  return objectInfos;
+}
+
+/** Problems on each backend, prefixed with its URL; usable if at least one backend (or none checked) has none. */
+function installedProblems(
+  def: WorkflowDefinition,
+  objectInfos: Map<string, Record<string, unknown>>,
+): { problems: string[]; usable: boolean } {
+  const problems: string[] = [];
+  let usable = objectInfos.size === 0;
+  for (const [url, objectInfo] of objectInfos) {
+    const backendProblems = checkWorkflowInstalled(def, objectInfo);
+    if (backendProblems.length === 0) usable = true;
+    problems.push(...backendProblems.map((p) => `${url}: ${p}`));
+  }
+  return { problems, usable };
+}
+
+export interface InstalledWorkflowReport {
+  /** Backends whose object_info was checked. */
+  checked: number;
+  /** Problems per workflow id, each prefixed with the backend it concerns. */
+  problems: Map<string, string[]>;
+  /** Workflows that no checked backend can run. */
+  unusable: string[];
+}
+
+/**
+ * Check every loaded workflow against the object_info of each healthy backend.
+ * A workflow is only unusable if it fails on all of them; backends that cannot
+ * be read are left out.
+ */
+export async function checkInstalledWorkflows(): Promise<InstalledWorkflowReport> {
+  const objectInfos = await readObjectInfos();
+  const problems = new Map<string, string[]>();
+  const unusable: string[] = [];
+  for (const def of listWorkflows()) {
+    const installed = installedProblems(def, objectInfos);
+    if (installed.problems.length > 0) problems.set(def.manifest.id, installed.problems);
+    if (!installed.usable) unusable.push(def.manifest.id);
+  }
+  return { checked: objectInfos.size, problems, unusable };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+//
+// The registry map is replaced wholesale on reload, never edited in place, so a
+// reader always sees one consistent set. Definitions are immutable: a job that
+// holds one keeps that version however often the files change underneath it.
+// ---------------------------------------------------------------------------
+
+let _definitions: Map<string, WorkflowDefinition> | null = null;
+let _loadErrors: string[] = [];
+
+interface WorkflowScan {
+  definitions: Map<string, WorkflowDefinition>;
+  errors: string[];
+  /** Workflow files (relative to workflows/) whose manifest was found, valid or not. */
+  files: Set<string>;
+  /** Of those, the files left out because of an error. */
+  rejectedFiles: Set<string>;
+}
+
+/** Read and structurally check every manifest under workflows/. */
+function scanWorkflows(): WorkflowScan {
+  const scan: WorkflowScan = { definitions: new Map(), errors: [], files: new Set(), rejectedFiles: new Set() };
+  for (const manifestPath of findManifests(WORKFLOWS_DIR)) {
+    const name = relative(WORKFLOWS_DIR, manifestPath);
+    const file = relative(WORKFLOWS_DIR, manifestPath.slice(0, -MANIFEST_SUFFIX.length) + ".json");
+    scan.files.add(file);
+    let def: WorkflowDefinition;
+    try {
+      def = loadDefinition(manifestPath);
+    } catch (err) {
+      scan.errors.push(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+      scan.rejectedFiles.add(file);
+      continue;
+    }
+    const existing = scan.definitions.get(def.manifest.id);
+    if (existing) {
+      scan.errors.push(`${name}: workflow id "${def.manifest.id}" is already used by ${existing.file}`);
+      scan.rejectedFiles.add(file);
+      continue;
+    }
+    const problems = checkWorkflow(def);
+    if (problems.length > 0) {
+      scan.errors.push(...problems.map((p) => `${def.file}: ${p}`));
+      scan.rejectedFiles.add(file);
+      continue;
+    }
+    scan.definitions.set(def.manifest.id, def);
+  }
+  return scan;
+}
+
+/** Load every manifest under workflows/. Broken ones are left out and reported by workflowLoadErrors(). */
+function definitions(): Map<string, WorkflowDefinition> {
+  if (_definitions) return _definitions;
+
+  const scan = scanWorkflows();
+  _definitions = scan.definitions;
+  _loadErrors = scan.errors;
+  logger.debug({ workflows: [..._definitions.keys()], errors: _loadErrors.length }, "Workflow manifests loaded");
+  return _definitions;
+}
+
+/** Valid workflows, optionally of one kind, in discovery order. */
+export function listWorkflows<K extends WorkflowKind>(kind?: K): WorkflowDefinition<Extract<WorkflowManifest, { kind: K }>>[] {
+  return [...definitions().values()].filter(
+    (def): def is WorkflowDefinition<Extract<WorkflowManifest, { kind: K }>> => !kind || def.manifest.kind === kind,
+  );
+}
+
+/** A valid workflow of the given kind, or undefined if none has that id. */
+export function getWorkflow<K extends WorkflowKind>(
+  id: string,
+  kind: K,
+): WorkflowDefinition<Extract<WorkflowManifest, { kind: K }>> | undefined {
+  const def = definitions().get(id);
+  return def && def.manifest.kind === kind
+    ? (def as WorkflowDefinition<Extract<WorkflowManifest, { kind: K }>>)
+    : undefined;
+}
+
+/** The workflow a gen job runs on: its inpaint workflow if it has a mask, else its gen workflow. */
+export function jobWorkflow(
+  job: Pick<JobParams, "workflow" | "mask">,
+): WorkflowDefinition<GenWorkflowManifest | InpaintWorkflowManifest> | undefined {
+  return job.mask ? getWorkflow(job.workflow, "inpaint") : getWorkflow(job.workflow, "gen");
+}
+
+/** Take a workflow out of the registry, e.g. because no backend can run it. */
+export function disableWorkflow(id: string, problems: string[]): void {
+  const current = definitions();
+  const def = current.get(id);
+  if (!def) return;
+  const next = new Map(current);
+  next.delete(id);
+  _definitions = next;
+  _loadErrors = [..._loadErrors, ...problems.map((p) => `${def.file}: ${p}`)];
+}
+
+/** Problems that kept manifests out of the registry, prefixed with the file they concern. */
+export function workflowLoadErrors(): readonly string[] {
+  definitions();
+  return _loadErrors;
+}
+
+// ---------------------------------------------------------------------------
+// Hot reload
+// ---------------------------------------------------------------------------
+
+export interface WorkflowReload {
+  /** Workflows added or changed on disk and now live. */
+  changed: string[];
+  /** Workflows whose files were deleted. */
+  removed: string[];
+  /** Problems not reported before, each prefixed with its file. Rejected files keep their previous version live. */
+  rejected: string[];
+}
+
+type WorkflowReloadListener = (reload: WorkflowReload) => void;
+
+const _reloadListeners: WorkflowReloadListener[] = [];
+
+export function onWorkflowReload(listener: WorkflowReloadListener): void {
+  _reloadListeners.push(listener);
+}
+
+function sameDefinition(a: WorkflowDefinition, b: WorkflowDefinition): boolean {
+  return a.file === b.file && JSON.stringify([a.manifest, a.graph]) === JSON.stringify([b.manifest, b.graph]);
+}
+
+/**
+ * Re-read every workflow from disk and run the full validation — structure and
+ * each healthy backend's object_info — then swap the result in as one new
+ * registry. A file that fails keeps its previous version live, as does the
+ * configured default gen, inpaint or upscale workflow if its files are deleted.
+ */
+export async function reloadWorkflows(): Promise<WorkflowReload> {
+  const scan = scanWorkflows();
+  const objectInfos = await readObjectInfos();
+  const previous = definitions();
+  const previousErrors = new Set(_loadErrors);
+
+  const next = new Map<string, WorkflowDefinition>();
+  const errors = [...scan.errors];
+  for (const def of scan.definitions.values()) {
+    const installed = installedProblems(def, objectInfos);
+    if (!installed.usable) {
+      errors.push(...installed.problems.map((p) => `${def.file}: ${p}`));
+      scan.rejectedFiles.add(def.file);
+      continue;
+    }
+    const old = previous.get(def.manifest.id);
+    next.set(def.manifest.id, old && sameDefinition(old, def) ? old : def);
+  }
+
+  const defaults: Record<WorkflowKind, string> = {
+    gen: config.gen.workflow,
+    inpaint: config.inpaint.workflow,
+    upscale: config.upscale.workflow,
+  };
+  const isDefault = (def: WorkflowDefinition): boolean => def.manifest.id === defaults[def.manifest.kind];
+  for (const old of previous.values()) {
+    if (next.has(old.manifest.id)) continue;
+    if (scan.rejectedFiles.has(old.file)) {
+      next.set(old.manifest.id, old);
+    } else if (!scan.files.has(old.file) && isDefault(old)) {
+      next.set(old.manifest.id, old);
+      errors.push(`${old.file}: deleted, but "${old.manifest.id}" is the configured default — keeping the loaded version`);
+    }
+  }
+
+  _definitions = next;
+  _loadErrors = errors;
+
+  const reload: WorkflowReload = {
+    changed: [...next.values()].filter((def) => previous.get(def.manifest.id) !== def).map((def) => def.manifest.id),
+    removed: [...previous.keys()].filter((id) => !next.has(id)),
+    rejected: errors.filter((e) => !previousErrors.has(e)),
+  };
+  logger.info(reload, "Workflows reloaded");
+  if (reload.changed.length > 0 || reload.removed.length > 0 || reload.rejected.length > 0) {
+    for (const listener of _reloadListeners) listener(reload);
+  }
+  return reload;
+}
+
+/** Quiet period after the last file event before reloading — editors write in bursts. */
+const RELOAD_DEBOUNCE_MS = 500;
+
+let _watcher: FSWatcher | null = null;
+let _reloadTimer: NodeJS.Timeout | null = null;
+let _reloading: Promise<unknown> = Promise.resolve();
+
+/** Watch workflows/ and reload after any `.json` file in it changes. */
+export function watchWorkflows(): void {
+  if (_watcher) return;
+  _watcher = watch(WORKFLOWS_DIR, { recursive: true }, (_event, filename) => {
+    if (filename && !filename.endsWith(".json")) return;
+    if (_reloadTimer) clearTimeout(_reloadTimer);
+    _reloadTimer = setTimeout(() => {
+      _reloadTimer = null;
+      // One reload at a time, so an older scan can never overwrite a newer one
+      _reloading = _reloading
+        .then(reloadWorkflows)
+        .catch((err: unknown) => logger.error({ err }, "Workflow reload failed"));
+    }, RELOAD_DEBOUNCE_MS);
+  });
+  _watcher.on("error", (err) => logger.error({ err }, "Workflow file watcher failed"));
+  logger.info({ dir: WORKFLOWS_DIR }, "Watching workflow files for changes");
+}
+
+export function stopWatchingWorkflows(): void {
+  if (_reloadTimer) clearTimeout(_reloadTimer);
+  _reloadTimer = null;
+  _watcher?.close();
+  _watcher = null;
+}
@@ -32,15 +32,40 @@ const ConfigSchema = z.object({
   DISCORD_GUILD_ID: z.string().min(1, "DISCORD_GUILD_ID is required"),
   ALLOWED_CHANNEL_IDS: z.string().min(1, "ALLOWED_CHANNEL_IDS is required"),
   COMFY_BASE_URL: z.string().url("COMFY_BASE_URL must be a valid URL").default("http://127.0.0.1:8188"),
+  // Comma-separated backend list: "http://gpu1:8188|2,http://gpu2:8188" (|N = concurrency).
+  // When unset, COMFY_BASE_URL is the only backend.
+  COMFY_BACKENDS: z.string().optional(),
+  // Run-time budget for a reference job; scaled per job by queue/timeouts.ts.
   COMFY_TIMEOUT_MS: z.coerce.number().int().positive().default(300_000),
-  QUEUE_CONCURRENCY: z.coerce.number().int().min(1).max(1).default(1),
+  COMFY_HEALTH_INTERVAL_MS: z.coerce.number().int().positive().default(30_000),
+  QUEUE_CONCURRENCY: z.coerce.number().int().min(1).default(1),
+  // Max jobs a single user may have waiting in the queue at once (0 = unlimited).
+  QUEUE_MAX_PER_USER: z.coerce.number().int().min(0).default(3),
+  // Comma-separated "roleId:weight" pairs — users with a weighted role get that many
+  // jobs per turn of the round-robin. Users without one get weight 1.
+  QUEUE_ROLE_WEIGHTS: z.string().default(""),
+  // Total tries for a job that hits transient ComfyUI errors (network, 5xx); 1 = never retry.
+  JOB_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(3),
+  // Delay before the first retry; doubles on each further attempt.
+  JOB_RETRY_BASE_MS: z.coerce.number().int().positive().default(5_000),
+  // On SIGTERM/SIGINT, how long to wait for running jobs to finish and post (0 = don't wait).
+  // Keep it below the process manager's stop timeout (systemd TimeoutStopSec, pm2 kill_timeout).
+  SHUTDOWN_GRACE_MS: z.coerce.number().int().min(0).default(90_000),
   DB_PATH: z.string().default("./data/comfygen.db"),
   LOG_LEVEL: z.enum(["trace", "debug", "info", "warn", "error", "fatal"]).default("info"),
   DEFAULT_NEGATIVE_PROMPT: z.string().default(""),
   UPSCALE_MODEL: z.string().default("RealESRGAN_x4plus_anime_6B.pth"),
-  UPSCALE_WORKFLOW: z.enum(["ultimate", "simple"]).default("ultimate"),
+  // Workflow ids from workflows/**/*.manifest.json; checked against the loaded manifests at startup
+  UPSCALE_WORKFLOW: z.string().min(1).default("ultimate"),
+  GEN_WORKFLOW: z.string().min(1).default("multisampler"),
+  // Inpaint workflow id used by /inpaint; if it is not installed, /inpaint is unavailable.
+  INPAINT_WORKFLOW: z.string().min(1).default("inpaint"),
+  // Largest custom width×height allowed on the gen form, in megapixels.
+  MAX_MEGAPIXELS: z.coerce.number().positive().default(2.5),
+  // Resolution profile per checkpoint as `pattern:profile` pairs, first match wins; `*` matches
+  // anything, case-insensitive. Profiles: sdxl (1024-class sizes) and sd15 (512-class). Default sdxl.
+  MODEL_RESOLUTION_PROFILES: z.string().default("*sd15*:sd15,*sd1.5*:sd15,*sd_1.5*:sd15,*v1-5*:sd15"),
   UPSCALE_ENABLED: z.preprocess((v) => v !== "false" && v !== "0" && v !== "", z.boolean()).default(true),
-  GEN_WORKFLOW: z.enum(["multisampler", "wildcard"]).default("multisampler"),
   OWNER_ID: z.string().min(1, "OWNER_ID is required"),
   PURGE_MAX_AGE_HOURS: z.coerce.number().int().positive().default(48),
   PURGE_INTERVAL_HOURS: z.coerce.number().int().positive().default(6),
@@ -57,6 +82,80 @@ if (!parsed.success) {
 
 const env = parsed.data;
 
+export interface BackendConfig {
+  url: string;
+  concurrency: number;
+}
+
+/** Parse COMFY_BACKENDS entries of the form `url` or `url|concurrency`. */
+function parseBackends(raw: string | undefined): BackendConfig[] {
+  if (!raw?.trim()) {
+    return [{ url: env.COMFY_BASE_URL.replace(/\/$/, ""), concurrency: env.QUEUE_CONCURRENCY }];
+  }
+  const backends: BackendConfig[] = [];
+  const issues: string[] = [];
+  for (const entry of raw.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const [urlPart, concurrencyPart] = entry.split("|").map((s) => s.trim());
+    const url = z.string().url().safeParse(urlPart);
+    const concurrency = z.coerce.number().int().min(1).safeParse(concurrencyPart ?? env.QUEUE_CONCURRENCY);
+    if (!url.success) issues.push(`  • COMFY_BACKENDS: "${urlPart}" is not a valid URL`);
+    else if (!concurrency.success) issues.push(`  • COMFY_BACKENDS: "${entry}" has an invalid concurrency`);
+    else backends.push({ url: url.data.replace(/\/$/, ""), concurrency: concurrency.data });
+  }
+  if (issues.length > 0 || backends.length === 0) {
+    if (backends.length === 0 && issues.length === 0) issues.push("  • COMFY_BACKENDS: no backends listed");
+    process.stderr.write(`[config] Fatal: invalid environment configuration:\n${issues.join("\n")}\n`);
+    process.exit(1);
+  }
+  return backends;
+}
+
+/** Parse QUEUE_ROLE_WEIGHTS entries of the form `roleId:weight`. */
+function parseRoleWeights(raw: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+  const issues: string[] = [];
+  for (const entry of raw.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const [roleId, weightPart] = entry.split(":").map((s) => s.trim());
+    const weight = z.coerce.number().int().min(1).safeParse(weightPart);
+    if (!roleId || !weight.success) issues.push(`  • QUEUE_ROLE_WEIGHTS: "${entry}" must be roleId:weight (weight ≥ 1)`);
+    else weights[roleId] = weight.data;
+  }
+  if (issues.length > 0) {
+    process.stderr.write(`[config] Fatal: invalid environment configuration:\n${issues.join("\n")}\n`);
+    process.exit(1);
+  }
+  return weights;
+}
+
+export const RESOLUTION_PROFILES = ["sdxl", "sd15"] as const;
+
+export interface ModelProfileRule {
+  pattern: RegExp;
+  profile: (typeof RESOLUTION_PROFILES)[number];
+}
+
+/** Parse MODEL_RESOLUTION_PROFILES entries of the form `pattern:profile`. */
+function parseModelProfiles(raw: string): ModelProfileRule[] {
+  const rules: ModelProfileRule[] = [];
+  const issues: string[] = [];
+  for (const entry of raw.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const sep = entry.lastIndexOf(":");
+    const pattern = entry.slice(0, sep).trim();
+    const profile = z.enum(RESOLUTION_PROFILES).safeParse(entry.slice(sep + 1).trim());
+    if (sep <= 0 || !pattern || !profile.success) {
+      issues.push(`  • MODEL_RESOLUTION_PROFILES: "${entry}" must be pattern:profile (${RESOLUTION_PROFILES.join(" or ")})`);
+      continue;
+    }
+    const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    rules.push({ pattern: new RegExp(`^${source}$`, "i"), profile: profile.data });
+  }
+  if (issues.length > 0) {
+    process.stderr.write(`[config] Fatal: invalid environment configuration:\n${issues.join("\n")}\n`);
+    process.exit(1);
+  }
+  return rules;
+}
+
 export const config = {
   discord: {
     token: env.DISCORD_TOKEN,
@@ -66,6 +165,11 @@ export const config = {
   },
   gen: {
     workflow: env.GEN_WORKFLOW,
+    maxMegapixels: env.MAX_MEGAPIXELS,
+    modelProfiles: parseModelProfiles(env.MODEL_RESOLUTION_PROFILES),
+  },
+  inpaint: {
+    workflow: env.INPAINT_WORKFLOW,
   },
   upscale: {
     enabled: env.UPSCALE_ENABLED,
@@ -73,11 +177,17 @@ export const config = {
     workflow: env.UPSCALE_WORKFLOW,
   },
   comfy: {
-    baseUrl: env.COMFY_BASE_URL.replace(/\/$/, ""),
+    backends: parseBackends(env.COMFY_BACKENDS),
     timeoutMs: env.COMFY_TIMEOUT_MS,
+    healthIntervalMs: env.COMFY_HEALTH_INTERVAL_MS,
   },
   queue: {
     concurrency: env.QUEUE_CONCURRENCY,
+    maxPerUser: env.QUEUE_MAX_PER_USER,
+    roleWeights: parseRoleWeights(env.QUEUE_ROLE_WEIGHTS),
+    maxAttempts: env.JOB_MAX_ATTEMPTS,
+    retryBaseMs: env.JOB_RETRY_BASE_MS,
+    shutdownGraceMs: env.SHUTDOWN_GRACE_MS,
   },
   db: {
     path: env.DB_PATH,
@@ -0,0 +1,92 @@
+import { getDb } from "./database.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AdminAction =
+  | "pause"
+  | "resume"
+  | "clear"
+  | "bump"
+  | "fail"
+  | "refresh"
+  | "maintenance-on"
+  | "maintenance-off";
+
+export interface AuditEntry {
+  id: number;
+  actorId: string;
+  action: AdminAction;
+  detail: string | null;
+  createdAt: number;
+}
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+const KEY_QUEUE_PAUSED = "queue_paused";
+const KEY_MAINTENANCE_MESSAGE = "maintenance_message";
+
+function getSetting(key: string): string | null {
+  const row = getDb().prepare("SELECT value FROM bot_settings WHERE key = ?").get(key) as
+    | { value: string }
+    | undefined;
+  return row?.value ?? null;
+}
+
+/** Store a setting, or delete it (back to the default) when `value` is null. */
+function setSetting(key: string, value: string | null, updatedBy: string): void {
+  if (value === null) {
+    getDb().prepare("DELETE FROM bot_settings WHERE key = ?").run(key);
+    return;
+  }
+  getDb().prepare(`
+    INSERT INTO bot_settings (key, value, updated_by, updated_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET
+      value = excluded.value,
+      updated_by = excluded.updated_by,
+      updated_at = excluded.updated_at
+  `).run(key, value, updatedBy, Date.now());
+}
+
+export function isQueuePaused(): boolean {
+  return getSetting(KEY_QUEUE_PAUSED) === "1";
+}
+
+export function setQueuePaused(paused: boolean, updatedBy: string): void {
+  setSetting(KEY_QUEUE_PAUSED, paused ? "1" : null, updatedBy);
+}
+
+/** The reply shown to /gen while maintenance mode is on, or null when it is off. */
+export function getMaintenanceMessage(): string | null {
+  return getSetting(KEY_MAINTENANCE_MESSAGE);
+}
+
+export function setMaintenanceMessage(message: string | null, updatedBy: string): void {
+  setSetting(KEY_MAINTENANCE_MESSAGE, message, updatedBy);
+}
+
+// ---------------------------------------------------------------------------
+// Audit log
+// ---------------------------------------------------------------------------
+
+export function recordAudit(actorId: string, action: AdminAction, detail: string | null = null): void {
+  getDb().prepare(`
+    INSERT INTO admin_audit (actor_id, action, detail, created_at) VALUES (?, ?, ?, ?)
+  `).run(actorId, action, detail, Date.now());
+}
+
+export function listAudit(limit: number): AuditEntry[] {
+  const rows = getDb().prepare(
+    "SELECT * FROM admin_audit ORDER BY created_at DESC, id DESC LIMIT ?",
+  ).all(limit) as Record<string, unknown>[];
+  return rows.map((row) => ({
+    id: row.id as number,
+    actorId: row.actor_id as string,
+    action: row.action as AdminAction,
+    detail: (row.detail as string | null) ?? null,
+    createdAt: row.created_at as number,
+  }));
+}
@@ -62,6 +62,90 @@ function runMigrations(db: Database.Database): void {
   const sql006 = readFileSync(`${migrationDir}/006_banned_words.sql`, "utf-8");
   db.exec(sql006);
 
+  // 007 — add backend_url to jobs and upscale_jobs (guard against duplicate ALTER TABLE)
+  const cols007 = db.prepare("PRAGMA table_info(jobs)").all() as { name: string }[];
+  if (!cols007.some((c) => c.name === "backend_url")) {
+    const sql007 = readFileSync(`${migrationDir}/007_backend_url.sql`, "utf-8");
+    db.exec(sql007);
+    logger.info("Migration 007: backend_url columns added");
+  }
+
+  // 008 — add attempts/last_error to jobs and upscale_jobs (guard against duplicate ALTER TABLE)
+  const cols008 = db.prepare("PRAGMA table_info(jobs)").all() as { name: string }[];
+  if (!cols008.some((c) => c.name === "attempts")) {
+    const sql008 = readFileSync(`${migrationDir}/008_job_attempts.sql`, "utf-8");
+    db.exec(sql008);
+    logger.info("Migration 008: attempts/last_error columns added");
+  }
+
+  // 009 — quota_tiers / quota_usage tables (CREATE TABLE IF NOT EXISTS — fully idempotent)
+  const sql009 = readFileSync(`${migrationDir}/009_quotas.sql`, "utf-8");
+  db.exec(sql009);
+
+  // 010 — add batch_size to jobs and source_image_index to upscale_jobs (guard against duplicate ALTER TABLE)
+  const cols010 = db.prepare("PRAGMA table_info(jobs)").all() as { name: string }[];
+  if (!cols010.some((c) => c.name === "batch_size")) {
+    const sql010 = readFileSync(`${migrationDir}/010_batch_size.sql`, "utf-8");
+    db.exec(sql010);
+    logger.info("Migration 010: batch_size/source_image_index columns added");
+  }
+
+  // 011 — bot_settings / admin_audit tables (CREATE TABLE IF NOT EXISTS — fully idempotent)
+  const sql011 = readFileSync(`${migrationDir}/011_admin.sql`, "utf-8");
+  db.exec(sql011);
+
+  // 012 — add workflow to jobs (guard against duplicate ALTER TABLE)
+  const cols012 = db.prepare("PRAGMA table_info(jobs)").all() as { name: string }[];
+  if (!cols012.some((c) => c.name === "workflow")) {
+    const sql012 = readFileSync(`${migrationDir}/012_job_workflow.sql`, "utf-8");
+    db.exec(sql012);
+    logger.info("Migration 012: workflow column added");
+  }
+
+  // 013 — size names to dimensions (UPDATE of legacy values only — fully idempotent)
+  const sql013 = readFileSync(`${migrationDir}/013_size_dimensions.sql`, "utf-8");
+  db.exec(sql013);
+
+  // 014 — add img2img source columns to jobs (guard against duplicate ALTER TABLE)
+  const cols014 = db.prepare("PRAGMA table_info(jobs)").all() as { name: string }[];
+  if (!cols014.some((c) => c.name === "source_image")) {
+    const sql014 = readFileSync(`${migrationDir}/014_img2img.sql`, "utf-8");
+    db.exec(sql014);
+    logger.info("Migration 014: source_image/source_backend_url/denoise columns added");
+  }
+
+  // 015 — add inpaint mask columns to jobs (guard against duplicate ALTER TABLE)
+  const cols015 = db.prepare("PRAGMA table_info(jobs)").all() as { name: string }[];
+  if (!cols015.some((c) => c.name === "mask_image")) {
+    const sql015 = readFileSync(`${migrationDir}/015_inpaint.sql`, "utf-8");
+    db.exec(sql015);
+    logger.info("Migration 015: mask_image/mask_grow/mask_feather columns added");
+  }
+
+  // 016 — add ControlNet column to jobs (guard against duplicate ALTER TABLE)
+  const cols016 = db.prepare("PRAGMA table_info(jobs)").all() as { name: string }[];
+  if (!cols016.some((c) => c.name === "control_net")) {
+    const sql016 = readFileSync(`${migrationDir}/016_controlnet.sql`, "utf-8");
+    db.exec(sql016);
+    logger.info("Migration 016: control_net column added");
+  }
+
+  // 017 — add upscale options to upscale_jobs (guard against duplicate ALTER TABLE)
+  const cols017 = db.prepare("PRAGMA table_info(upscale_jobs)").all() as { name: string }[];
+  if (!cols017.some((c) => c.name === "scale")) {
+    const sql017 = readFileSync(`${migrationDir}/017_upscale_options.sql`, "utf-8");
+    db.exec(sql017);
+    logger.info("Migration 017: workflow/scale/denoise/tile_size/source_size columns added to upscale_jobs");
+  }
+
+  // 018 — make upscale_jobs.source_job_id nullable (table rebuild, in one transaction)
+  const cols018 = db.prepare("PRAGMA table_info(upscale_jobs)").all() as { name: string; notnull: number }[];
+  if (cols018.some((c) => c.name === "source_job_id" && c.notnull === 1)) {
+    const sql018 = readFileSync(`${migrationDir}/018_upscale_any_image.sql`, "utf-8");
+    db.transaction(() => db.exec(sql018))();
+    logger.info("Migration 018: upscale_jobs.source_job_id made nullable");
+  }
+
   logger.debug("Database migrations applied");
 }
 
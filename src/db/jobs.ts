@@ -1,5 +1,7 @@
 import { getDb } from "./database.js";
-import type { JobRow, JobParams, JobStatus, ImageSize, LoraParam } from "../queue/types.js";
+import { config } from "../config.js";
+import { DEFAULT_SIZE } from "../queue/sizes.js";
+import type { ControlNetParam, JobRow, JobParams, JobStatus, ImageSize, LoraParam } from "../queue/types.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -19,7 +21,17 @@ function rowToJob(row: Record<string, unknown>): JobRow {
     steps: row.steps as number,
     cfg: row.cfg as number,
     seed: (row.seed as number) ?? 0,
-    size: ((row.size as string) ?? "portrait") as ImageSize,
+    size: ((row.size as string | null) ?? DEFAULT_SIZE) as ImageSize,
+    batchSize: (row.batch_size as number | null) ?? 1,
+    workflow: (row.workflow as string | null) ?? config.gen.workflow,
+    sourceImage: row.source_image
+      ? { filename: row.source_image as string, backendUrl: row.source_backend_url as string }
+      : null,
+    denoise: (row.denoise as number | null) ?? 1,
+    mask: row.mask_image
+      ? { filename: row.mask_image as string, grow: row.mask_grow as number, feather: row.mask_feather as number }
+      : null,
+    controlNet: row.control_net ? (JSON.parse(row.control_net as string) as ControlNetParam) : null,
     positivePrompt: row.positive_prompt as string,
     negativePrompt: row.negative_prompt as string,
     loras: (() => {
@@ -31,8 +43,11 @@ function rowToJob(row: Record<string, unknown>): JobRow {
       }
     })(),
     comfyPromptId: (row.comfy_prompt_id as string | null) ?? null,
+    backendUrl: (row.backend_url as string | null) ?? null,
     outputImages: row.output_images ? JSON.parse(row.output_images as string) : null,
     errorMessage: (row.error_message as string | null) ?? null,
+    attempts: (row.attempts as number | null) ?? 0,
+    lastError: (row.last_error as string | null) ?? null,
     createdAt: row.created_at as number,
     startedAt: (row.started_at as number | null) ?? null,
     completedAt: (row.completed_at as number | null) ?? null,
@@ -49,11 +64,13 @@ export function insertJob(id: string, params: JobParams): JobRow {
   db.prepare(`
     INSERT INTO jobs (
       id, discord_user_id, discord_guild_id, discord_channel_id,
-      status, model, sampler, scheduler, steps, cfg, seed, size,
+      status, model, sampler, scheduler, steps, cfg, seed, size, batch_size, workflow,
+      source_image, source_backend_url, denoise, mask_image, mask_grow, mask_feather, control_net,
       positive_prompt, negative_prompt, loras, created_at
     ) VALUES (
       ?, ?, ?, ?,
-      'queued', ?, ?, ?, ?, ?, ?, ?,
+      'queued', ?, ?, ?, ?, ?, ?, ?, ?, ?,
+      ?, ?, ?, ?, ?, ?, ?,
       ?, ?, ?, ?
     )
   `).run(
@@ -68,6 +85,15 @@ export function insertJob(id: string, params: JobParams): JobRow {
     params.cfg,
     params.seed,
     params.size,
+    params.batchSize,
+    params.workflow,
+    params.sourceImage?.filename ?? null,
+    params.sourceImage?.backendUrl ?? null,
+    params.denoise,
+    params.mask?.filename ?? null,
+    params.mask?.grow ?? null,
+    params.mask?.feather ?? null,
+    params.controlNet ? JSON.stringify(params.controlNet) : null,
     params.positivePrompt,
     params.negativePrompt,
     JSON.stringify((params.loras ?? Array(4).fill(null)).map((l) => l ? { name: l.name, strength: l.strength } : null)),
@@ -76,10 +102,10 @@ export function insertJob(id: string, params: JobParams): JobRow {
   return getJobOrThrow(id);
 }
 
-export function setJobRunning(id: string, comfyPromptId: string): void {
+export function setJobRunning(id: string, comfyPromptId: string, backendUrl: string): void {
   getDb().prepare(`
-    UPDATE jobs SET status = 'running', comfy_prompt_id = ?, started_at = ? WHERE id = ?
-  `).run(comfyPromptId, Date.now(), id);
+    UPDATE jobs SET status = 'running', comfy_prompt_id = ?, backend_url = ?, started_at = ? WHERE id = ?
+  `).run(comfyPromptId, backendUrl, Date.now(), id);
 }
 
 export function setJobCompleted(id: string, outputImages: string[]): void {
@@ -94,6 +120,40 @@ export function setJobFailed(id: string, errorMessage: string): void {
   `).run(errorMessage, Date.now(), id);
 }
 
+/** Count a new run of the job. Returns the attempt number (1-based). */
+export function recordJobAttempt(id: string): number {
+  const row = getDb().prepare(`
+    UPDATE jobs SET attempts = attempts + 1 WHERE id = ? RETURNING attempts
+  `).get(id) as { attempts: number };
+  return row.attempts;
+}
+
+/**
+ * Put a job back to `queued` after a transient failure, keeping the error for diagnostics.
+ * `refundAttempt` un-counts the failed run (used when the backend went down under it).
+ */
+export function setJobRetrying(id: string, lastError: string, refundAttempt = false): void {
+  getDb().prepare(`
+    UPDATE jobs SET status = 'queued', last_error = ?, comfy_prompt_id = NULL, started_at = NULL,
+      attempts = attempts - ? WHERE id = ?
+  `).run(lastError, refundAttempt ? 1 : 0, id);
+}
+
+/**
+ * Note a transient failure while polling a prompt that is already on ComfyUI. It
+ * counts as an attempt, but the row stays `running` with its prompt, which the
+ * runner goes back to polling instead of submitting the job again.
+ */
+export function setJobPollRetrying(id: string, lastError: string): void {
+  getDb().prepare(`UPDATE jobs SET last_error = ?, attempts = attempts + 1 WHERE id = ?`).run(lastError, id);
+}
+
+export function setJobCancelled(id: string): void {
+  getDb().prepare(`
+    UPDATE jobs SET status = 'cancelled', completed_at = ? WHERE id = ?
+  `).run(Date.now(), id);
+}
+
 export function setJobMessageId(id: string, messageId: string): void {
   getDb().prepare(`UPDATE jobs SET discord_message_id = ? WHERE id = ?`).run(messageId, id);
 }
@@ -113,10 +173,33 @@ export function getJobsByStatus(status: JobStatus): JobRow[] {
   return rows.map(rowToJob);
 }
 
-export function countQueuedBefore(id: string): number {
-  const job = getJobOrThrow(id);
-  const result = getDb().prepare(
-    "SELECT COUNT(*) as cnt FROM jobs WHERE status = 'queued' AND created_at < ?",
-  ).get(job.createdAt) as { cnt: number };
-  return result.cnt;
+/** A user's most recent completed gen jobs that still have their output images, newest first. */
+export function getRecentCompletedJobs(userId: string, limit: number): JobRow[] {
+  const rows = getDb().prepare(`
+    SELECT * FROM jobs
+    WHERE discord_user_id = ? AND status = 'completed' AND output_images IS NOT NULL
+    ORDER BY completed_at DESC LIMIT ?
+  `).all(userId, limit) as Record<string, unknown>[];
+  return rows.map(rowToJob);
+}
+
+export interface JobDurationStat {
+  model: string;
+  steps: number;
+  size: string;
+  avgMs: number;
+  samples: number;
+}
+
+/**
+ * Average run time per image (started_at → completed_at, divided by the batch
+ * size) of completed jobs, grouped by model, steps and size.
+ */
+export function getJobDurationStats(): JobDurationStat[] {
+  return getDb().prepare(`
+    SELECT model, steps, size, AVG((completed_at - started_at) * 1.0 / batch_size) AS avgMs, COUNT(*) AS samples
+    FROM jobs
+    WHERE status = 'completed' AND started_at IS NOT NULL AND completed_at IS NOT NULL
+    GROUP BY model, steps, size
+  `).all() as JobDurationStat[];
 }
@@ -1,4 +1,5 @@
 import { getDb } from "./database.js";
+import { purgeQuotaUsage } from "./quotas.js";
 import { logger } from "../logger.js";
 
 export interface PurgeResult {
@@ -7,8 +8,9 @@ export interface PurgeResult {
 }
 
 /**
- * Deletes completed and failed job records older than `maxAgeMs` milliseconds.
+ * Deletes completed, failed and cancelled job records older than `maxAgeMs` milliseconds.
  * `upscale_jobs` rows are removed first to satisfy the FK constraint.
+ * Quota usage older than 24 h is dropped in the same pass.
  * Runs in a single transaction so the DB is never left in a partial state.
  */
 export function purgeOldJobs(maxAgeMs: number): PurgeResult {
@@ -19,7 +21,7 @@ export function purgeOldJobs(maxAgeMs: number): PurgeResult {
     const upscaleResult = db
       .prepare(
         `DELETE FROM upscale_jobs
-         WHERE status IN ('completed', 'failed')
+         WHERE status IN ('completed', 'failed', 'cancelled')
            AND created_at < ?`
       )
       .run(cutoff);
@@ -27,11 +29,14 @@ export function purgeOldJobs(maxAgeMs: number): PurgeResult {
     const jobsResult = db
       .prepare(
         `DELETE FROM jobs
-         WHERE status IN ('completed', 'failed')
+         WHERE status IN ('completed', 'failed', 'cancelled')
            AND created_at < ?`
       )
       .run(cutoff);
 
+    // Quotas only ever look back 24 h
+    purgeQuotaUsage(Date.now() - 24 * 60 * 60 * 1000);
+
     return {
       jobsDeleted: jobsResult.changes,
       upscaleJobsDeleted: upscaleResult.changes,
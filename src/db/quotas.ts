@@ -0,0 +1,91 @@
+import { getDb } from "./database.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Limits for one role. null = unlimited. */
+export interface QuotaTier {
+  roleId: string;
+  jobsPerHour: number | null;
+  jobsPerDay: number | null;
+  /** steps × megapixels per rolling 24 h. */
+  budgetPerDay: number | null;
+  updatedBy: string;
+  updatedAt: number;
+}
+
+export interface QuotaUsage {
+  jobs: number;
+  cost: number;
+  /** Oldest counted entry in the window, or null if there is none. */
+  oldestAt: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Tiers
+// ---------------------------------------------------------------------------
+
+function rowToTier(row: Record<string, unknown>): QuotaTier {
+  return {
+    roleId: row.role_id as string,
+    jobsPerHour: (row.jobs_per_hour as number | null) ?? null,
+    jobsPerDay: (row.jobs_per_day as number | null) ?? null,
+    budgetPerDay: (row.budget_per_day as number | null) ?? null,
+    updatedBy: row.updated_by as string,
+    updatedAt: row.updated_at as number,
+  };
+}
+
+export function upsertQuotaTier(tier: Omit<QuotaTier, "updatedAt">): void {
+  getDb().prepare(`
+    INSERT INTO quota_tiers (role_id, jobs_per_hour, jobs_per_day, budget_per_day, updated_by, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(role_id) DO UPDATE SET
+      jobs_per_hour = excluded.jobs_per_hour,
+      jobs_per_day = excluded.jobs_per_day,
+      budget_per_day = excluded.budget_per_day,
+      updated_by = excluded.updated_by,
+      updated_at = excluded.updated_at
+  `).run(tier.roleId, tier.jobsPerHour, tier.jobsPerDay, tier.budgetPerDay, tier.updatedBy, Date.now());
+}
+
+/** Returns false if the role had no tier. */
+export function deleteQuotaTier(roleId: string): boolean {
+  return getDb().prepare("DELETE FROM quota_tiers WHERE role_id = ?").run(roleId).changes > 0;
+}
+
+export function listQuotaTiers(): QuotaTier[] {
+  const rows = getDb().prepare("SELECT * FROM quota_tiers ORDER BY updated_at ASC").all() as Record<string, unknown>[];
+  return rows.map(rowToTier);
+}
+
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+
+export function recordQuotaUsage(userId: string, jobId: string, kind: "gen" | "upscale", cost: number): void {
+  getDb().prepare(`
+    INSERT INTO quota_usage (user_id, job_id, kind, cost, created_at) VALUES (?, ?, ?, ?, ?)
+  `).run(userId, jobId, kind, cost, Date.now());
+}
+
+/**
+ * Jobs and cost charged to `userId` since `since` (Unix ms). Jobs that ended
+ * `failed` or `cancelled` are not counted, so they are refunded automatically.
+ */
+export function getQuotaUsage(userId: string, since: number): QuotaUsage {
+  const row = getDb().prepare(`
+    SELECT COUNT(*) AS jobs, COALESCE(SUM(u.cost), 0) AS cost, MIN(u.created_at) AS oldestAt
+    FROM quota_usage u
+    WHERE u.user_id = ? AND u.created_at >= ?
+      AND NOT EXISTS (SELECT 1 FROM jobs j WHERE j.id = u.job_id AND j.status IN ('failed', 'cancelled'))
+      AND NOT EXISTS (SELECT 1 FROM upscale_jobs x WHERE x.id = u.job_id AND x.status IN ('failed', 'cancelled'))
+  `).get(userId, since) as { jobs: number; cost: number; oldestAt: number | null };
+  return row;
+}
+
+/** Drop usage rows older than `before` (Unix ms) — nothing older than a day is ever counted. */
+export function purgeQuotaUsage(before: number): number {
+  return getDb().prepare("DELETE FROM quota_usage WHERE created_at < ?").run(before).changes;
+}
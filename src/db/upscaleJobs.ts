@@ -1,5 +1,7 @@
 import { getDb } from "./database.js";
-import type { UpscaleJobRow, UpscaleJobParams, JobStatus } from "../queue/types.js";
+import { config } from "../config.js";
+import { DEFAULT_SIZE } from "../queue/sizes.js";
+import type { UpscaleJobRow, UpscaleJobParams, JobStatus, ImageSize } from "../queue/types.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -8,8 +10,9 @@ import type { UpscaleJobRow, UpscaleJobParams, JobStatus } from "../queue/types.
 function rowToUpscaleJob(row: Record<string, unknown>): UpscaleJobRow {
   return {
     id: row.id as string,
-    sourceJobId: row.source_job_id as string,
+    sourceJobId: (row.source_job_id as string | null) ?? null,
     sourceImageFilename: row.source_image_filename as string,
+    sourceImageIndex: (row.source_image_index as number | null) ?? 0,
     userId: row.user_id as string,
     guildId: row.guild_id as string,
     channelId: row.channel_id as string,
@@ -19,9 +22,17 @@ function rowToUpscaleJob(row: Record<string, unknown>): UpscaleJobRow {
     positivePrompt: row.positive_prompt as string,
     negativePrompt: row.negative_prompt as string,
     upscaleModel: row.upscale_model as string,
+    workflow: (row.workflow as string | null) ?? config.upscale.workflow,
+    scale: (row.scale as number | null) ?? 2,
+    denoise: (row.denoise as number | null) ?? null,
+    tileSize: (row.tile_size as number | null) ?? null,
+    sourceSize: ((row.source_size as string | null) ?? DEFAULT_SIZE) as ImageSize,
+    backendUrl: (row.backend_url as string | null) ?? "",
     comfyPromptId: (row.comfy_prompt_id as string | null) ?? null,
     outputImages: row.output_images ? JSON.parse(row.output_images as string) : null,
     errorMessage: (row.error_message as string | null) ?? null,
+    attempts: (row.attempts as number | null) ?? 0,
+    lastError: (row.last_error as string | null) ?? null,
     createdAt: row.created_at as number,
     startedAt: (row.started_at as number | null) ?? null,
     completedAt: (row.completed_at as number | null) ?? null,
@@ -37,20 +48,23 @@ export function insertUpscaleJob(id: string, params: UpscaleJobParams): UpscaleJ
   const now = Date.now();
   db.prepare(`
     INSERT INTO upscale_jobs (
-      id, source_job_id, source_image_filename,
+      id, source_job_id, source_image_filename, source_image_index,
       user_id, guild_id, channel_id,
       model, positive_prompt, negative_prompt, upscale_model,
-      status, created_at
+      workflow, scale, denoise, tile_size, source_size,
+      backend_url, status, created_at
     ) VALUES (
-      ?, ?, ?,
+      ?, ?, ?, ?,
       ?, ?, ?,
       ?, ?, ?, ?,
-      'queued', ?
+      ?, ?, ?, ?, ?,
+      ?, 'queued', ?
     )
   `).run(
     id,
     params.sourceJobId,
     params.sourceImageFilename,
+    params.sourceImageIndex,
     params.userId,
     params.guildId,
     params.channelId,
@@ -58,6 +72,12 @@ export function insertUpscaleJob(id: string, params: UpscaleJobParams): UpscaleJ
     params.positivePrompt,
     params.negativePrompt,
     params.upscaleModel,
+    params.workflow,
+    params.scale,
+    params.denoise,
+    params.tileSize,
+    params.sourceSize,
+    params.backendUrl,
     now,
   );
   return getUpscaleJobOrThrow(id);
@@ -81,6 +101,33 @@ export function setUpscaleJobFailed(id: string, errorMessage: string): void {
   `).run(errorMessage, Date.now(), id);
 }
 
+/** Count a new run of the upscale job. Returns the attempt number (1-based). */
+export function recordUpscaleJobAttempt(id: string): number {
+  const row = getDb().prepare(`
+    UPDATE upscale_jobs SET attempts = attempts + 1 WHERE id = ? RETURNING attempts
+  `).get(id) as { attempts: number };
+  return row.attempts;
+}
+
+/** Put an upscale job back to `queued` after a transient failure. */
+export function setUpscaleJobRetrying(id: string, lastError: string, refundAttempt = false): void {
+  getDb().prepare(`
+    UPDATE upscale_jobs SET status = 'queued', last_error = ?, comfy_prompt_id = NULL, started_at = NULL,
+      attempts = attempts - ? WHERE id = ?
+  `).run(lastError, refundAttempt ? 1 : 0, id);
+}
+
+/** Note a transient failure while polling an upscale job's prompt (see setJobPollRetrying). */
+export function setUpscaleJobPollRetrying(id: string, lastError: string): void {
+  getDb().prepare(`UPDATE upscale_jobs SET last_error = ?, attempts = attempts + 1 WHERE id = ?`).run(lastError, id);
+}
+
+export function setUpscaleJobCancelled(id: string): void {
+  getDb().prepare(`
+    UPDATE upscale_jobs SET status = 'cancelled', completed_at = ? WHERE id = ?
+  `).run(Date.now(), id);
+}
+
 // ---------------------------------------------------------------------------
 // Reads
 // ---------------------------------------------------------------------------
@@ -91,10 +138,17 @@ export function getUpscaleJobOrThrow(id: string): UpscaleJobRow {
   return rowToUpscaleJob(row);
 }
 
-export function countUpscaleQueuedBefore(id: string): number {
-  const job = getUpscaleJobOrThrow(id);
-  const result = getDb().prepare(
-    "SELECT COUNT(*) as cnt FROM upscale_jobs WHERE status = 'queued' AND created_at < ?",
-  ).get(job.createdAt) as { cnt: number };
-  return result.cnt;
+export function getUpscaleJobsByStatus(status: JobStatus): UpscaleJobRow[] {
+  const rows = getDb().prepare("SELECT * FROM upscale_jobs WHERE status = ? ORDER BY created_at ASC").all(status) as Record<string, unknown>[];
+  return rows.map(rowToUpscaleJob);
+}
+
+/** Average run time of completed upscale jobs in ms, or null if there is no history yet. */
+export function getUpscaleAverageDurationMs(): number | null {
+  const row = getDb().prepare(`
+    SELECT AVG(completed_at - started_at) AS avgMs
+    FROM upscale_jobs
+    WHERE status = 'completed' AND started_at IS NOT NULL AND completed_at IS NOT NULL
+  `).get() as { avgMs: number | null };
+  return row.avgMs;
 }
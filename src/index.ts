@@ -1,13 +1,25 @@
-import { Client, GatewayIntentBits } from "discord.js";
+import { Client, GatewayIntentBits, type Interaction } from "discord.js";
 import { config } from "./config.js";
 import { logger } from "./logger.js";
 import { getDb, closeDb } from "./db/database.js";
-import { comfyClient } from "./comfy/client.js";
-import { fetchOptions } from "./comfy/objectInfo.js";
-import { loadBaseWorkflow, validate as validateWorkflow } from "./comfy/workflowBinder.js";
-import { validateWildcardWorkflow } from "./comfy/wildcardBinder.js";
-import { validateUpscaleWorkflows } from "./comfy/upscaleBinder.js";
-import { setDiscordClient } from "./queue/jobQueue.js";
+import {
+  getBackends,
+  refreshAllBackendHealth,
+  startBackendHealthChecks,
+  onBackendHealthChange,
+  poolState,
+} from "./comfy/backendPool.js";
+import { fetchOptions, clearOptionsCache } from "./comfy/objectInfo.js";
+import {
+  getWorkflow,
+  listWorkflows,
+  workflowLoadErrors,
+  checkInstalledWorkflows,
+  disableWorkflow,
+  watchWorkflows,
+  stopWatchingWorkflows,
+} from "./comfy/workflowManifest.js";
+import { setDiscordClient, recoverJobs, kickRunner, drain, queueLength } from "./queue/jobQueue.js";
 import { startPurgeScheduler } from "./queue/purgeScheduler.js";
 import { onInteractionCreate } from "./bot/events/interactionCreate.js";
 import { onReady } from "./bot/events/ready.js";
@@ -16,6 +28,8 @@ import { onReady } from "./bot/events/ready.js";
 // Startup validation
 // ---------------------------------------------------------------------------
 
+let _client: Client | null = null;
+
 async function startup(): Promise<void> {
   logger.info("ComfyGen starting up…");
 
@@ -25,48 +39,52 @@ async function startup(): Promise<void> {
   // 2. Start purge scheduler (runs first purge after 60 s)
   startPurgeScheduler();
 
-  // 3. Validate active gen workflow exists and is structurally valid
-  logger.info({ workflow: config.gen.workflow }, "Validating gen workflow…");
-  if (config.gen.workflow === "wildcard") {
-    const wfResult = validateWildcardWorkflow();
-    if (!wfResult.ok) {
-      logger.fatal({ reason: wfResult.reason }, "workflows/wildcard/base.json failed validation — cannot start");
-      process.exit(1);
-    }
-    logger.info("wildcard base.json OK");
-  } else {
-    let baseWorkflow: Record<string, unknown>;
-    try {
-      baseWorkflow = loadBaseWorkflow();
-    } catch (err) {
-      logger.fatal({ err }, "Could not load workflows/multisampler/base.json — cannot start");
-      process.exit(1);
-    }
-    const wfResult = validateWorkflow(baseWorkflow);
-    if (!wfResult.ok) {
-      logger.fatal({ reason: wfResult.reason }, "base.json failed validation — cannot start");
-      process.exit(1);
-    }
-    logger.info("base.json OK");
+  // 3. Load workflow manifests — broken ones are skipped, not fatal
+  for (const problem of workflowLoadErrors()) {
+    logger.warn({ problem }, "Workflow manifest skipped");
   }
+  logger.info({ workflows: listWorkflows().map((w) => w.manifest.id) }, "Workflow manifests loaded");
 
-  // 4. Validate upscale workflows
-  logger.info("Validating upscale workflows…");
-  const upscaleResult = validateUpscaleWorkflows();
-  if (!upscaleResult.ok) {
-    logger.fatal({ reason: upscaleResult.reason }, "Upscale workflow validation failed — cannot start");
+  // 4. The configured gen and upscale workflows must be among them
+  if (!getWorkflow(config.gen.workflow, "gen")) {
+    logger.fatal({ workflow: config.gen.workflow }, "GEN_WORKFLOW is not a valid gen workflow — cannot start");
     process.exit(1);
   }
-  logger.info(`Upscale workflows OK (active: ${config.upscale.workflow})`);
-
-  // 5. Ping ComfyUI
-  logger.info({ url: config.comfy.baseUrl }, "Pinging ComfyUI…");
-  const alive = await comfyClient.ping();
-  if (!alive) {
-    logger.fatal({ url: config.comfy.baseUrl }, "ComfyUI is unreachable — cannot start");
+  if (!getWorkflow(config.upscale.workflow, "upscale")) {
+    logger.fatal({ workflow: config.upscale.workflow }, "UPSCALE_WORKFLOW is not a valid upscale workflow — cannot start");
     process.exit(1);
   }
-  logger.info("ComfyUI reachable");
+  if (!getWorkflow(config.inpaint.workflow, "inpaint")) {
+    logger.warn({ workflow: config.inpaint.workflow }, "INPAINT_WORKFLOW is not a valid inpaint workflow — /inpaint is disabled");
+  }
+  logger.info({ gen: config.gen.workflow, upscale: config.upscale.workflow }, "Workflows OK");
+
+  // 5. Ping every ComfyUI backend — at least one must be up
+  const urls = getBackends().map((b) => b.url);
+  logger.info({ backends: urls }, "Pinging ComfyUI backends…");
+  const healthyCount = await refreshAllBackendHealth();
+  if (healthyCount === 0) {
+    logger.fatal({ backends: urls }, "No ComfyUI backend is reachable — cannot start");
+    process.exit(1);
+  }
+  logger.info({ healthy: healthyCount, total: urls.length }, "ComfyUI reachable");
+
+  // A backend coming back may have restarted with different models installed;
+  // drop its cached object_info and let the runner pick up waiting jobs.
+  onBackendHealthChange((backend, healthy) => {
+    if (!healthy) {
+      if (poolState() === "offline") {
+        logger.warn({ queued: queueLength() }, "No ComfyUI backend reachable — runner paused");
+      }
+      return;
+    }
+    if (getBackends().filter((b) => b.healthy).length === 1) {
+      logger.info({ queued: queueLength() }, "ComfyUI reachable again — runner resumed");
+    }
+    clearOptionsCache(backend.url);
+    kickRunner();
+  });
+  startBackendHealthChecks();
 
   // 6. Fetch and validate option lists (also validates node class detection)
   logger.info("Fetching ComfyUI object_info…");
@@ -77,15 +95,45 @@ async function startup(): Promise<void> {
     process.exit(1);
   }
 
-  // 7. Build Discord client
+  // 7. Check workflows against what the backends have installed. Every problem
+  //    is logged; a workflow no backend can run is withdrawn, or is fatal if it
+  //    is the configured default.
+  const installed = await checkInstalledWorkflows();
+  for (const [workflow, problems] of installed.problems) {
+    const level = installed.unusable.includes(workflow) ? "error" : "warn";
+    logger[level]({ workflow, problems }, `Workflow "${workflow}" does not match installed ComfyUI nodes/models`);
+  }
+  const fatal = installed.unusable.filter((id) => id === config.gen.workflow || id === config.upscale.workflow);
+  if (fatal.length > 0) {
+    logger.fatal({ workflows: fatal }, "GEN_WORKFLOW/UPSCALE_WORKFLOW cannot run on any ComfyUI backend — cannot start");
+    process.exit(1);
+  }
+  for (const id of installed.unusable) {
+    disableWorkflow(id, installed.problems.get(id) ?? []);
+  }
+  logger.info({ backends: installed.checked, withdrawn: installed.unusable }, "Workflows checked against object_info");
+  watchWorkflows();
+
+  // 8. Build Discord client
   const client = new Client({
     intents: [GatewayIntentBits.Guilds],
   });
+  _client = client;
 
   setDiscordClient(client);
 
-  client.once("ready", () => onReady(client));
-  client.on("interactionCreate", onInteractionCreate);
+  // 9. Re-enqueue jobs left queued/running by the previous process. Interactions
+  //    are turned away until then, so new jobs cannot overtake the recovered ones.
+  client.on("interactionCreate", rejectWhileStarting);
+  client.once("ready", () => {
+    onReady(client);
+    recoverJobs()
+      .catch((err) => logger.error({ err }, "Job recovery failed"))
+      .finally(() => {
+        client.off("interactionCreate", rejectWhileStarting);
+        if (!_shuttingDown) client.on("interactionCreate", onInteractionCreate);
+      });
+  });
 
   client.on("error", (err) => logger.error({ err }, "Discord client error"));
 
@@ -96,9 +144,60 @@ async function startup(): Promise<void> {
 // Graceful shutdown
 // ---------------------------------------------------------------------------
 
+let _shuttingDown = false;
+
+/** Answer an interaction with `content` instead of starting new work. */
+async function turnAway(interaction: Interaction, content: string): Promise<void> {
+  try {
+    if (interaction.isAutocomplete()) {
+      await interaction.respond([]);
+    } else if (interaction.isRepliable()) {
+      await interaction.reply({ content, ephemeral: true });
+    }
+  } catch {
+    // Interaction expired — nothing to tell the user
+  }
+}
+
+/** Interaction handler until recoverJobs has put the previous run's jobs back in the queue. */
+function rejectWhileStarting(interaction: Interaction): void {
+  void turnAway(interaction, "⏳ The bot is starting up — please try again in a moment.");
+}
+
+/** Interaction handler while draining. */
+function rejectWhileShuttingDown(interaction: Interaction): void {
+  void turnAway(interaction, "🔄 The bot is restarting — please try again in a minute.");
+}
+
+/**
+ * Stop taking interactions, let the runner drain for up to SHUTDOWN_GRACE_MS,
+ * then disconnect and close the DB. Anything unfinished is left for recoverJobs.
+ * A second signal exits immediately.
+ */
 async function shutdown(signal: string): Promise<void> {
-  logger.info({ signal }, "Shutting down…");
+  if (_shuttingDown) {
+    logger.warn({ signal }, "Second signal received — exiting without waiting");
+    process.exit(1);
+  }
+  _shuttingDown = true;
+  logger.info({ signal, graceMs: config.queue.shutdownGraceMs }, "Shutting down…");
+  stopWatchingWorkflows();
+
+  if (_client) {
+    _client.off("interactionCreate", onInteractionCreate);
+    _client.off("interactionCreate", rejectWhileStarting);
+    _client.on("interactionCreate", rejectWhileShuttingDown);
+  }
+
+  try {
+    await drain(config.queue.shutdownGraceMs);
+  } catch (err) {
+    logger.error({ err }, "Error while draining the job queue");
+  }
+
+  await _client?.destroy();
   closeDb();
+  logger.info("Shutdown complete");
   process.exit(0);
 }
 
@@ -0,0 +1,218 @@
+import { getJobOrThrow, getJobDurationStats } from "../db/jobs.js";
+import { getUpscaleJobOrThrow, getUpscaleAverageDurationMs } from "../db/upscaleJobs.js";
+import { getBackends } from "../comfy/backendPool.js";
+import { getQueueSnapshot } from "./jobQueue.js";
+import type { QueueEntry } from "./scheduler.js";
+
+// ---------------------------------------------------------------------------
+// ETA estimation
+//
+// Job durations are estimated from completed jobs in the DB: the average for
+// the same model + steps + size when there is one, otherwise a per-step rate
+// for the model (or across all models) times the step count — all per image,
+// times the batch size. The queue is then played forward over the healthy
+// backends' slots to turn durations into ETAs.
+// ---------------------------------------------------------------------------
+
+/** Used until there is any history to go on. */
+const DEFAULT_GEN_MS = 60_000;
+const DEFAULT_UPSCALE_MS = 90_000;
+
+export type EstimateInput =
+  | { type: "gen"; model: string; steps: number; size: string; batchSize: number }
+  | { type: "upscale" };
+
+export interface QueueItemEstimate {
+  jobId: string;
+  type: QueueEntry["type"];
+  userId: string;
+  state: "running" | "queued";
+  /** 1-based scheduled position; null for running jobs. */
+  position: number | null;
+  /** Checkpoint for gen jobs, upscale model for upscales. */
+  model: string;
+  size: string | null;
+  steps: number | null;
+  batchSize: number | null;
+  /** Estimated ms from now until the job finishes. */
+  etaMs: number;
+}
+
+interface DurationStats {
+  exact: Map<string, number>;
+  perStepByModel: Map<string, number>;
+  perStep: number | null;
+  upscale: number | null;
+}
+
+function statKey(model: string, steps: number, size: string): string {
+  return `${model}\u0000${steps}\u0000${size}`;
+}
+
+function loadDurationStats(): DurationStats {
+  const exact = new Map<string, number>();
+  const modelTotals = new Map<string, { msPerStep: number; samples: number }>();
+  let allMsPerStep = 0;
+  let allSamples = 0;
+
+  for (const stat of getJobDurationStats()) {
+    exact.set(statKey(stat.model, stat.steps, stat.size), stat.avgMs);
+    if (stat.steps <= 0) continue;
+    const weighted = (stat.avgMs / stat.steps) * stat.samples;
+    const totals = modelTotals.get(stat.model) ?? { msPerStep: 0, samples: 0 };
+    totals.msPerStep += weighted;
+    totals.samples += stat.samples;
+    modelTotals.set(stat.model, totals);
+    allMsPerStep += weighted;
+    allSamples += stat.samples;
+  }
+
+  const perStepByModel = new Map<string, number>();
+  for (const [model, totals] of modelTotals) perStepByModel.set(model, totals.msPerStep / totals.samples);
+
+  return {
+    exact,
+    perStepByModel,
+    perStep: allSamples > 0 ? allMsPerStep / allSamples : null,
+    upscale: getUpscaleAverageDurationMs(),
+  };
+}
+
+function estimateDuration(stats: DurationStats, input: EstimateInput): number {
+  if (input.type === "upscale") return stats.upscale ?? DEFAULT_UPSCALE_MS;
+
+  const exact = stats.exact.get(statKey(input.model, input.steps, input.size));
+  if (exact !== undefined) return exact * input.batchSize;
+  const perStep = stats.perStepByModel.get(input.model) ?? stats.perStep;
+  return (perStep !== null ? perStep * input.steps : DEFAULT_GEN_MS) * input.batchSize;
+}
+
+/**
+ * Play the queue forward: each queued job starts on whichever slot frees up
+ * first. `busy` holds the remaining ms of each running job. Returns the finish
+ * time (ms from now) of each queued job.
+ */
+function simulate(busy: number[], queued: number[]): number[] {
+  const slotCount = getBackends()
+    .filter((b) => b.healthy)
+    .reduce((n, b) => n + b.concurrency, 0);
+  const slots = [...busy];
+  while (slots.length < Math.max(slotCount, 1)) slots.push(0);
+
+  return queued.map((duration) => {
+    let next = 0;
+    for (let i = 1; i < slots.length; i++) if (slots[i] < slots[next]) next = i;
+    slots[next] += duration;
+    return slots[next];
+  });
+}
+
+function describe(entry: { jobId: string; type: QueueEntry["type"] }): {
+  userId: string;
+  model: string;
+  size: string | null;
+  steps: number | null;
+  batchSize: number | null;
+  startedAt: number | null;
+  input: EstimateInput;
+} {
+  if (entry.type === "upscale") {
+    const job = getUpscaleJobOrThrow(entry.jobId);
+    return {
+      userId: job.userId,
+      model: job.upscaleModel,
+      size: null,
+      steps: null,
+      batchSize: null,
+      startedAt: job.startedAt,
+      input: { type: "upscale" },
+    };
+  }
+  const job = getJobOrThrow(entry.jobId);
+  return {
+    userId: job.userId,
+    model: job.model,
+    size: job.size,
+    steps: job.steps,
+    batchSize: job.batchSize,
+    startedAt: job.startedAt,
+    input: { type: "gen", model: job.model, steps: job.steps, size: job.size, batchSize: job.batchSize },
+  };
+}
+
+/** Current running jobs with their remaining time, and queued jobs with their full duration. */
+function collect(stats: DurationStats) {
+  const snapshot = getQueueSnapshot();
+  const now = Date.now();
+
+  const running = snapshot.running.map((entry) => {
+    const info = describe(entry);
+    const elapsed = info.startedAt ? now - info.startedAt : 0;
+    return { ...entry, ...info, remaining: Math.max(estimateDuration(stats, info.input) - elapsed, 0) };
+  });
+  const queued = snapshot.queued.map((entry) => {
+    const info = describe(entry);
+    return { ...entry, ...info, duration: estimateDuration(stats, info.input) };
+  });
+  return { running, queued };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Every running and queued job with its estimated time to completion. */
+export function estimateQueue(): QueueItemEstimate[] {
+  const { running, queued } = collect(loadDurationStats());
+  const finishes = simulate(
+    running.map((r) => r.remaining),
+    queued.map((q) => q.duration),
+  );
+
+  return [
+    ...running.map((r): QueueItemEstimate => ({
+      jobId: r.jobId,
+      type: r.type,
+      userId: r.userId,
+      state: "running",
+      position: null,
+      model: r.model,
+      size: r.size,
+      steps: r.steps,
+      batchSize: r.batchSize,
+      etaMs: r.remaining,
+    })),
+    ...queued.map((q, i): QueueItemEstimate => ({
+      jobId: q.jobId,
+      type: q.type,
+      userId: q.userId,
+      state: "queued",
+      position: i + 1,
+      model: q.model,
+      size: q.size,
+      steps: q.steps,
+      batchSize: q.batchSize,
+      etaMs: finishes[i],
+    })),
+  ];
+}
+
+/** Estimated ms until a job about to be queued at `position` (see nextQueuePosition) would finish. */
+export function estimateNewJobEta(position: number, input: EstimateInput): number {
+  const stats = loadDurationStats();
+  const { running, queued } = collect(stats);
+  const finishes = simulate(
+    running.map((r) => r.remaining),
+    [...queued.slice(0, position - 1).map((q) => q.duration), estimateDuration(stats, input)],
+  );
+  return finishes[finishes.length - 1];
+}
+
+/** Human-friendly rendering of an ETA: "~45s", "~3 min", "~1 h 5 min". */
+export function formatEta(ms: number): string {
+  const seconds = Math.max(Math.round(ms / 1000), 1);
+  if (seconds < 60) return `~${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `~${minutes} min`;
+  return `~${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
@@ -1,30 +1,61 @@
 import type { TextChannel, ButtonBuilder, InteractionWebhook } from "discord.js";
-import { comfyClient } from "../comfy/client.js";
-import { bind } from "../comfy/workflowBinder.js";
-import { bind as bindWildcard } from "../comfy/wildcardBinder.js";
-import { bindUpscale } from "../comfy/upscaleBinder.js";
-import { getJobOrThrow, setJobRunning, setJobCompleted, setJobFailed } from "../db/jobs.js";
+import type { LoraParam } from "./types.js";
+import type { ComfyClient, ComfyHistoryEntry } from "../comfy/client.js";
+import {
+  ComfyExecutionError,
+  ComfyLostPromptError,
+  nodeErrorFromHistory,
+  summarizeComfyError,
+  comfyErrorDetail,
+} from "../comfy/errors.js";
+import {
+  getBackends,
+  getBackend,
+  backendForJob,
+  hasFreeSlot,
+  refreshBackendHealth,
+  type ComfyBackend,
+} from "../comfy/backendPool.js";
+import { getBackendOptions, peekBackendOptions } from "../comfy/objectInfo.js";
+import { bind, bindUpscale } from "../comfy/workflowBinder.js";
+import { getWorkflow, jobWorkflow, type WorkflowDefinition } from "../comfy/workflowManifest.js";
+import {
+  getJobOrThrow,
+  getJobsByStatus,
+  setJobRunning,
+  setJobCompleted,
+  setJobFailed,
+  setJobCancelled,
+  recordJobAttempt,
+  setJobRetrying,
+  setJobPollRetrying,
+} from "../db/jobs.js";
 import {
   insertUpscaleJob as _insertUpscaleJob,
   getUpscaleJobOrThrow,
+  getUpscaleJobsByStatus,
   setUpscaleJobRunning,
   setUpscaleJobCompleted,
   setUpscaleJobFailed,
+  setUpscaleJobCancelled,
+  recordUpscaleJobAttempt,
+  setUpscaleJobRetrying,
+  setUpscaleJobPollRetrying,
 } from "../db/upscaleJobs.js";
+import * as scheduler from "./scheduler.js";
+import type { QueueEntry } from "./scheduler.js";
+import { isTransientError, retryDelayMs, withRetries } from "./retry.js";
+import { genJobTimeoutMs, upscaleJobTimeoutMs } from "./timeouts.js";
+import { formatSize } from "./sizes.js";
+import { isQueuePaused } from "../db/admin.js";
 import { logger } from "../logger.js";
 import { config } from "../config.js";
 
 // ---------------------------------------------------------------------------
-// Simple FIFO in-memory queue (job IDs only; source of truth is DB)
+// In-memory queue (job IDs only; source of truth is DB). Ordering is delegated
+// to the fair scheduler so one user cannot starve everyone else.
 // ---------------------------------------------------------------------------
 
-interface QueueEntry {
-  jobId: string;
-  type: "gen" | "upscale";
-}
-
-const _queue: QueueEntry[] = [];
-let _running = false;
 let _client: import("discord.js").Client | null = null;
 
 /** Ephemeral interaction webhooks keyed by jobId — valid for 15 min after interaction. */
@@ -34,24 +65,57 @@ export function setDiscordClient(client: import("discord.js").Client): void {
   _client = client;
 }
 
-export function enqueue(jobId: string, webhook?: InteractionWebhook): number {
-  _queue.push({ jobId, type: "gen" });
+/**
+ * Queue a gen job for `userId`. `weight` is the user's scheduling weight (see
+ * userWeight). Returns the job's scheduled position.
+ */
+export function enqueue(jobId: string, userId: string, webhook?: InteractionWebhook, weight = 1): number {
+  const workflow = jobWorkflow(getJobOrThrow(jobId));
+  scheduler.push({ jobId, type: "gen", userId, workflow }, weight);
   if (webhook) _webhooks.set(jobId, webhook);
-  logger.info({ jobId, type: "gen", queueLength: _queue.length }, "Job enqueued");
+  logger.info({ jobId, type: "gen", userId, queueLength: scheduler.size() }, "Job enqueued");
   scheduleRun();
-  return _queue.length;
+  return scheduler.positionOf(jobId) ?? 0;
 }
 
-export function enqueueUpscale(jobId: string, webhook?: InteractionWebhook): number {
-  _queue.push({ jobId, type: "upscale" });
+export function enqueueUpscale(jobId: string, userId: string, webhook?: InteractionWebhook, weight = 1): number {
+  const workflow = getWorkflow(getUpscaleJobOrThrow(jobId).workflow, "upscale");
+  scheduler.push({ jobId, type: "upscale", userId, workflow }, weight);
   if (webhook) _webhooks.set(jobId, webhook);
-  logger.info({ jobId, type: "upscale", queueLength: _queue.length }, "Upscale job enqueued");
+  logger.info({ jobId, type: "upscale", userId, queueLength: scheduler.size() }, "Upscale job enqueued");
   scheduleRun();
-  return _queue.length;
+  return scheduler.positionOf(jobId) ?? 0;
 }
 
 export function queueLength(): number {
-  return _queue.length;
+  return scheduler.size();
+}
+
+export interface QueueSnapshot {
+  /** Jobs dispatched to a backend, in dispatch order. */
+  running: Array<{ jobId: string; type: QueueEntry["type"] }>;
+  /** Waiting jobs in scheduled order. */
+  queued: QueueEntry[];
+}
+
+export function getQueueSnapshot(): QueueSnapshot {
+  return {
+    running: [..._running].map(([jobId, job]) => ({ jobId, type: job.type })),
+    queued: scheduler.scheduledOrder(),
+  };
+}
+
+/** Number of jobs `userId` currently has waiting in the queue (running jobs excluded). */
+export function queuedJobsForUser(userId: string): number {
+  return scheduler.countForUser(userId);
+}
+
+/**
+ * The 1-based position a job enqueued now by `userId` would be given.
+ * Used to word the "queued" reply before the job is handed to the runner.
+ */
+export function nextQueuePosition(userId: string, weight = 1): number {
+  return scheduler.positionIfPushed(userId, weight);
 }
 
 /** Retrieve and remove the webhook for a job (one-shot). */
@@ -61,121 +125,383 @@ function consumeWebhook(jobId: string): InteractionWebhook | undefined {
   return wh;
 }
 
-/** Fire-and-forget ephemeral status update. Swallows errors (token may be expired). */
-async function editProgress(webhook: InteractionWebhook | undefined, content: string): Promise<void> {
+/** Minimum gap between live progress edits, to stay well inside Discord's rate limits. */
+const PROGRESS_EDIT_INTERVAL = 2_000;
+
+/**
+ * Build a progress callback for pollUntilDone that edits the job's ephemeral,
+ * throttled to one edit per PROGRESS_EDIT_INTERVAL.
+ */
+function progressReporter(
+  webhook: InteractionWebhook | undefined,
+  jobId: string,
+): ((detail: string) => void) | undefined {
+  if (!webhook) return undefined;
+  let lastEdit = 0;
+  return (detail) => {
+    const now = Date.now();
+    if (now - lastEdit < PROGRESS_EDIT_INTERVAL || _cancelled.has(jobId)) return;
+    lastEdit = now;
+    void editProgress(webhook, `🔄 ${detail}`, jobId);
+  };
+}
+
+/**
+ * Fire-and-forget ephemeral status update. Swallows errors (token may be expired).
+ * Pass `cancelJobId` to keep the Cancel button on the message.
+ */
+async function editProgress(
+  webhook: InteractionWebhook | undefined,
+  content: string,
+  cancelJobId?: string,
+): Promise<void> {
   if (!webhook) return;
   try {
-    await webhook.editMessage("@original", { content, embeds: [], components: [] });
+    const { buildCancelRow } = await import("../bot/components/formEmbed.js");
+    const components = cancelJobId ? [buildCancelRow(cancelJobId)] : [];
+    await webhook.editMessage("@original", { content, embeds: [], components });
   } catch {
     // Token expired or message already resolved — silently ignore
   }
 }
 
 // ---------------------------------------------------------------------------
-// Runner
+// Runner — dispatches queue entries to ComfyUI backends with free slots
 // ---------------------------------------------------------------------------
 
+type BackendChoice =
+  | { kind: "run"; backend: ComfyBackend }
+  | { kind: "wait" }
+  | { kind: "impossible"; reason: string };
+
+let _dispatching = false;
+let _dispatchAgain = false;
+
 function scheduleRun(): void {
-  if (_running) return;
-  setImmediate(runNext);
+  if (_dispatching) {
+    _dispatchAgain = true;
+    return;
+  }
+  setImmediate(() => void dispatch());
 }
 
-async function runNext(): Promise<void> {
-  if (_running || _queue.length === 0) return;
-  _running = true;
+/** Re-run dispatch from outside the runner, e.g. when a backend comes back up. */
+export function kickRunner(): void {
+  scheduleRun();
+}
 
-  const entry = _queue.shift()!;
-  const { jobId, type } = entry;
-  logger.info({ jobId, type }, "Runner: starting job");
+/**
+ * Walk the queue in scheduled order and start every entry that has an eligible backend
+ * with a free slot. Entries whose eligible backends are all busy or down stay
+ * queued; entries that no configured backend can ever serve are failed.
+ */
+async function dispatch(): Promise<void> {
+  if (_dispatching || _draining || isQueuePaused()) return;
+  _dispatching = true;
+  try {
+    do {
+      _dispatchAgain = false;
+      for (const entry of scheduler.scheduledOrder()) {
+        if (!getBackends().some(hasFreeSlot)) break;
+
+        let choice: BackendChoice;
+        try {
+          choice = await chooseBackend(entry);
+        } catch (err) {
+          logger.error({ jobId: entry.jobId, err }, "Runner: could not schedule job — dropping it");
+          choice = { kind: "impossible", reason: "An unexpected error occurred." };
+        }
+
+        if (!scheduler.has(entry) || choice.kind === "wait") continue;
+        scheduler.take(entry);
 
+        if (choice.kind === "impossible") {
+          void editProgress(consumeWebhook(entry.jobId), "❌ This job cannot run — see the error posted in the channel.");
+          await failJob(entry.jobId, entry.type, choice.reason);
+          continue;
+        }
+        startJob(entry, choice.backend);
+      }
+    } while (_dispatchAgain);
+  } finally {
+    _dispatching = false;
+  }
+}
+
+/**
+ * Pick the backend for a queue entry. Upscales and resumed prompts are pinned to
+ * the backend recorded on the row (it holds the uploaded image / the prompt).
+ * Gen jobs go to the least-loaded healthy backend that has the checkpoint and
+ * every selected LoRA installed; img2img jobs only to the one holding their source.
+ */
+async function chooseBackend(entry: QueueEntry): Promise<BackendChoice> {
+  if (entry.type === "upscale" || entry.resumePromptId) {
+    const url =
+      entry.type === "upscale"
+        ? getUpscaleJobOrThrow(entry.jobId).backendUrl
+        : getJobOrThrow(entry.jobId).backendUrl;
+    const backend = backendForJob(url);
+    if (!backend) {
+      return { kind: "impossible", reason: `The ComfyUI backend this job was bound to (${url}) is no longer configured.` };
+    }
+    return hasFreeSlot(backend) ? { kind: "run", backend } : { kind: "wait" };
+  }
+
+  const job = getJobOrThrow(entry.jobId);
+  const loras = job.loras.filter((l): l is LoraParam => l !== null).map((l) => l.name);
+
+  // Uploaded source and control images live on one backend, so the job must run there
+  let candidates = getBackends();
+  const upload = job.sourceImage ?? job.controlNet?.image;
+  if (upload) {
+    const pinned = getBackend(upload.backendUrl);
+    if (!pinned) {
+      const what = job.sourceImage ? "source image" : "ControlNet image";
+      return {
+        kind: "impossible",
+        reason: `The ComfyUI backend holding this job's ${what} (${upload.backendUrl}) is no longer configured.`,
+      };
+    }
+    candidates = [pinned];
+  }
+
+  const controlNet = job.controlNet?.model ?? null;
+  const { supporting, unknown } = await supportingBackends(candidates, job.model, loras, controlNet);
+  if (supporting.length === 0) {
+    if (unknown) return { kind: "wait" };
+    const wanted = [
+      `model **${job.model}**`,
+      ...loras.map((l) => `LoRA **${l}**`),
+      ...(controlNet ? [`ControlNet **${controlNet}**`] : []),
+    ].join(", ");
+    return { kind: "impossible", reason: `No ComfyUI backend has everything this job needs installed (${wanted}).` };
+  }
+
+  const free = supporting
+    .filter(hasFreeSlot)
+    .sort((a, b) => a.active / a.concurrency - b.active / b.concurrency);
+  return free.length > 0 ? { kind: "run", backend: free[0] } : { kind: "wait" };
+}
+
+/**
+ * The backends among `candidates` that have `model`, every LoRA and the
+ * ControlNet model (if any) installed. `unknown` is set when a backend's
+ * options could not be read (down since startup).
+ */
+async function supportingBackends(
+  candidates: readonly ComfyBackend[],
+  model: string,
+  loras: string[],
+  controlNet: string | null = null,
+): Promise<{ supporting: ComfyBackend[]; unknown: boolean }> {
+  const supporting: ComfyBackend[] = [];
+  let unknown = false;
+  for (const backend of candidates) {
+    let options = peekBackendOptions(backend);
+    if (!options && backend.healthy) {
+      options = await getBackendOptions(backend).catch(() => undefined);
+    }
+    if (!options) {
+      unknown = true; // down since startup — it may have what we need once it returns
+      continue;
+    }
+    if (
+      options.models.includes(model) &&
+      loras.every((l) => options.loras.includes(l)) &&
+      (controlNet === null || options.controlNets.includes(controlNet))
+    ) {
+      supporting.push(backend);
+    }
+  }
+  return { supporting, unknown };
+}
+
+/**
+ * Where to upload the source or control image of a new img2img, inpaint or
+ * ControlNet job: the least-loaded healthy backend that can run it. The job is
+ * then pinned there.
+ */
+export async function backendForSourceImage(
+  model: string,
+  loras: string[],
+  controlNet: string | null = null,
+): Promise<ComfyBackend | undefined> {
+  const { supporting } = await supportingBackends(getBackends(), model, loras, controlNet);
+  return supporting
+    .filter((b) => b.healthy)
+    .sort((a, b) => a.active / a.concurrency - b.active / b.concurrency)[0];
+}
+
+function startJob(entry: QueueEntry, backend: ComfyBackend): void {
+  const { jobId, type } = entry;
+  backend.active++;
   const webhook = consumeWebhook(jobId);
+  _running.set(jobId, { type, backend, promptId: entry.resumePromptId ?? null, webhook });
+  logger.info({ jobId, type, backend: backend.url }, "Runner: starting job");
+
+  const run =
+    type === "upscale"
+      ? runUpscaleJob(jobId, backend, webhook, entry.resumePromptId, entry.workflow)
+      : runGenJob(jobId, backend, webhook, entry.resumePromptId, entry.workflow);
+
+  void run.finally(() => {
+    _running.delete(jobId);
+    _cancelled.delete(jobId);
+    _forceFailed.delete(jobId);
+    backend.active--;
+    scheduleRun();
+  });
+}
 
+/** Mark a job failed and post the failure notice. */
+async function failJob(jobId: string, type: QueueEntry["type"], reason: string): Promise<void> {
   try {
-    if (type === "upscale") {
-      await runUpscaleJob(jobId, webhook);
+    if (type === "gen") {
+      const job = getJobOrThrow(jobId);
+      setJobFailed(jobId, reason);
+      await notifyFailure(job.channelId, job.userId, jobId, reason);
     } else {
-      await runGenJob(jobId, webhook);
+      const job = getUpscaleJobOrThrow(jobId);
+      setUpscaleJobFailed(jobId, reason);
+      await notifyUpscaleFailure(job.channelId, job.userId, jobId, reason);
     }
-  } finally {
-    _running = false;
-    if (_queue.length > 0) setImmediate(runNext);
+  } catch (err) {
+    logger.error({ jobId, type, err }, "Failed to mark job as failed");
   }
 }
 
-async function runGenJob(jobId: string, webhook: InteractionWebhook | undefined): Promise<void> {
+async function runGenJob(
+  jobId: string,
+  backend: ComfyBackend,
+  webhook: InteractionWebhook | undefined,
+  resumePromptId?: string,
+  workflow?: WorkflowDefinition,
+): Promise<void> {
+  let attempt = 1;
+  let promptId = resumePromptId;
   try {
     const job = getJobOrThrow(jobId);
+    attempt = resumePromptId ? Math.max(job.attempts, 1) : recordJobAttempt(jobId);
 
-    // Bind workflow
-    const bindResult = config.gen.workflow === "wildcard" ? bindWildcard(job) : bind(job);
-    if (!bindResult.ok) {
-      await setJobFailed(jobId, `Workflow bind failed: ${bindResult.reason}`);
-      await notifyFailure(job.channelId, job.userId, jobId, bindResult.reason);
-      void editProgress(webhook, "❌ Generation failed — see the error posted in the channel.");
-      return;
-    }
+    if (promptId) {
+      logger.info({ jobId, promptId }, "Runner: resuming polling of gen job's prompt");
+    } else {
+      // Bind workflow
+      const bindResult = bind(job, workflow);
+      if (!bindResult.ok) {
+        await setJobFailed(jobId, `Workflow bind failed: ${bindResult.reason}`);
+        await notifyFailure(job.channelId, job.userId, jobId, bindResult.reason);
+        void editProgress(webhook, "❌ Generation failed — see the error posted in the channel.");
+        return;
+      }
 
-    // Submit to ComfyUI
-    const { promptId } = await comfyClient.submitPrompt(bindResult.workflow);
-    setJobRunning(jobId, promptId);
-    void editProgress(webhook, "🔄 Generating your image… I'll mention you when it's ready.");
+      // Submit to ComfyUI
+      ({ promptId } = await backend.client.submitPrompt(bindResult.workflow));
+      setJobRunning(jobId, promptId, backend.url);
+      await trackPrompt(jobId, promptId);
+      void editProgress(webhook, "🔄 Generating your image… I'll mention you when it's ready.", jobId);
+    }
 
     // Poll for completion
-    const images = await pollUntilDone(promptId, jobId);
-    setJobCompleted(jobId, images);
+    const images = await pollUntilDone(
+      backend.client,
+      promptId,
+      jobId,
+      genJobTimeoutMs(job),
+      progressReporter(webhook, jobId),
+    );
     logger.info({ jobId, promptId, images: images.length }, "Runner: gen job completed");
 
-    // Post results to Discord
-    await postSuccess(job.channelId, job.userId, jobId, images);
+    // Post results to Discord. The row stays `running` until the post is out, so a
+    // restart mid-upload re-posts from ComfyUI history during recovery.
+    await postSuccess(backend.client, job.channelId, job.userId, jobId, images);
+    setJobCompleted(jobId, images);
     void editProgress(webhook, "✅ Done — your image has been posted below.");
   } catch (err) {
-    const msg = err instanceof Error ? err.message : String(err);
-    logger.error({ jobId, err: msg }, "Runner: gen job failed");
+    const forced = _forceFailed.get(jobId);
+    if (_cancelled.has(jobId) && forced === undefined) {
+      setJobCancelled(jobId);
+      logger.info({ jobId }, "Runner: gen job cancelled");
+      void editProgress(webhook, "🚫 Job cancelled.");
+      return;
+    }
+    const msg = forced ?? (err instanceof Error ? err.message : String(err));
+    if (forced === undefined && (await retryLater(jobId, "gen", attempt, err, webhook, backend, workflow, promptId))) return;
+    logger.error({ jobId, attempt, err: msg, nodeErrors: comfyErrorDetail(err) }, "Runner: gen job failed");
     void editProgress(webhook, "❌ Generation failed — see the error posted in the channel.");
     try {
       const job = getJobOrThrow(jobId);
       setJobFailed(jobId, msg);
-      await notifyFailure(job.channelId, job.userId, jobId, "An unexpected error occurred.");
+      await notifyFailure(job.channelId, job.userId, jobId, forced ?? failureReason(err, attempt));
     } catch {
       // DB read may fail too; swallow
     }
   }
 }
 
-async function runUpscaleJob(jobId: string, webhook: InteractionWebhook | undefined): Promise<void> {
+async function runUpscaleJob(
+  jobId: string,
+  backend: ComfyBackend,
+  webhook: InteractionWebhook | undefined,
+  resumePromptId?: string,
+  workflow?: WorkflowDefinition,
+): Promise<void> {
+  let attempt = 1;
+  let promptId = resumePromptId;
   try {
     const job = getUpscaleJobOrThrow(jobId);
-    void editProgress(webhook, "🔄 Upscaling your image… I'll mention you when it's ready.");
-
-    // Bind workflow (uploadedFilename already stored in job)
-    const bindResult = bindUpscale(job, job.sourceImageFilename);
-    if (!bindResult.ok) {
-      setUpscaleJobFailed(jobId, `Workflow bind failed: ${bindResult.reason}`);
-      await notifyUpscaleFailure(job.channelId, job.userId, jobId, bindResult.reason);
-      void editProgress(webhook, "❌ Upscale failed — see the error posted in the channel.");
-      return;
-    }
+    attempt = resumePromptId ? Math.max(job.attempts, 1) : recordUpscaleJobAttempt(jobId);
 
-    // Submit to ComfyUI
-    const { promptId } = await comfyClient.submitPrompt(bindResult.workflow);
-    setUpscaleJobRunning(jobId, promptId);
+    if (promptId) {
+      logger.info({ jobId, promptId }, "Runner: resuming polling of upscale job's prompt");
+    } else {
+      void editProgress(webhook, "🔄 Upscaling your image… I'll mention you when it's ready.", jobId);
+
+      // Bind workflow (uploadedFilename already stored in job)
+      const bindResult = bindUpscale(job, job.sourceImageFilename, workflow);
+      if (!bindResult.ok) {
+        setUpscaleJobFailed(jobId, `Workflow bind failed: ${bindResult.reason}`);
+        await notifyUpscaleFailure(job.channelId, job.userId, jobId, bindResult.reason);
+        void editProgress(webhook, "❌ Upscale failed — see the error posted in the channel.");
+        return;
+      }
+
+      // Submit to ComfyUI
+      ({ promptId } = await backend.client.submitPrompt(bindResult.workflow));
+      setUpscaleJobRunning(jobId, promptId);
+      await trackPrompt(jobId, promptId);
+    }
 
     // Poll for completion
-    const images = await pollUntilDone(promptId, jobId);
-    setUpscaleJobCompleted(jobId, images);
+    const images = await pollUntilDone(
+      backend.client,
+      promptId,
+      jobId,
+      upscaleJobTimeoutMs(job),
+      progressReporter(webhook, jobId),
+    );
     logger.info({ jobId, promptId, images: images.length }, "Runner: upscale job completed");
 
-    // Post results to Discord
-    await postUpscaleSuccess(job.channelId, job.userId, jobId, images);
+    // Post results to Discord (row stays `running` until then — see runGenJob)
+    await postUpscaleSuccess(backend.client, job.channelId, job.userId, jobId, images);
+    setUpscaleJobCompleted(jobId, images);
     void editProgress(webhook, "✅ Done — your upscaled image has been posted below.");
   } catch (err) {
-    const msg = err instanceof Error ? err.message : String(err);
-    logger.error({ jobId, err: msg }, "Runner: upscale job failed");
+    const forced = _forceFailed.get(jobId);
+    if (_cancelled.has(jobId) && forced === undefined) {
+      setUpscaleJobCancelled(jobId);
+      logger.info({ jobId }, "Runner: upscale job cancelled");
+      void editProgress(webhook, "🚫 Upscale cancelled.");
+      return;
+    }
+    const msg = forced ?? (err instanceof Error ? err.message : String(err));
+    if (forced === undefined && (await retryLater(jobId, "upscale", attempt, err, webhook, backend, workflow, promptId))) return;
+    logger.error({ jobId, attempt, err: msg, nodeErrors: comfyErrorDetail(err) }, "Runner: upscale job failed");
     void editProgress(webhook, "❌ Upscale failed — see the error posted in the channel.");
     try {
       const job = getUpscaleJobOrThrow(jobId);
       setUpscaleJobFailed(jobId, msg);
-      await notifyUpscaleFailure(job.channelId, job.userId, jobId, "An unexpected error occurred.");
+      await notifyUpscaleFailure(job.channelId, job.userId, jobId, forced ?? failureReason(err, attempt));
     } catch {
       // swallow
     }
@@ -183,39 +509,571 @@ async function runUpscaleJob(jobId: string, webhook: InteractionWebhook | undefi
 }
 
 // ---------------------------------------------------------------------------
-// Polling
+// Retries
 // ---------------------------------------------------------------------------
 
-async function pollUntilDone(promptId: string, jobId: string): Promise<string[]> {
-  const deadline = Date.now() + config.comfy.timeoutMs;
-  const POLL_INTERVAL = 2_000;
+/** Jobs waiting out a retry backoff; they rejoin the queue when the timer fires. */
+const _retryTimers = new Map<string, { timer: NodeJS.Timeout; entry: QueueEntry }>();
+
+/**
+ * If `err` is transient and the job has attempts left, put it back to `queued`
+ * and re-enqueue it after a backoff. Returns false when the caller should fail
+ * the job instead. The channel is only notified once retries are exhausted.
+ *
+ * A transient error is often the first sign that the backend went down, so its
+ * health is re-checked straight away. If it is down, the job is re-queued at
+ * once without using up an attempt: the runner holds it until a backend that
+ * can serve it is healthy again.
+ *
+ * A job whose prompt was already submitted to a backend that is still up keeps
+ * its row `running`: ComfyUI is most likely still executing the prompt, so the
+ * retry resumes polling it instead of running the job a second time. After an
+ * outage the prompt is submitted again, as a restarted ComfyUI has lost it.
+ */
+async function retryLater(
+  jobId: string,
+  type: QueueEntry["type"],
+  attempt: number,
+  err: unknown,
+  webhook: InteractionWebhook | undefined,
+  backend: ComfyBackend,
+  workflow: WorkflowDefinition | undefined,
+  promptId: string | undefined,
+): Promise<boolean> {
+  if (!isTransientError(err)) return false;
+  const outage = !(await refreshBackendHealth(backend));
+  if (!outage && attempt >= config.queue.maxAttempts) return false;
+
+  const msg = err instanceof Error ? err.message : String(err);
+  const delay = outage ? 0 : retryDelayMs(attempt);
+  const resumePromptId = outage ? undefined : promptId;
+  let userId: string;
+  try {
+    if (type === "gen") {
+      if (resumePromptId) setJobPollRetrying(jobId, msg);
+      else setJobRetrying(jobId, msg, outage);
+      userId = getJobOrThrow(jobId).userId;
+    } else {
+      if (resumePromptId) setUpscaleJobPollRetrying(jobId, msg);
+      else setUpscaleJobRetrying(jobId, msg, outage);
+      userId = getUpscaleJobOrThrow(jobId).userId;
+    }
+  } catch {
+    return false;
+  }
 
-  while (Date.now() < deadline) {
-    await sleep(POLL_INTERVAL);
-    const entry = await comfyClient.getHistory(promptId);
+  if (outage) {
+    logger.warn({ jobId, type, backend: backend.url, err: msg }, "Runner: backend went down — job re-queued");
+    void editProgress(webhook, "⏸️ ComfyUI went offline — your job will restart as soon as it's back.", jobId);
+  } else {
+    logger.warn({ jobId, type, attempt, delayMs: delay, err: msg }, "Runner: transient failure — will retry");
+    void editProgress(
+      webhook,
+      `⚠️ ComfyUI hiccup — retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1} of ${config.queue.maxAttempts})…`,
+      jobId,
+    );
+  }
+  if (webhook) _webhooks.set(jobId, webhook);
 
-    if (!entry) continue;
-    if (!entry.status.completed) continue;
+  // Already had its turn once, so it goes back in ahead of the round-robin,
+  // still pinned to the workflow version it was queued with
+  const entry: QueueEntry = { jobId, type, userId, workflow, resumePromptId };
+  const timer = setTimeout(() => {
+    _retryTimers.delete(jobId);
+    scheduler.pushPriority(entry);
+    scheduleRun();
+  }, delay);
+  _retryTimers.set(jobId, { timer, entry });
+  return true;
+}
 
-    // Collect all image filenames across all output nodes
-    const files: string[] = [];
-    for (const outputNode of Object.values(entry.outputs)) {
-      for (const img of outputNode.images ?? []) {
-        files.push(img.filename);
-      }
+/** Channel-facing failure text. Raw error detail stays in the logs and the DB row. */
+function failureReason(err: unknown, attempt: number): string {
+  const comfySummary = summarizeComfyError(err);
+  if (comfySummary) return comfySummary;
+  if (isTransientError(err)) {
+    return `ComfyUI could not be reached or kept erroring (${attempt} attempt${attempt === 1 ? "" : "s"}). Please try again later.`;
+  }
+  return "An unexpected error occurred.";
+}
+
+// ---------------------------------------------------------------------------
+// Cancellation
+// ---------------------------------------------------------------------------
+
+interface RunningJob {
+  type: QueueEntry["type"];
+  backend: ComfyBackend;
+  /** Null until the workflow has been submitted to ComfyUI. */
+  promptId: string | null;
+  /** The job's ephemeral status message, if it is still editable. */
+  webhook: InteractionWebhook | undefined;
+}
+
+/** Jobs the runner has in flight, keyed by jobId. */
+const _running = new Map<string, RunningJob>();
+/** Running jobs that have been asked to stop; the runner settles them as `cancelled`. */
+const _cancelled = new Set<string>();
+/** Running jobs the owner force-failed, with the reason. Also in _cancelled so polling stops. */
+const _forceFailed = new Map<string, string>();
+
+/**
+ * - `cancelled` — the job was still queued and has been removed and marked cancelled
+ * - `cancelling` — the job is running; ComfyUI has been told to drop it and the
+ *   runner marks it cancelled once polling stops
+ * - `inactive` — the job is neither queued nor running
+ */
+export type CancelResult = "cancelled" | "cancelling" | "inactive";
+
+/** Cancel a queued or running gen/upscale job. Permission checks are up to the caller. */
+export async function cancelJob(jobId: string): Promise<CancelResult> {
+  const retry = _retryTimers.get(jobId);
+  if (retry) {
+    clearTimeout(retry.timer);
+    _retryTimers.delete(jobId);
+    scheduler.pushPriority(retry.entry); // let the queued path below settle it
+  }
+
+  const queued = scheduler.remove(jobId);
+  if (queued) {
+    _webhooks.delete(jobId);
+    await abortResumedPrompt(queued);
+    if (queued.type === "gen") setJobCancelled(jobId);
+    else setUpscaleJobCancelled(jobId);
+    logger.info({ jobId, type: queued.type }, "Queued job cancelled");
+    return "cancelled";
+  }
+
+  const running = _running.get(jobId);
+  if (!running) return "inactive";
+
+  _cancelled.add(jobId);
+  logger.info({ jobId, type: running.type, promptId: running.promptId }, "Cancelling running job");
+  if (running.promptId) await abortPrompt(running.backend, running.promptId);
+  return "cancelling";
+}
+
+/**
+ * Record the prompt a running job was submitted as. If the job was cancelled
+ * while it was being bound or submitted, abort the prompt straight away.
+ */
+async function trackPrompt(jobId: string, promptId: string): Promise<void> {
+  const running = _running.get(jobId);
+  if (!running) return;
+  running.promptId = promptId;
+  if (_cancelled.has(jobId)) await abortPrompt(running.backend, promptId);
+}
+
+/** Abort the prompt a queued entry was going to resume polling, if it has one. */
+async function abortResumedPrompt(entry: QueueEntry): Promise<void> {
+  if (!entry.resumePromptId) return;
+  const url =
+    entry.type === "gen" ? getJobOrThrow(entry.jobId).backendUrl : getUpscaleJobOrThrow(entry.jobId).backendUrl;
+  const backend = backendForJob(url);
+  if (backend) await abortPrompt(backend, entry.resumePromptId);
+}
+
+/** Remove a prompt from the ComfyUI queue, or interrupt it if it is already executing. */
+async function abortPrompt(backend: ComfyBackend, promptId: string): Promise<void> {
+  try {
+    const queue = await backend.client.getQueue();
+    if (queue.pending.includes(promptId)) {
+      await backend.client.deleteFromQueue([promptId]);
+    } else if (queue.running.includes(promptId)) {
+      await backend.client.interrupt(promptId);
+    }
+  } catch (err) {
+    logger.warn({ promptId, backend: backend.url, err }, "Could not abort ComfyUI prompt");
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Owner queue control (/admin)
+// ---------------------------------------------------------------------------
+
+/** Put a job waiting out a retry backoff straight back into the queue so it can be managed. */
+function releaseRetry(jobId: string): void {
+  const retry = _retryTimers.get(jobId);
+  if (!retry) return;
+  clearTimeout(retry.timer);
+  _retryTimers.delete(jobId);
+  scheduler.pushPriority(retry.entry);
+}
+
+/** Resume dispatching after the queue was unpaused (the paused flag itself lives in the DB). */
+export function resumeRunner(): void {
+  scheduleRun();
+}
+
+/**
+ * Resolve a job ID, or a unique prefix of one, among queued and running jobs.
+ * Returns null when nothing or more than one job matches.
+ */
+export function findActiveJob(idOrPrefix: string): { jobId: string; type: QueueEntry["type"] } | null {
+  const active = [
+    ...[..._running].map(([jobId, job]) => ({ jobId, type: job.type })),
+    ...scheduler.scheduledOrder().map(({ jobId, type }) => ({ jobId, type })),
+    ...[..._retryTimers.values()].map(({ entry }) => ({ jobId: entry.jobId, type: entry.type })),
+  ];
+  const matches = active.filter((j) => j.jobId.startsWith(idOrPrefix));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/** Cancel every queued job, including ones waiting to retry. Returns how many were removed. */
+export function clearQueue(): number {
+  for (const jobId of [..._retryTimers.keys()]) releaseRetry(jobId);
+  const entries = scheduler.scheduledOrder();
+  for (const entry of entries) {
+    scheduler.remove(entry.jobId);
+    void abortResumedPrompt(entry);
+    if (entry.type === "gen") setJobCancelled(entry.jobId);
+    else setUpscaleJobCancelled(entry.jobId);
+    void editProgress(consumeWebhook(entry.jobId), "🚫 Your job was removed from the queue by the bot owner.");
+  }
+  logger.info({ removed: entries.length }, "Queue cleared");
+  return entries.length;
+}
+
+/** Move a queued job to the very front of the queue. Returns false if it is not queued. */
+export function bumpJob(jobId: string): boolean {
+  releaseRetry(jobId);
+  const entry = scheduler.remove(jobId);
+  if (!entry) return false;
+  scheduler.pushFront(entry);
+  logger.info({ jobId }, "Job moved to the front of the queue");
+  scheduleRun();
+  return true;
+}
+
+/**
+ * Fail a job on the owner's behalf, e.g. one stuck on ComfyUI. A running job is
+ * stopped like a cancel and the runner settles it as failed with `reason`
+ * (`failing`); a queued job, or a row left `running` that the runner does not
+ * hold, is failed at once (`failed`).
+ */
+export async function forceFailJob(jobId: string, reason: string): Promise<"failing" | "failed" | "inactive"> {
+  const running = _running.get(jobId);
+  if (running) {
+    _forceFailed.set(jobId, reason);
+    _cancelled.add(jobId);
+    logger.warn({ jobId, type: running.type, promptId: running.promptId, reason }, "Force-failing running job");
+    if (running.promptId) await abortPrompt(running.backend, running.promptId);
+    return "failing";
+  }
+
+  releaseRetry(jobId);
+  const queued = scheduler.remove(jobId);
+  if (queued) await abortResumedPrompt(queued);
+  let type = queued?.type;
+  if (!type) {
+    const gen = getJobsByStatus("running").find((j) => j.id === jobId);
+    const upscale = getUpscaleJobsByStatus("running").find((j) => j.id === jobId);
+    type = gen ? "gen" : upscale ? "upscale" : undefined;
+  }
+  if (!type) return "inactive";
+
+  logger.warn({ jobId, type, reason }, "Force-failing job");
+  void editProgress(consumeWebhook(jobId), "❌ This job was stopped by the bot owner — see the error posted in the channel.");
+  await failJob(jobId, type, reason);
+  return "failed";
+}
+
+// ---------------------------------------------------------------------------
+// Shutdown
+// ---------------------------------------------------------------------------
+
+/** Set once shutdown begins; the runner stops starting jobs. */
+let _draining = false;
+
+const DRAIN_POLL_INTERVAL = 250;
+
+/**
+ * Stop starting jobs and wait up to `graceMs` for in-flight ones to finish and
+ * post. Nothing is failed: queued and retrying jobs stay `queued` and jobs still
+ * running when the grace period ends stay `running`, and recoverJobs picks both
+ * up on the next start. Users with a live status message are told what happens.
+ */
+export async function drain(graceMs: number): Promise<void> {
+  _draining = true;
+
+  // Retrying rows are already back to `queued` in the DB, or still `running` with
+  // the prompt they were going to resume polling
+  for (const { timer } of _retryTimers.values()) clearTimeout(timer);
+  _retryTimers.clear();
+
+  const waiting = [..._webhooks];
+  _webhooks.clear();
+  await Promise.all(
+    waiting.map(([jobId, webhook]) =>
+      editProgress(
+        webhook,
+        "🔄 The bot is restarting — your job keeps its place in the queue and will run once it's back.",
+        jobId,
+      ),
+    ),
+  );
+
+  if (_running.size > 0) {
+    logger.info({ running: _running.size, graceMs }, "Shutdown: waiting for running jobs to finish");
+  }
+  const deadline = Date.now() + graceMs;
+  while (_running.size > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, DRAIN_POLL_INTERVAL));
+  }
+  if (_running.size === 0) return;
+
+  logger.warn({ jobIds: [..._running.keys()] }, "Shutdown: grace period over — leaving running jobs for recovery");
+  await Promise.all(
+    [..._running].map(([jobId, job]) =>
+      editProgress(
+        job.webhook,
+        "🔄 The bot is restarting — your job is still running and will be posted once the bot is back.",
+        jobId,
+      ),
+    ),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Startup recovery
+// ---------------------------------------------------------------------------
+
+const RESTART_LOST_REASON =
+  "The bot restarted while this job was running and ComfyUI reported an error for it. Please try again.";
+
+/**
+ * Rebuild the in-memory queue from the DB after a restart.
+ *
+ * Rows left in `running` are reconciled against ComfyUI `/history` first:
+ * finished prompts are completed and posted, errored prompts are failed with a
+ * channel notice, and prompts ComfyUI has not finished yet resume polling ahead
+ * of everything else. Rows still `queued` are then re-enqueued in creation order.
+ * Must be called once the Discord client is ready so notices can be posted.
+ */
+export async function recoverJobs(): Promise<void> {
+  const resumed: QueueEntry[] = [];
+
+  for (const job of getJobsByStatus("running")) {
+    const entry = await reconcileRunning(job.id, "gen", job.userId, job.comfyPromptId, job.backendUrl);
+    if (entry) resumed.push(entry);
+  }
+  for (const job of getUpscaleJobsByStatus("running")) {
+    const entry = await reconcileRunning(job.id, "upscale", job.userId, job.comfyPromptId, job.backendUrl);
+    if (entry) resumed.push(entry);
+  }
+
+  const queued = [
+    ...getJobsByStatus("queued").map((j) => ({ jobId: j.id, type: "gen" as const, userId: j.userId, createdAt: j.createdAt })),
+    ...getUpscaleJobsByStatus("queued").map((j) => ({
+      jobId: j.id,
+      type: "upscale" as const,
+      userId: j.userId,
+      createdAt: j.createdAt,
+    })),
+  ].sort((a, b) => a.createdAt - b.createdAt);
+
+  // Role weights are not persisted, so recovered users all start at weight 1.
+  scheduler.pushPriority(...resumed);
+  for (const { jobId, type, userId } of queued) scheduler.push({ jobId, type, userId });
+
+  logger.info({ resumed: resumed.length, queued: queued.length }, "Recovered jobs from previous run");
+  if (scheduler.size() > 0) scheduleRun();
+}
+
+/**
+ * Decide what to do with a job that was `running` when the process stopped.
+ * Returns a queue entry if polling should resume, or null if the job was settled here.
+ */
+async function reconcileRunning(
+  jobId: string,
+  type: QueueEntry["type"],
+  userId: string,
+  promptId: string | null,
+  backendUrl: string | null,
+): Promise<QueueEntry | null> {
+  try {
+    if (!promptId) {
+      await failJob(jobId, type, "The bot restarted before this job reached ComfyUI. Please try again.");
+      return null;
+    }
+    const backend = backendForJob(backendUrl);
+    if (!backend) {
+      await failJob(jobId, type, `The ComfyUI backend this job ran on (${backendUrl}) is no longer configured.`);
+      return null;
+    }
+
+    let entry: ComfyHistoryEntry | null;
+    try {
+      entry = await backend.client.getHistory(promptId);
+    } catch (err) {
+      // Polling retries transient errors, so let it find out how the prompt ended
+      logger.warn({ jobId, type, promptId, err }, "Recovery: could not read ComfyUI history — resuming polling");
+      return { jobId, type, userId, resumePromptId: promptId };
+    }
+    if (!entry || (!entry.status.completed && entry.status.status_str !== "error")) {
+      logger.info({ jobId, type, promptId }, "Recovery: prompt not finished yet — resuming polling");
+      return { jobId, type, userId, resumePromptId: promptId };
+    }
+
+    if (!entry.status.completed) {
+      const nodeError = nodeErrorFromHistory(entry);
+      logger.warn({ jobId, type, promptId, nodeError }, "Recovery: ComfyUI reported an error for running job");
+      const detail = nodeError ? summarizeComfyError(new ComfyExecutionError(promptId, nodeError)) : null;
+      await failJob(jobId, type, detail ? `${RESTART_LOST_REASON}\n${detail}` : RESTART_LOST_REASON);
+      return null;
+    }
+
+    const images = collectOutputFiles(entry);
+    logger.info({ jobId, type, promptId, images: images.length }, "Recovery: prompt finished while bot was down");
+    // Post before completing the row, as runGenJob does, so a restart mid-upload posts again
+    if (type === "gen") {
+      const job = getJobOrThrow(jobId);
+      await postSuccess(backend.client, job.channelId, job.userId, jobId, images);
+      setJobCompleted(jobId, images);
+    } else {
+      const job = getUpscaleJobOrThrow(jobId);
+      await postUpscaleSuccess(backend.client, job.channelId, job.userId, jobId, images);
+      setUpscaleJobCompleted(jobId, images);
     }
+  } catch (err) {
+    logger.error({ jobId, type, err }, "Recovery: failed to reconcile running job");
+  }
+  return null;
+}
 
-    if (files.length === 0) {
-      logger.warn({ promptId, jobId }, "ComfyUI reported completed but no images found in outputs");
+// ---------------------------------------------------------------------------
+// Polling
+// ---------------------------------------------------------------------------
+
+/** While the WebSocket is up, /history is only checked this often as a safety net. */
+const SOCKET_HISTORY_INTERVAL = 15_000;
+const POLL_INTERVAL = 2_000;
+
+/**
+ * Wait for a submitted prompt to finish and return its output filenames.
+ *
+ * Execution events from the ComfyUI WebSocket drive progress updates and let
+ * completion and execution errors surface immediately. `/history` is polled
+ * every POLL_INTERVAL whenever the socket is down, so a dropped connection only
+ * costs latency.
+ *
+ * Whenever the prompt is missing from `/history`, `/queue` is checked too: a
+ * prompt in neither was lost (ComfyUI restarted) and fails right away, and a
+ * prompt still pending in ComfyUI's own queue does not use up `timeoutMs`.
+ * A failed request to either is thrown, not read as a missing prompt.
+ */
+async function pollUntilDone(
+  client: ComfyClient,
+  promptId: string,
+  jobId: string,
+  timeoutMs: number,
+  onProgress?: (detail: string) => void,
+): Promise<string[]> {
+  let deadline = Date.now() + timeoutMs;
+  const state: { finished: boolean; error: ComfyExecutionError | null; wake: (() => void) | null } = {
+    finished: false,
+    error: null,
+    wake: null,
+  };
+
+  const unsubscribe = client.watchPrompt(promptId, (event) => {
+    switch (event.type) {
+      case "progress":
+        onProgress?.(`Sampling ${event.value}/${event.max}${event.node ? ` — node ${event.node}` : ""}`);
+        return;
+      case "executing":
+        if (event.node !== null) {
+          onProgress?.(`Running node ${event.node}…`);
+          return;
+        }
+        state.finished = true;
+        break;
+      case "execution_success":
+        state.finished = true;
+        break;
+      case "execution_error":
+        state.error = new ComfyExecutionError(promptId, {
+          nodeId: event.nodeId,
+          nodeType: event.nodeType,
+          message: event.message,
+          detail: event.detail,
+        });
+        break;
+      case "execution_interrupted":
+        state.error = new ComfyExecutionError(promptId, null, true);
+        break;
+    }
+    state.wake?.();
+  });
+
+  try {
+    let lastHistoryCheck = 0;
+    while (Date.now() < deadline) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await new Promise<void>((resolve) => {
+        state.wake = resolve;
+        timer = setTimeout(resolve, POLL_INTERVAL);
+      });
+      // A WebSocket event may have woken us early; don't leave the timer behind
+      clearTimeout(timer);
+      state.wake = null;
+
+      if (_cancelled.has(jobId)) {
+        throw new Error(`Job cancelled (ComfyUI prompt ${promptId})`);
+      }
+      if (state.error) throw state.error;
+      if (
+        !state.finished &&
+        client.isSocketConnected() &&
+        Date.now() - lastHistoryCheck < SOCKET_HISTORY_INTERVAL
+      ) {
+        continue;
+      }
+
+      lastHistoryCheck = Date.now();
+      let entry = await client.getHistory(promptId);
+
+      if (!entry) {
+        const queue = await client.getQueue();
+        if (queue.pending.includes(promptId)) {
+          deadline = Date.now() + timeoutMs;
+          continue;
+        }
+        if (queue.running.includes(promptId)) continue;
+        // It may have finished between the two requests
+        entry = await client.getHistory(promptId);
+        if (!entry) throw new ComfyLostPromptError(promptId);
+      }
+      if (entry.status.status_str === "error") {
+        throw new ComfyExecutionError(promptId, nodeErrorFromHistory(entry));
+      }
+      if (!entry.status.completed) continue;
+
+      const files = collectOutputFiles(entry);
+      if (files.length === 0) {
+        // Some builds mark a failed run completed; the error is still in the messages
+        const nodeError = nodeErrorFromHistory(entry);
+        if (nodeError) throw new ComfyExecutionError(promptId, nodeError);
+        logger.warn({ promptId, jobId }, "ComfyUI reported completed but no images found in outputs");
+      }
+      return files;
     }
-    return files;
+  } finally {
+    unsubscribe();
   }
 
-  throw new Error(`Job timed out after ${config.comfy.timeoutMs / 1000}s (ComfyUI prompt ${promptId})`);
+  throw new Error(`Job timed out after ${Math.round(timeoutMs / 1000)}s (ComfyUI prompt ${promptId})`);
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/** Collect all image filenames across all output nodes of a history entry. */
+function collectOutputFiles(entry: ComfyHistoryEntry): string[] {
+  const files: string[] = [];
+  for (const outputNode of Object.values(entry.outputs)) {
+    for (const img of outputNode.images ?? []) {
+      files.push(img.filename);
+    }
+  }
+  return files;
 }
 
 // ---------------------------------------------------------------------------
@@ -223,6 +1081,7 @@ function sleep(ms: number): Promise<void> {
 // ---------------------------------------------------------------------------
 
 async function postSuccess(
+  comfy: ComfyClient,
   channelId: string,
   userId: string,
   jobId: string,
@@ -241,7 +1100,7 @@ async function postSuccess(
 
     const attachments = await Promise.all(
       imageFilenames.map(async (filename) => {
-        const entry = await comfyClient.getHistory(job.comfyPromptId!);
+        const entry = await withRetries("fetch output history", () => comfy.getHistory(job.comfyPromptId!));
         // Find subfolder/type for this filename
         let subfolder = "";
         let type = "output";
@@ -255,7 +1114,7 @@ async function postSuccess(
             }
           }
         }
-        const buf = await comfyClient.getImage(filename, subfolder, type);
+        const buf = await withRetries(`fetch output ${filename}`, () => comfy.getImage(filename, subfolder, type));
         return new AttachmentBuilder(buf, { name: filename });
       }),
     );
@@ -265,8 +1124,27 @@ async function postSuccess(
         ? job.positivePrompt.slice(0, 197) + "…"
         : job.positivePrompt;
 
+    // An inpaint result is shown beside the image it was painted into
+    const original =
+      job.mask && job.sourceImage
+        ? await withRetries(`fetch inpaint source ${job.sourceImage.filename}`, () =>
+            comfy.getImage(job.sourceImage!.filename, "", "input"),
+          )
+            .then((buf) => new AttachmentBuilder(buf, { name: `original_${job.sourceImage!.filename}` }))
+            .catch((err: unknown) => {
+              logger.warn({ jobId, err }, "Could not fetch inpaint source image");
+              return null;
+            })
+        : null;
+
     const embed = new EmbedBuilder()
-      .setTitle(`Image generated by ${displayName}`)
+      .setTitle(
+        job.mask
+          ? `Image inpainted by ${displayName}`
+          : attachments.length > 1
+            ? `${attachments.length} images generated by ${displayName}`
+            : `Image generated by ${displayName}`,
+      )
       .setColor(0x5865f2)
       .addFields(
         { name: "Model", value: job.model, inline: true },
@@ -275,55 +1153,54 @@ async function postSuccess(
         { name: "Steps", value: String(job.steps), inline: true },
         { name: "CFG", value: String(job.cfg), inline: true },
         { name: "Seed", value: String(job.seed), inline: true },
-        { name: "Size", value: job.size, inline: true },
+        { name: "Size", value: formatSize(job.size), inline: true },
       )
-      .setFooter({ text: "Prompt hidden — requester can click Share Prompt to reveal" });
+      .setFooter({
+        text: original
+          ? "Prompt hidden — requester can click Share Prompt to reveal · Inpainted left, original right"
+          : attachments.length > 1
+            ? "Prompt hidden — requester can click Share Prompt to reveal · Images are numbered left to right, top to bottom"
+            : "Prompt hidden — requester can click Share Prompt to reveal",
+      });
+
+    if (job.sourceImage) {
+      embed.addFields({ name: "Denoise", value: job.denoise.toFixed(2), inline: true });
+    }
+    if (job.mask) {
+      embed.addFields({ name: "Mask", value: `grow ${job.mask.grow}px · feather ${job.mask.feather}px`, inline: true });
+    }
+    if (job.controlNet) {
+      const { model, preprocessor, strength } = job.controlNet;
+      embed.addFields({
+        name: "ControlNet",
+        value: `${model} · ${preprocessor ?? "no preprocessor"} · strength ${strength.toFixed(2)}`,
+        inline: true,
+      });
+    }
 
     if (attachments.length > 0) {
       embed.setImage(`attachment://${attachments[0].name}`);
     }
 
-    const { ActionRowBuilder, ButtonBuilder, ButtonStyle } = await import("discord.js");
-    const { CUSTOM_ID } = await import("../bot/components/formEmbed.js");
-
-    const shareButton = new ButtonBuilder()
-      .setCustomId(`${CUSTOM_ID.SHARE_PROMPT_PREFIX}:${jobId}`)
-      .setLabel("Share Prompt")
-      .setStyle(ButtonStyle.Secondary);
-
-    const rerollButton = new ButtonBuilder()
-      .setCustomId(`${CUSTOM_ID.REROLL_PREFIX}:${jobId}`)
-      .setLabel("🎲 Re-roll")
-      .setStyle(ButtonStyle.Primary);
-
-    const editButton = new ButtonBuilder()
-      .setCustomId(`${CUSTOM_ID.EDIT_PREFIX}:${jobId}`)
-      .setLabel("✏️ Edit")
-      .setStyle(ButtonStyle.Secondary);
-
-    const deleteButton = new ButtonBuilder()
-      .setCustomId(`${CUSTOM_ID.DELETE_PREFIX}:${jobId}`)
-      .setLabel("🗑️ Delete")
-      .setStyle(ButtonStyle.Danger);
-
-    const buttons: ButtonBuilder[] = [shareButton, rerollButton, editButton];
-
-    if (config.upscale.enabled) {
-      const upscaleButton = new ButtonBuilder()
-        .setCustomId(`${CUSTOM_ID.UPSCALE_PREFIX}:${jobId}`)
-        .setLabel("⬆️ Upscale")
-        .setStyle(ButtonStyle.Success);
-      buttons.push(upscaleButton);
+    const { buildOutputRows, MAX_BATCH_SIZE } = await import("../bot/components/formEmbed.js");
+
+    // Discord renders embeds that share a URL as one gallery (a 2×2 grid for
+    // four images), so each further image gets an image-only embed with the same URL.
+    const embeds = [embed];
+    const gallery = [...attachments.slice(1, MAX_BATCH_SIZE), ...(original ? [original] : [])];
+    if (gallery.length > 0) {
+      const galleryUrl = `https://discord.com/channels/${job.guildId}/${job.channelId}?job=${jobId}`;
+      embed.setURL(galleryUrl);
+      for (const attachment of gallery) {
+        embeds.push(new EmbedBuilder().setURL(galleryUrl).setImage(`attachment://${attachment.name}`));
+      }
     }
 
-    buttons.push(deleteButton);
-    const shareRow = new ActionRowBuilder<ButtonBuilder>().addComponents(...buttons);
-
     await channel.send({
       content: `<@${userId}>`,
-      embeds: [embed],
-      files: attachments,
-      components: [shareRow],
+      embeds,
+      files: original ? [...attachments, original] : attachments,
+      components: buildOutputRows(jobId, attachments.length, true),
     });
   } catch (err) {
     logger.error({ jobId, err }, "Failed to post completion to Discord");
@@ -355,6 +1232,7 @@ async function notifyFailure(
 }
 
 async function postUpscaleSuccess(
+  comfy: ComfyClient,
   channelId: string,
   userId: string,
   jobId: string,
@@ -373,7 +1251,7 @@ async function postUpscaleSuccess(
 
     const attachments = await Promise.all(
       imageFilenames.map(async (filename) => {
-        const entry = await comfyClient.getHistory(job.comfyPromptId!);
+        const entry = await withRetries("fetch output history", () => comfy.getHistory(job.comfyPromptId!));
         let subfolder = "";
         let type = "output";
         if (entry) {
@@ -386,7 +1264,7 @@ async function postUpscaleSuccess(
             }
           }
         }
-        const buf = await comfyClient.getImage(filename, subfolder, type);
+        const buf = await withRetries(`fetch output ${filename}`, () => comfy.getImage(filename, subfolder, type));
         return new AttachmentBuilder(buf, { name: filename });
       }),
     );
@@ -397,9 +1275,17 @@ async function postUpscaleSuccess(
       .addFields(
         { name: "Model", value: job.model, inline: true },
         { name: "Upscale Model", value: job.upscaleModel, inline: true },
-        { name: "Workflow", value: config.upscale.workflow, inline: true },
-      )
-      .setFooter({ text: `Source job: ${job.sourceJobId}` });
+        { name: "Mode", value: getWorkflow(job.workflow, "upscale")?.manifest.label ?? job.workflow, inline: true },
+        { name: "Scale", value: `${job.scale}×`, inline: true },
+      );
+    if (job.denoise !== null) embed.addFields({ name: "Denoise", value: job.denoise.toFixed(2), inline: true });
+    if (job.tileSize !== null) embed.addFields({ name: "Tile Size", value: `${job.tileSize}px`, inline: true });
+    embed
+      .setFooter({
+        text: job.sourceJobId
+          ? `Source job: ${job.sourceJobId} · image #${job.sourceImageIndex + 1}`
+          : "Source: image from a message",
+      });
 
     if (attachments.length > 0) {
       embed.setImage(`attachment://${attachments[0].name}`);
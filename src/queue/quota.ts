@@ -0,0 +1,139 @@
+import { listQuotaTiers, getQuotaUsage, recordQuotaUsage, type QuotaTier } from "../db/quotas.js";
+import { config } from "../config.js";
+import { parseSize } from "./sizes.js";
+import type { ImageSize } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Quotas
+//
+// Limits come from the tiers of the roles a member holds; when several tiers
+// apply, the most generous value of each limit wins. Members with no tiered
+// role (and no @everyone tier) are unlimited, as is the bot owner. Windows are
+// rolling: "per hour" is the last 60 minutes, "per day" the last 24 hours.
+// ---------------------------------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type QuotaLimits = Pick<QuotaTier, "jobsPerHour" | "jobsPerDay" | "budgetPerDay">;
+
+/** What is left after the job being checked, per limit. null = that limit is unlimited. */
+export interface QuotaRemaining {
+  jobsThisHour: number | null;
+  jobsToday: number | null;
+  budgetToday: number | null;
+}
+
+export type QuotaCheck =
+  | { ok: true; remaining: QuotaRemaining | null } // remaining null = no quota applies
+  | { ok: false; reason: string };
+
+/** Most generous of two limits, where null means unlimited. */
+function looser(a: number | null, b: number | null): number | null {
+  return a === null || b === null ? null : Math.max(a, b);
+}
+
+/** Effective limits for a member with the given roles, or null if no tier applies. */
+export function resolveQuota(roleIds: readonly string[]): QuotaLimits | null {
+  const tiers = listQuotaTiers().filter((t) => roleIds.includes(t.roleId));
+  if (tiers.length === 0) return null;
+  return tiers.slice(1).reduce<QuotaLimits>(
+    (acc, t) => ({
+      jobsPerHour: looser(acc.jobsPerHour, t.jobsPerHour),
+      jobsPerDay: looser(acc.jobsPerDay, t.jobsPerDay),
+      budgetPerDay: looser(acc.budgetPerDay, t.budgetPerDay),
+    }),
+    { jobsPerHour: tiers[0].jobsPerHour, jobsPerDay: tiers[0].jobsPerDay, budgetPerDay: tiers[0].budgetPerDay },
+  );
+}
+
+/** Budget cost of a generation: steps × megapixels × images. Upscales cost 0 and only count as jobs. */
+export function genJobCost(steps: number, size: ImageSize, batchSize: number): number {
+  const [w, h] = parseSize(size);
+  return Math.round(steps * ((w * h) / 1_000_000) * batchSize * 100) / 100;
+}
+
+/** Discord relative timestamp for when a window entry made at `at` ages out. */
+function freesUpAt(at: number | null, windowMs: number): string {
+  return at === null ? "soon" : `<t:${Math.ceil((at + windowMs) / 1000)}:R>`;
+}
+
+/**
+ * Check whether `userId` may submit a job costing `cost`. Does not charge —
+ * call chargeQuota once the job row exists.
+ */
+export function checkQuota(userId: string, roleIds: readonly string[], cost: number): QuotaCheck {
+  if (userId === config.ownerId) return { ok: true, remaining: null };
+  const limits = resolveQuota(roleIds);
+  if (!limits) return { ok: true, remaining: null };
+
+  const now = Date.now();
+  const hour = getQuotaUsage(userId, now - HOUR_MS);
+  const day = getQuotaUsage(userId, now - DAY_MS);
+
+  if (limits.jobsPerHour !== null && hour.jobs >= limits.jobsPerHour) {
+    return {
+      ok: false,
+      reason: `You've used all **${limits.jobsPerHour}** jobs allowed per hour. Your next one frees up ${freesUpAt(hour.oldestAt, HOUR_MS)}.`,
+    };
+  }
+  if (limits.jobsPerDay !== null && day.jobs >= limits.jobsPerDay) {
+    return {
+      ok: false,
+      reason: `You've used all **${limits.jobsPerDay}** jobs allowed per day. Your next one frees up ${freesUpAt(day.oldestAt, DAY_MS)}.`,
+    };
+  }
+  if (limits.budgetPerDay !== null && day.cost + cost > limits.budgetPerDay) {
+    const left = Math.max(limits.budgetPerDay - day.cost, 0);
+    return {
+      ok: false,
+      reason:
+        `This job costs **${formatCost(cost)}** of your daily budget but only **${formatCost(left)}** is left. ` +
+        `Try fewer steps, a smaller size or batch, or wait — budget frees up ${freesUpAt(day.oldestAt, DAY_MS)}.`,
+    };
+  }
+
+  return {
+    ok: true,
+    remaining: {
+      jobsThisHour: limits.jobsPerHour === null ? null : limits.jobsPerHour - hour.jobs - 1,
+      jobsToday: limits.jobsPerDay === null ? null : limits.jobsPerDay - day.jobs - 1,
+      budgetToday: limits.budgetPerDay === null ? null : limits.budgetPerDay - day.cost - cost,
+    },
+  };
+}
+
+export function chargeQuota(userId: string, jobId: string, kind: "gen" | "upscale", cost: number): void {
+  recordQuotaUsage(userId, jobId, kind, cost);
+}
+
+/** Current usage against the member's limits, for /quota. */
+export function describeQuota(
+  userId: string,
+  roleIds: readonly string[],
+): { limits: QuotaLimits | null; jobsThisHour: number; jobsToday: number; costToday: number } {
+  const now = Date.now();
+  const hour = getQuotaUsage(userId, now - HOUR_MS);
+  const day = getQuotaUsage(userId, now - DAY_MS);
+  return {
+    limits: userId === config.ownerId ? null : resolveQuota(roleIds),
+    jobsThisHour: hour.jobs,
+    jobsToday: day.jobs,
+    costToday: day.cost,
+  };
+}
+
+/** Budget units are steps × megapixels, shown as e.g. "38.9 MP-steps". */
+export function formatCost(cost: number): string {
+  return `${cost.toLocaleString("en-US", { maximumFractionDigits: 1 })} MP-steps`;
+}
+
+/** One-line allowance summary for queued messages, or null if nothing is limited. */
+export function formatRemaining(remaining: QuotaRemaining | null): string | null {
+  if (!remaining) return null;
+  const parts: string[] = [];
+  if (remaining.jobsThisHour !== null) parts.push(`${remaining.jobsThisHour} jobs this hour`);
+  if (remaining.jobsToday !== null) parts.push(`${remaining.jobsToday} jobs today`);
+  if (remaining.budgetToday !== null) parts.push(`${formatCost(remaining.budgetToday)} today`);
+  return parts.length > 0 ? `Quota left: ${parts.join(" · ")}` : null;
+}
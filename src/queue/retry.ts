@@ -0,0 +1,62 @@
+import { ComfyHttpError } from "../comfy/errors.js";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+
+// ---------------------------------------------------------------------------
+// Retry policy
+//
+// Transient errors are worth retrying: the request never reached ComfyUI, or
+// ComfyUI / a proxy in front of it had a hiccup. Anything else — a bind
+// failure, ComfyUI rejecting the prompt (4xx with node_errors), an execution
+// error inside the graph, ComfyUI losing the prompt, a timeout while the prompt
+// ran — is permanent and fails the job on the first occurrence.
+// ---------------------------------------------------------------------------
+
+/** Socket-level error codes from Node and undici that indicate a network blip. */
+const TRANSIENT_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CLOSED",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof ComfyHttpError) {
+    return err.statusCode >= 500 || err.statusCode === 408 || err.statusCode === 429;
+  }
+  // undici sometimes wraps the socket error in `cause`
+  for (let e: unknown = err; e instanceof Error; e = e.cause) {
+    const code = (e as Error & { code?: unknown }).code;
+    if (typeof code === "string" && TRANSIENT_CODES.has(code)) return true;
+  }
+  return false;
+}
+
+/** Backoff before retry number `retry` (1-based): JOB_RETRY_BASE_MS, doubling each time. */
+export function retryDelayMs(retry: number): number {
+  return config.queue.retryBaseMs * 2 ** (retry - 1);
+}
+
+/**
+ * Run an idempotent request, retrying transient failures in place with backoff
+ * (up to JOB_MAX_ATTEMPTS tries). Used for fetching outputs, where re-running
+ * the whole job would only produce a different image.
+ */
+export async function withRetries<T>(what: string, fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= config.queue.maxAttempts || !isTransientError(err)) throw err;
+      const delay = retryDelayMs(attempt);
+      logger.warn({ what, attempt, delayMs: delay, err }, "Transient ComfyUI error — retrying");
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
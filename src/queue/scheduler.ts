@@ -0,0 +1,188 @@
+import { config } from "../config.js";
+import type { WorkflowDefinition } from "../comfy/workflowManifest.js";
+
+// ---------------------------------------------------------------------------
+// Fair scheduler — weighted round-robin across users
+//
+// Each user has their own FIFO of queued entries. Users take turns in a
+// rotation; on their turn a user may dispatch up to `weight` jobs (weight comes
+// from their roles, default 1) before moving to the back of the rotation.
+// A separate priority lane (jobs resumed after a restart) always goes first.
+//
+// The runner may skip the head entry when no backend can take it right now, so
+// take() updates the rotation for whichever user's entry was actually started.
+// ---------------------------------------------------------------------------
+
+export interface QueueEntry {
+  jobId: string;
+  type: "gen" | "upscale";
+  userId: string;
+  /**
+   * Set for jobs already submitted to ComfyUI, whose prompt is polled again rather
+   * than resubmitted: jobs recovered after a restart, and retries of a transient
+   * error while polling.
+   */
+  resumePromptId?: string;
+  /** Workflow version live when the job was queued; it runs with this one even if the files are reloaded. */
+  workflow?: WorkflowDefinition;
+}
+
+interface SchedulerState {
+  priority: QueueEntry[];
+  userQueues: Map<string, QueueEntry[]>;
+  /** Users with queued entries; index 0 is served next. */
+  rotation: string[];
+  /** Picks left in the current turn, for users part-way through one. */
+  credits: Map<string, number>;
+  weights: Map<string, number>;
+}
+
+const _state: SchedulerState = {
+  priority: [],
+  userQueues: new Map(),
+  rotation: [],
+  credits: new Map(),
+  weights: new Map(),
+};
+
+function cloneState(state: SchedulerState): SchedulerState {
+  return {
+    priority: [...state.priority],
+    userQueues: new Map([...state.userQueues].map(([u, q]) => [u, [...q]])),
+    rotation: [...state.rotation],
+    credits: new Map(state.credits),
+    weights: new Map(state.weights),
+  };
+}
+
+function addEntry(state: SchedulerState, entry: QueueEntry, weight: number): void {
+  state.weights.set(entry.userId, weight);
+  const queue = state.userQueues.get(entry.userId);
+  if (queue) {
+    queue.push(entry);
+  } else {
+    state.userQueues.set(entry.userId, [entry]);
+    state.rotation.push(entry.userId);
+  }
+}
+
+/** Remove `entry` from the state and charge its user's turn. */
+function takeEntry(state: SchedulerState, entry: QueueEntry): void {
+  const pIdx = state.priority.indexOf(entry);
+  if (pIdx !== -1) {
+    state.priority.splice(pIdx, 1);
+    return;
+  }
+
+  const { userId } = entry;
+  const queue = state.userQueues.get(userId);
+  const idx = queue?.indexOf(entry) ?? -1;
+  if (!queue || idx === -1) return;
+  queue.splice(idx, 1);
+
+  const left = (state.credits.get(userId) ?? state.weights.get(userId) ?? 1) - 1;
+  const rIdx = state.rotation.indexOf(userId);
+  if (queue.length === 0) {
+    state.userQueues.delete(userId);
+    state.rotation.splice(rIdx, 1);
+    state.credits.delete(userId);
+  } else if (left <= 0) {
+    state.rotation.splice(rIdx, 1);
+    state.rotation.push(userId);
+    state.credits.delete(userId);
+  } else {
+    state.credits.set(userId, left);
+  }
+}
+
+/** The order in which entries would be dispatched if every backend were free. */
+function orderOf(state: SchedulerState): QueueEntry[] {
+  const sim = cloneState(state);
+  const order: QueueEntry[] = [...sim.priority];
+  sim.priority = [];
+  while (sim.rotation.length > 0) {
+    const next = sim.userQueues.get(sim.rotation[0])![0];
+    order.push(next);
+    takeEntry(sim, next);
+  }
+  return order;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Scheduling weight for a user with the given roles: the highest configured role weight, min 1. */
+export function userWeight(roleIds: readonly string[]): number {
+  let weight = 1;
+  for (const roleId of roleIds) {
+    weight = Math.max(weight, config.queue.roleWeights[roleId] ?? 1);
+  }
+  return weight;
+}
+
+export function push(entry: QueueEntry, weight = 1): void {
+  addEntry(_state, entry, weight);
+}
+
+/** Add entries to the priority lane, ahead of every user's turn. */
+export function pushPriority(...entries: QueueEntry[]): void {
+  _state.priority.push(...entries);
+}
+
+/** Queue `entry` ahead of everything else, including the priority lane (owner bump). */
+export function pushFront(entry: QueueEntry): void {
+  _state.priority.unshift(entry);
+}
+
+/** Mark `entry` as dispatched. */
+export function take(entry: QueueEntry): void {
+  takeEntry(_state, entry);
+}
+
+/** Remove a queued job without charging its user's turn. Returns the entry if found. */
+export function remove(jobId: string): QueueEntry | undefined {
+  const entry = scheduledOrder().find((e) => e.jobId === jobId);
+  if (!entry) return undefined;
+  const credits = _state.credits.get(entry.userId);
+  takeEntry(_state, entry);
+  if (credits !== undefined && _state.rotation.includes(entry.userId)) {
+    _state.credits.set(entry.userId, credits);
+  }
+  return entry;
+}
+
+export function has(entry: QueueEntry): boolean {
+  return _state.priority.includes(entry) || (_state.userQueues.get(entry.userId)?.includes(entry) ?? false);
+}
+
+export function scheduledOrder(): QueueEntry[] {
+  return orderOf(_state);
+}
+
+export function size(): number {
+  let n = _state.priority.length;
+  for (const queue of _state.userQueues.values()) n += queue.length;
+  return n;
+}
+
+export function countForUser(userId: string): number {
+  return (
+    (_state.userQueues.get(userId)?.length ?? 0) +
+    _state.priority.filter((e) => e.userId === userId).length
+  );
+}
+
+/** 1-based scheduled position of a queued job, or null if it is not queued. */
+export function positionOf(jobId: string): number | null {
+  const idx = scheduledOrder().findIndex((e) => e.jobId === jobId);
+  return idx === -1 ? null : idx + 1;
+}
+
+/** 1-based position a new entry for `userId` would get if pushed now. */
+export function positionIfPushed(userId: string, weight = 1): number {
+  const sim = cloneState(_state);
+  const probe: QueueEntry = { jobId: "\0probe", type: "gen", userId };
+  addEntry(sim, probe, weight);
+  return orderOf(sim).indexOf(probe) + 1;
+}
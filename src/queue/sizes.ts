@@ -0,0 +1,108 @@
+import { config, type ModelProfileRule } from "../config.js";
+import type { ImageSize } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Image sizes
+//
+// Jobs store their actual dimensions ("832x1216"), so a re-roll is exact even
+// if the presets change. The form offers an aspect ratio, resolved against the
+// checkpoint's resolution profile (MODEL_RESOLUTION_PROFILES), or a custom
+// width×height rounded to multiples of 64 and capped at MAX_MEGAPIXELS.
+// ---------------------------------------------------------------------------
+
+export type ResolutionProfile = ModelProfileRule["profile"];
+
+export const ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "9:16", "16:9", "9:21", "21:9"] as const;
+export type AspectRatio = (typeof ASPECT_RATIOS)[number];
+
+/** Sizes each profile was trained around, all multiples of 64. */
+const PROFILE_SIZES: Record<ResolutionProfile, Record<AspectRatio, ImageSize>> = {
+  sdxl: {
+    "1:1": "1024x1024",
+    "2:3": "832x1216",
+    "3:2": "1216x832",
+    "3:4": "896x1152",
+    "4:3": "1152x896",
+    "9:16": "768x1344",
+    "16:9": "1344x768",
+    "9:21": "640x1536",
+    "21:9": "1536x640",
+  },
+  sd15: {
+    "1:1": "512x512",
+    "2:3": "512x768",
+    "3:2": "768x512",
+    "3:4": "576x768",
+    "4:3": "768x576",
+    "9:16": "448x768",
+    "16:9": "768x448",
+    "9:21": "384x896",
+    "21:9": "896x384",
+  },
+};
+
+/** Size of jobs from before sizes were stored as dimensions, and of a fresh form. */
+export const DEFAULT_SIZE: ImageSize = PROFILE_SIZES.sdxl["2:3"];
+
+const SIZE_STEP = 64;
+const MIN_SIDE = 256;
+
+/** The resolution profile of a checkpoint: first matching MODEL_RESOLUTION_PROFILES rule, else sdxl. */
+export function profileForModel(model: string): ResolutionProfile {
+  return config.gen.modelProfiles.find((rule) => rule.pattern.test(model))?.profile ?? "sdxl";
+}
+
+export function presetSize(model: string, ratio: AspectRatio): ImageSize {
+  return PROFILE_SIZES[profileForModel(model)][ratio];
+}
+
+/** The aspect ratio whose preset for `model` is exactly `size`, or null for a custom size. */
+export function ratioOfSize(model: string, size: ImageSize): AspectRatio | null {
+  const presets = PROFILE_SIZES[profileForModel(model)];
+  return ASPECT_RATIOS.find((ratio) => presets[ratio] === size) ?? null;
+}
+
+/** The aspect ratio nearest to width:height, e.g. for an img2img source image. */
+export function closestRatio(width: number, height: number): AspectRatio {
+  const target = Math.log(width / height);
+  const distance = (ratio: AspectRatio): number => {
+    const [w, h] = ratio.split(":").map(Number);
+    return Math.abs(Math.log(w / h) - target);
+  };
+  return ASPECT_RATIOS.reduce((best, ratio) => (distance(ratio) < distance(best) ? ratio : best));
+}
+
+export function parseSize(size: string): [number, number] {
+  const match = /^(\d+)x(\d+)$/.exec(size);
+  if (!match) return parseSize(DEFAULT_SIZE);
+  return [Number(match[1]), Number(match[2])];
+}
+
+export function formatSize(size: ImageSize): string {
+  return size.replace("x", "×");
+}
+
+export type CustomSizeResult = { ok: true; size: ImageSize } | { ok: false; reason: string };
+
+/**
+ * Round a user-entered width and height to multiples of 64 and check them
+ * against the side and megapixel limits. The reason is safe to show in Discord.
+ */
+export function customSize(width: number, height: number): CustomSizeResult {
+  if (!Number.isFinite(width) || !Number.isFinite(height)) {
+    return { ok: false, reason: "Width and height must be numbers." };
+  }
+  const w = Math.round(width / SIZE_STEP) * SIZE_STEP;
+  const h = Math.round(height / SIZE_STEP) * SIZE_STEP;
+  if (w < MIN_SIDE || h < MIN_SIDE) {
+    return { ok: false, reason: `Width and height must be at least ${MIN_SIDE}.` };
+  }
+  const megapixels = (w * h) / 1_000_000;
+  if (megapixels > config.gen.maxMegapixels) {
+    return {
+      ok: false,
+      reason: `${w}×${h} is ${megapixels.toFixed(2)} MP; the limit is ${config.gen.maxMegapixels} MP.`,
+    };
+  }
+  return { ok: true, size: `${w}x${h}` };
+}
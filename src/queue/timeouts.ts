@@ -0,0 +1,30 @@
+import { config } from "../config.js";
+import { getWorkflow, jobWorkflow } from "../comfy/workflowManifest.js";
+import { genJobCost } from "./quota.js";
+import type { JobRow, UpscaleJobRow } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Job timeouts
+//
+// COMFY_TIMEOUT_MS is the budget for a reference gen job (about 30 steps of one
+// 1-megapixel image). Bigger jobs get proportionally longer, measured in the
+// same steps × megapixels × images units as the quota budget; smaller ones keep
+// the full budget, since model loading dominates short runs. Upscale jobs have
+// no step count on the row, so they scale by output pixels against a 2×
+// upscale instead. Each workflow's relative run time is the timeoutFactor in
+// its manifest.
+// The clock only runs while ComfyUI is executing the prompt — see pollUntilDone.
+// ---------------------------------------------------------------------------
+
+/** Steps × megapixels × images of the job COMFY_TIMEOUT_MS is sized for. */
+const REFERENCE_COST = 32;
+
+export function genJobTimeoutMs(job: Pick<JobRow, "steps" | "size" | "batchSize" | "workflow" | "mask">): number {
+  const scale = Math.max(genJobCost(job.steps, job.size, job.batchSize) / REFERENCE_COST, 1);
+  return Math.round(config.comfy.timeoutMs * scale * (jobWorkflow(job)?.manifest.timeoutFactor ?? 1));
+}
+
+export function upscaleJobTimeoutMs(job: Pick<UpscaleJobRow, "workflow" | "scale">): number {
+  const scale = Math.max((job.scale / 2) ** 2, 1);
+  return Math.round(config.comfy.timeoutMs * scale * (getWorkflow(job.workflow, "upscale")?.manifest.timeoutFactor ?? 1));
+}
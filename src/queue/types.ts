@@ -2,8 +2,8 @@
 // Core domain types shared across queue, DB, and binder modules
 // ---------------------------------------------------------------------------
 
-export type ImageSize = "portrait" | "square" | "landscape";
-export type UpscaleWorkflow = "ultimate" | "simple";
+/** Width × height in pixels, e.g. "832x1216". */
+export type ImageSize = `${number}x${number}`;
 
 export interface LoraParam {
   name: string;       // filename e.g. "my_lora_v1.safetensors"
@@ -11,6 +11,32 @@ export interface LoraParam {
   triggerWords: string[]; // fetched from CivitAI; stripped before DB persist
 }
 
+/** An image-to-image source, uploaded to a backend's ComfyUI input folder. */
+export interface SourceImage {
+  filename: string;   // name returned by /upload/image
+  backendUrl: string; // backend holding the file; the job must run there
+}
+
+/** The mask of an inpaint job, uploaded beside its source image. */
+export interface InpaintMask {
+  filename: string; // name returned by /upload/image; white = repaint
+  grow: number;     // pixels to grow the mask by
+  feather: number;  // blur radius of the mask edge, in pixels
+}
+
+/** Preprocessors that turn a plain control image into the map its ControlNet expects. */
+export type ControlNetPreprocessor = "canny" | "depth" | "pose";
+
+/** ControlNet guidance from a control image, uploaded like an img2img source. */
+export interface ControlNetParam {
+  model: string;       // ControlNetLoader control_net_name
+  image: SourceImage;  // the job must run on the backend holding it
+  preprocessor: ControlNetPreprocessor | null; // null = the image already is a pose/depth/edge map
+  strength: number;    // 0–2
+  startPercent: number; // 0–1, share of the sampling where guidance starts…
+  endPercent: number;   // …and ends
+}
+
 export interface JobParams {
   userId: string;
   guildId: string;
@@ -21,7 +47,13 @@ export interface JobParams {
   steps: number; // 1–150
   cfg: number;   // 1.0–30.0
   seed: number;  // 0–4294967295
-  size: ImageSize;
+  size: ImageSize; // actual dimensions, see sizes.ts
+  batchSize: number; // 1–4 images per job
+  workflow: string; // gen workflow manifest id, e.g. "multisampler"
+  sourceImage: SourceImage | null; // img2img source; null = text-to-image
+  denoise: number; // 0.05–1.0, img2img and inpaint only
+  mask: InpaintMask | null; // inpaint mask; set = `workflow` is an inpaint workflow and sourceImage the image painted into
+  controlNet: ControlNetParam | null; // ControlNet guidance; gen jobs only
   positivePrompt: string;
   negativePrompt: string;
   loras: (LoraParam | null)[]; // always length 4; null = empty slot
@@ -33,12 +65,19 @@ export interface UpscaleJobParams {
   userId: string;
   guildId: string;
   channelId: string;
-  sourceJobId: string;
+  sourceJobId: string | null; // null = an image attached to any message, not one of our generations
   sourceImageFilename: string;
+  sourceImageIndex: number; // index into the source job's outputImages (0 for a message image)
   model: string;
   positivePrompt: string;
   negativePrompt: string;
   upscaleModel: string;
+  workflow: string; // upscale workflow manifest id (the "mode"), e.g. "ultimate"
+  scale: number; // 1.5, 2 or 4
+  denoise: number | null; // for workflows that re-sample; null = the workflow's own
+  tileSize: number | null; // for tiled workflows; null = the workflow's own
+  sourceSize: ImageSize; // dimensions of the source image
+  backendUrl: string; // backend holding the uploaded source image; the job must run there
 }
 
 export interface UpscaleJobRow extends UpscaleJobParams {
@@ -48,6 +87,8 @@ export interface UpscaleJobRow extends UpscaleJobParams {
   comfyPromptId: string | null;
   outputImages: string[] | null;
   errorMessage: string | null;
+  attempts: number;
+  lastError: string | null;
   createdAt: number;
   startedAt: number | null;
   completedAt: number | null;
@@ -58,8 +99,11 @@ export interface JobRow extends JobParams {
   discordMessageId: string | null;
   status: JobStatus;
   comfyPromptId: string | null;
+  backendUrl: string | null; // ComfyUI backend the job was dispatched to
   outputImages: string[] | null;
   errorMessage: string | null;
+  attempts: number; // runs started, including retries
+  lastError: string | null; // most recent error, even if a retry then succeeded
   createdAt: number; // Unix ms
   startedAt: number | null;
   completedAt: number | null;
@@ -7,11 +7,25 @@ import { config } from "../config.js";
 import { data as genCommand } from "../bot/commands/gen.js";
 import { data as bannedCommand } from "../bot/commands/banned.js";
 import { data as purgeCommand } from "../bot/commands/purge.js";
+import { data as queueCommand } from "../bot/commands/queue.js";
+import { data as quotaCommand } from "../bot/commands/quota.js";
+import { data as adminCommand } from "../bot/commands/admin.js";
+import { data as inpaintCommand } from "../bot/commands/inpaint.js";
+import { data as upscaleImageCommand } from "../bot/commands/upscaleImage.js";
 import { logger } from "../logger.js";
 
 const rest = new REST({ version: "10" }).setToken(config.discord.token);
 
-const commands = [genCommand.toJSON(), bannedCommand.toJSON(), purgeCommand.toJSON()];
+const commands = [
+  genCommand.toJSON(),
+  bannedCommand.toJSON(),
+  purgeCommand.toJSON(),
+  queueCommand.toJSON(),
+  quotaCommand.toJSON(),
+  adminCommand.toJSON(),
+  inpaintCommand.toJSON(),
+  upscaleImageCommand.toJSON(),
+];
 
 logger.info(
   { guildId: config.discord.guildId, commandCount: commands.length },
@@ -0,0 +1,284 @@
+import { mock, teardown } from "./helpers/setup.js";
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createComfyClient } from "../src/comfy/client.js";
+import { ComfyPromptError } from "../src/comfy/errors.js";
+import { bind, bindUpscale } from "../src/comfy/workflowBinder.js";
+import { getWorkflow } from "../src/comfy/workflowManifest.js";
+import type { ImageSize, UpscaleJobRow } from "../src/queue/types.js";
+import { jobRow, waitFor } from "./helpers/fixtures.js";
+
+after(teardown);
+
+const client = createComfyClient(mock.url);
+
+type Workflow = Record<string, { class_type: string; inputs: Record<string, unknown> }>;
+
+function inputsOf(workflow: Record<string, unknown>, nodeId: string): Record<string, unknown> {
+  return (workflow as Workflow)[nodeId].inputs;
+}
+
+/** Submit a bound workflow and return the output filenames once the mock has run it. */
+async function run(workflow: Record<string, unknown>): Promise<string[]> {
+  const { promptId } = await client.submitPrompt(workflow);
+  const entry = await waitFor(() => client.getHistory(promptId), 5_000, "history entry");
+  assert.equal(entry.status.completed, true);
+  return Object.values(entry.outputs).flatMap((o) => (o.images ?? []).map((i) => i.filename));
+}
+
+describe("workflow binder", () => {
+  it("writes job parameters into the locked nodes", () => {
+    const result = bind(jobRow({ size: "1216x832", batchSize: 3, steps: 28, cfg: 7, seed: 42 }));
+    assert.ok(result.ok);
+    const wf = result.workflow;
+    assert.deepEqual(
+      [inputsOf(wf, "6").width, inputsOf(wf, "6").height, inputsOf(wf, "6").batch_size],
+      [1216, 832, 3],
+    );
+    assert.equal(inputsOf(wf, "152").ckpt_name, "animayhemPaleRider_v30PlainsDrifter.safetensors");
+    assert.equal(inputsOf(wf, "256").seed, 42);
+    assert.equal(inputsOf(wf, "268").text, "a lighthouse on a cliff at dusk");
+    assert.equal(inputsOf(wf, "4").text, "blurry");
+    assert.deepEqual(
+      [inputsOf(wf, "239").sampler_name, inputsOf(wf, "239").scheduler, inputsOf(wf, "239").steps, inputsOf(wf, "239").cfg],
+      ["euler", "karras", 28, 7],
+    );
+    for (const nodeId of ["249", "52", "118"]) {
+      assert.equal(inputsOf(wf, nodeId).sampler_name, "euler");
+      assert.notEqual(inputsOf(wf, nodeId).steps, 28, `node ${nodeId} must keep its own steps`);
+    }
+  });
+
+  it("chains LoRA loaders after the checkpoint and appends trigger words", () => {
+    const result = bind(
+      jobRow({
+        loras: [
+          { name: "add_detail.safetensors", strength: 0.8, triggerWords: ["detailed"] },
+          null,
+          { name: "film_grain.safetensors", strength: 1.2, triggerWords: ["film grain"] },
+          null,
+        ],
+      }),
+    );
+    assert.ok(result.ok);
+    const wf = result.workflow;
+    assert.deepEqual(inputsOf(wf, "2001").model, ["152", 0]);
+    assert.deepEqual(inputsOf(wf, "2002").model, ["2001", 0]);
+    assert.equal(inputsOf(wf, "2002").strength_clip, 1.2);
+    assert.equal(inputsOf(wf, "268").text, "a lighthouse on a cliff at dusk detailed film grain");
+
+    // Nothing but the first LoRA loader may still take MODEL or CLIP from the checkpoint
+    for (const [nodeId, node] of Object.entries(wf as Workflow)) {
+      if (nodeId === "2001") continue;
+      for (const value of Object.values(node.inputs)) {
+        if (Array.isArray(value) && value[0] === "152") assert.ok(value[1] !== 0 && value[1] !== 1, `node ${nodeId}`);
+      }
+    }
+  });
+
+  it("produces a workflow ComfyUI accepts and runs", async () => {
+    const result = bind(jobRow({ batchSize: 2, loras: [{ name: "add_detail.safetensors", strength: 1, triggerWords: [] }, null, null, null] }));
+    assert.ok(result.ok);
+    assert.equal((await run(result.workflow)).length, 2);
+  });
+
+  it("is rejected by ComfyUI when a LoRA is not installed", async () => {
+    const result = bind(jobRow({ loras: [{ name: "gone.safetensors", strength: 1, triggerWords: [] }, null, null, null] }));
+    assert.ok(result.ok);
+    await assert.rejects(client.submitPrompt(result.workflow), (err: unknown) => {
+      assert.ok(err instanceof ComfyPromptError);
+      assert.equal(err.nodeErrors[0].nodeId, "2001");
+      assert.equal(err.nodeErrors[0].message, "lora_name not found: gone.safetensors");
+      return true;
+    });
+  });
+});
+
+describe("wildcard workflow", () => {
+  it("sends the prompt through the wildcard encoder with the job seed", async () => {
+    const result = bind(jobRow({ workflow: "wildcard", positivePrompt: "a {red|blue} door", seed: 7 }));
+    assert.ok(result.ok);
+    assert.equal(inputsOf(result.workflow, "269").wildcard_text, "a {red|blue} door");
+    assert.equal(inputsOf(result.workflow, "269").seed, 7);
+    assert.equal((await run(result.workflow)).length, 1);
+  });
+});
+
+describe("image-to-image", () => {
+  it("encodes the uploaded source in place of the empty latent and runs on ComfyUI", async () => {
+    const uploaded = await client.uploadImage(Buffer.from("img2img source"), "img2img-source.png");
+    const result = bind(
+      jobRow({ sourceImage: { filename: uploaded.name, backendUrl: mock.url }, denoise: 0.45, size: "1216x832", batchSize: 2 }),
+    );
+    assert.ok(result.ok);
+    const wf = result.workflow;
+    assert.equal(inputsOf(wf, "3001").image, "img2img-source.png");
+    assert.deepEqual([inputsOf(wf, "3002").width, inputsOf(wf, "3002").height], [1216, 832]);
+    assert.deepEqual(inputsOf(wf, "3003").vae, ["152", 2]);
+    assert.equal(inputsOf(wf, "3004").amount, 2);
+    assert.deepEqual(inputsOf(wf, "239").latent_image, ["3004", 0]);
+    assert.equal(inputsOf(wf, "239").denoise, 0.45);
+    assert.equal((await run(wf)).length, 2);
+  });
+
+  it("refuses a workflow without an img2img section", () => {
+    const def = getWorkflow("multisampler", "gen");
+    assert.ok(def);
+    const { img2img: _img2img, ...manifest } = def.manifest;
+    const result = bind(jobRow({ sourceImage: { filename: "x.png", backendUrl: mock.url } }), { ...def, manifest });
+    assert.deepEqual(result, { ok: false, reason: "The Multi-sampler workflow does not support image-to-image." });
+  });
+});
+
+describe("ControlNet", () => {
+  /** A control image that already is an edge map, so needs no preprocessor. */
+  const edgeMap = {
+    model: "diffusers_xl_canny_full.safetensors",
+    image: { filename: "edges.png", backendUrl: mock.url },
+    preprocessor: null,
+    strength: 1,
+    startPercent: 0,
+    endPercent: 1,
+  };
+
+  it("applies the control image to the conditioning and runs on ComfyUI", async () => {
+    const uploaded = await client.uploadImage(Buffer.from("pose"), "controlnet-pose.png");
+    const controlNet = {
+      model: "control_v11p_sd15_openpose.pth",
+      image: { filename: uploaded.name, backendUrl: mock.url },
+      preprocessor: "canny" as const,
+      strength: 0.8,
+      startPercent: 0,
+      endPercent: 0.6,
+    };
+    const result = bind(jobRow({ controlNet }));
+    assert.ok(result.ok);
+    const wf = result.workflow;
+    assert.equal(inputsOf(wf, "4001").control_net_name, "control_v11p_sd15_openpose.pth");
+    assert.equal(inputsOf(wf, "4002").image, "controlnet-pose.png");
+    assert.deepEqual(inputsOf(wf, "4003").image, ["4002", 0]);
+    assert.deepEqual(
+      [inputsOf(wf, "4004").positive, inputsOf(wf, "4004").negative, inputsOf(wf, "4004").image],
+      [["268", 0], ["4", 0], ["4003", 0]],
+    );
+    assert.deepEqual([inputsOf(wf, "4004").strength, inputsOf(wf, "4004").end_percent], [0.8, 0.6]);
+    for (const sampler of ["239", "52"]) {
+      assert.deepEqual([inputsOf(wf, sampler).positive, inputsOf(wf, sampler).negative], [["4004", 0], ["4004", 1]]);
+    }
+    assert.equal((await run(wf)).length, 1);
+  });
+
+  it("takes the conditioning link from the manifest and skips the preprocessor for a ready map", () => {
+    const result = bind(jobRow({ workflow: "wildcard", controlNet: edgeMap }));
+    assert.ok(result.ok);
+    assert.equal(result.workflow["4003"], undefined);
+    assert.deepEqual(inputsOf(result.workflow, "4004").positive, ["269", 2]);
+    assert.deepEqual(inputsOf(result.workflow, "4004").image, ["4002", 0]);
+    assert.deepEqual(inputsOf(result.workflow, "239").positive, ["4004", 0]);
+  });
+
+  it("refuses a workflow without a controlNet section", () => {
+    const def = getWorkflow("multisampler", "gen");
+    assert.ok(def);
+    const { controlNet: _controlNet, ...manifest } = def.manifest;
+    const result = bind(jobRow({ controlNet: edgeMap }), { ...def, manifest });
+    assert.deepEqual(result, { ok: false, reason: "The Multi-sampler workflow does not support ControlNet." });
+  });
+});
+
+describe("inpaint workflows", () => {
+  it("loads the uploaded source and mask and runs on ComfyUI", async () => {
+    const source = await client.uploadImage(Buffer.from("inpaint source"), "inpaint-source.png");
+    const mask = await client.uploadImage(Buffer.from("inpaint mask"), "inpaint-mask.png");
+    const result = bind(
+      jobRow({
+        workflow: "inpaint",
+        sourceImage: { filename: source.name, backendUrl: mock.url },
+        mask: { filename: mask.name, grow: 12, feather: 4 },
+        denoise: 0.8,
+        size: "1024x1024",
+      }),
+    );
+    assert.ok(result.ok);
+    const wf = result.workflow;
+    assert.equal(inputsOf(wf, "4").image, "inpaint-source.png");
+    assert.equal(inputsOf(wf, "5").image, "inpaint-mask.png");
+    assert.equal(inputsOf(wf, "6").expand, 12);
+    assert.equal(inputsOf(wf, "8").blur_radius, 4);
+    assert.equal(inputsOf(wf, "12").denoise, 0.8);
+    assert.equal(inputsOf(wf, "12").seed, jobRow().seed);
+    assert.equal((await run(wf)).length, 1);
+  });
+
+  it("refuses a masked job whose workflow is not an inpaint workflow", () => {
+    const result = bind(jobRow({ mask: { filename: "m.png", grow: 6, feather: 8 } }));
+    assert.deepEqual(result, { ok: false, reason: 'The inpaint workflow "multisampler" is not installed or failed validation.' });
+  });
+});
+
+describe("upscale workflows", () => {
+  const upscaleJob = {
+    id: "x",
+    model: "ponyDiffusionV6XL.safetensors",
+    positivePrompt: "",
+    negativePrompt: "",
+    upscaleModel: "4x-UltraSharp.pth",
+    workflow: "ultimate",
+    scale: 2,
+    denoise: null,
+    tileSize: null,
+    sourceSize: "832x1216" as ImageSize,
+  } as UpscaleJobRow;
+
+  it("loads the uploaded image and runs on ComfyUI", async () => {
+    const uploaded = await client.uploadImage(Buffer.from("source image"), "upscale-source.png");
+    const job = {
+      id: "00000000-0000-4000-8000-000000000002",
+      model: "ponyDiffusionV6XL.safetensors",
+      positivePrompt: "a lighthouse",
+      negativePrompt: "blurry",
+      upscaleModel: "4x-UltraSharp.pth",
+      workflow: "ultimate",
+      scale: 1.5,
+      denoise: 0.35,
+      tileSize: 768,
+      sourceSize: "832x1216" as ImageSize,
+    } as UpscaleJobRow;
+
+    const result = bindUpscale(job, uploaded.name);
+    assert.ok(result.ok);
+    assert.equal(inputsOf(result.workflow, "146").image, "upscale-source.png");
+    assert.equal(inputsOf(result.workflow, "125").ckpt_name, "ponyDiffusionV6XL.safetensors");
+    assert.equal(inputsOf(result.workflow, "126").model_name, "4x-UltraSharp.pth");
+    const sampler = inputsOf(result.workflow, "134");
+    assert.deepEqual(
+      [sampler.upscale_by, sampler.denoise, sampler.tile_width, sampler.tile_height],
+      [1.5, 0.35, 768, 768],
+    );
+    assert.equal((await run(result.workflow)).length, 1);
+  });
+
+  it("keeps the workflow's own denoise and image-sized tiles when none are chosen", () => {
+    const job = { ...upscaleJob, denoise: null, tileSize: null } as UpscaleJobRow;
+    const result = bindUpscale(job, "upscale-source.png");
+    assert.ok(result.ok);
+    const sampler = inputsOf(result.workflow, "134");
+    assert.equal(sampler.denoise, 0.6);
+    assert.deepEqual(sampler.tile_width, ["129", 0]);
+  });
+
+  it("is rejected by ComfyUI when the source image was never uploaded", async () => {
+    const result = bindUpscale(upscaleJob, "never-uploaded.png");
+    assert.ok(result.ok);
+    await assert.rejects(client.submitPrompt(result.workflow), ComfyPromptError);
+  });
+
+  it("binds the simple workflow without checkpoint or prompts, resizing to the chosen scale", () => {
+    const job = { ...upscaleJob, workflow: "simple", scale: 1.5 } as UpscaleJobRow;
+    const result = bindUpscale(job, "upscale-source.png");
+    assert.ok(result.ok);
+    assert.equal(inputsOf(result.workflow, "1").image, "upscale-source.png");
+    assert.equal(inputsOf(result.workflow, "2").model_name, "4x-UltraSharp.pth");
+    assert.deepEqual([inputsOf(result.workflow, "5").width, inputsOf(result.workflow, "5").height], [1248, 1824]);
+  });
+});
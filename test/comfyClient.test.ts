@@ -0,0 +1,119 @@
+import { mock, teardown, LORA_HASH } from "./helpers/setup.js";
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createComfyClient, type ComfyExecutionEvent } from "../src/comfy/client.js";
+import { ComfyHttpError, ComfyPromptError } from "../src/comfy/errors.js";
+import { bind } from "../src/comfy/workflowBinder.js";
+import { jobRow, waitFor } from "./helpers/fixtures.js";
+
+after(teardown);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function boundWorkflow(overrides: Parameters<typeof jobRow>[0] = {}): Record<string, unknown> {
+  const result = bind(jobRow(overrides));
+  assert.ok(result.ok);
+  return result.workflow;
+}
+
+describe("comfy client", () => {
+  const client = createComfyClient(mock.url);
+
+  it("pings and reads system stats", async () => {
+    assert.equal(await client.ping(), true);
+    const stats = await client.getSystemStats();
+    assert.ok(stats.vramTotal > 0);
+    assert.ok(stats.vramFree <= stats.vramTotal);
+  });
+
+  it("reports the backend down while it is offline", async () => {
+    mock.setOffline(true);
+    try {
+      assert.equal(await client.ping(), false);
+    } finally {
+      mock.setOffline(false);
+    }
+  });
+
+  it("runs a prompt and fetches its output image", async () => {
+    const { promptId } = await client.submitPrompt(boundWorkflow({ batchSize: 2 }));
+    const entry = await waitFor(() => client.getHistory(promptId), 5_000, "history entry");
+
+    assert.equal(entry.status.completed, true);
+    const images = Object.values(entry.outputs).flatMap((o) => o.images ?? []);
+    assert.equal(images.length, 2);
+
+    const png = await client.getImage(images[0].filename, images[0].subfolder, images[0].type);
+    assert.deepEqual(png.subarray(0, 8), PNG_SIGNATURE);
+  });
+
+  it("tells a prompt ComfyUI has no history for apart from a failed request", async () => {
+    assert.equal(await client.getHistory("no-such-prompt"), null);
+    mock.failNextRequest("GET /history", 502);
+    await assert.rejects(client.getHistory("no-such-prompt"), (err) => err instanceof ComfyHttpError && err.statusCode === 502);
+  });
+
+  it("turns a validation failure into a ComfyPromptError naming the node", async () => {
+    await assert.rejects(
+      client.submitPrompt(boundWorkflow({ model: "missing.safetensors" })),
+      (err: unknown) => {
+        assert.ok(err instanceof ComfyPromptError);
+        assert.equal(err.statusCode, 400);
+        assert.deepEqual(
+          err.nodeErrors.map((e) => [e.nodeId, e.message]),
+          [["152", "ckpt_name not found: missing.safetensors"]],
+        );
+        return true;
+      },
+    );
+  });
+
+  it("streams execution events over the WebSocket", async () => {
+    mock.executionMs = 200;
+    try {
+      const { promptId } = await client.submitPrompt(boundWorkflow());
+      const events: ComfyExecutionEvent["type"][] = [];
+      const unsubscribe = client.watchPrompt(promptId, (event) => events.push(event.type));
+      try {
+        await waitFor(() => events.includes("execution_success"), 5_000, "execution_success");
+      } finally {
+        unsubscribe();
+      }
+      assert.equal(client.isSocketConnected(), true);
+    } finally {
+      mock.executionMs = 50;
+    }
+  });
+
+  it("lists, deletes and interrupts queued prompts", async () => {
+    mock.executionMs = 60_000;
+    try {
+      const first = await client.submitPrompt(boundWorkflow());
+      const second = await client.submitPrompt(boundWorkflow());
+      assert.deepEqual(await client.getQueue(), { running: [first.promptId], pending: [second.promptId] });
+
+      await client.deleteFromQueue([second.promptId]);
+      assert.deepEqual((await client.getQueue()).pending, []);
+
+      await client.interrupt(first.promptId);
+      const entry = await waitFor(() => client.getHistory(first.promptId), 5_000, "interrupted entry");
+      assert.equal(entry.status.status_str, "error");
+      assert.equal(entry.status.messages?.[0][0], "execution_interrupted");
+    } finally {
+      mock.executionMs = 50;
+    }
+  });
+
+  it("uploads an image into the input folder", async () => {
+    const data = Buffer.from("not really a png");
+    const uploaded = await client.uploadImage(data, "source.png");
+    assert.deepEqual(uploaded, { name: "source.png", subfolder: "", type: "input" });
+    assert.deepEqual(mock.uploads.get("source.png"), data);
+  });
+
+  it("reads LoRA hashes from safetensors metadata", async () => {
+    assert.equal(await client.getLoraFileHash("add_detail.safetensors"), LORA_HASH);
+    assert.equal(await client.getLoraFileHash("film_grain.safetensors"), null);
+    assert.equal(await client.getLoraFileHash("not_installed.safetensors"), null);
+  });
+});
@@ -0,0 +1,31 @@
+import type { Client, MessageCreateOptions } from "discord.js";
+
+/** A message the runner posted to a channel. */
+export interface SentMessage {
+  channelId: string;
+  options: MessageCreateOptions;
+}
+
+/**
+ * Just enough of a discord.js Client for the job runner: every channel is a
+ * text channel that records what is sent to it.
+ */
+export function fakeDiscordClient(): { client: Client; sent: SentMessage[] } {
+  const sent: SentMessage[] = [];
+  const client = {
+    channels: {
+      fetch: async (channelId: string) => ({
+        id: channelId,
+        isTextBased: () => true,
+        send: async (options: MessageCreateOptions) => {
+          sent.push({ channelId, options });
+          return { id: String(sent.length) };
+        },
+      }),
+    },
+    users: {
+      fetch: async (userId: string) => ({ id: userId, displayName: "Test User" }),
+    },
+  };
+  return { client: client as unknown as Client, sent };
+}
@@ -0,0 +1,60 @@
+import type { JobParams, JobRow } from "../../src/queue/types.js";
+
+export const TEST_USER_ID = "100000000000000010";
+export const TEST_CHANNEL_ID = "100000000000000003";
+
+export function jobParams(overrides: Partial<JobParams> = {}): JobParams {
+  return {
+    userId: TEST_USER_ID,
+    guildId: "100000000000000002",
+    channelId: TEST_CHANNEL_ID,
+    model: "animayhemPaleRider_v30PlainsDrifter.safetensors",
+    sampler: "euler",
+    scheduler: "karras",
+    steps: 20,
+    cfg: 6.5,
+    seed: 123456789,
+    size: "832x1216",
+    batchSize: 1,
+    workflow: "multisampler",
+    sourceImage: null,
+    denoise: 1,
+    mask: null,
+    controlNet: null,
+    positivePrompt: "a lighthouse on a cliff at dusk",
+    negativePrompt: "blurry",
+    loras: [null, null, null, null],
+    ...overrides,
+  };
+}
+
+/** A job row as the DB would return it, for code that does not touch the DB. */
+export function jobRow(overrides: Partial<JobRow> = {}): JobRow {
+  return {
+    ...jobParams(overrides),
+    id: "00000000-0000-4000-8000-000000000001",
+    discordMessageId: null,
+    status: "queued",
+    comfyPromptId: null,
+    backendUrl: null,
+    outputImages: null,
+    errorMessage: null,
+    attempts: 0,
+    lastError: null,
+    createdAt: Date.now(),
+    startedAt: null,
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+/** Poll `check` until it returns a truthy value, or fail after `timeoutMs`. */
+export async function waitFor<T>(check: () => T | Promise<T>, timeoutMs = 10_000, what = "condition"): Promise<NonNullable<T>> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await check();
+    if (value) return value as NonNullable<T>;
+    if (Date.now() > deadline) throw new Error(`Timed out after ${timeoutMs}ms waiting for ${what}`);
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
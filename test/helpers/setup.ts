@@ -0,0 +1,43 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { startMockComfy } from "../mockComfy/server.js";
+
+// ---------------------------------------------------------------------------
+// Test environment, preloaded with `--import` by the test script. src/config.ts
+// reads the environment once, when it is first imported, so the mock ComfyUI
+// must be listening and the variables set before any test file loads — a plain
+// import would not do, as top-level await only holds back the importing module.
+// Test files import it again for `mock` and `teardown`.
+// ---------------------------------------------------------------------------
+
+export const LORA_HASH = "a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90";
+
+export const mock = await startMockComfy({ loraHashes: { "add_detail.safetensors": LORA_HASH } });
+
+const dataDir = mkdtempSync(join(tmpdir(), "comfygen-test-"));
+
+Object.assign(process.env, {
+  DISCORD_TOKEN: "test-token",
+  DISCORD_CLIENT_ID: "100000000000000001",
+  DISCORD_GUILD_ID: "100000000000000002",
+  ALLOWED_CHANNEL_IDS: "100000000000000003",
+  OWNER_ID: "100000000000000004",
+  COMFY_BASE_URL: mock.url,
+  COMFY_BACKENDS: "", // ignore any list in a developer's .env
+  COMFY_TIMEOUT_MS: "20000",
+  DB_PATH: join(dataDir, "test.db"),
+  LOG_LEVEL: "fatal",
+  GEN_WORKFLOW: "multisampler",
+  UPSCALE_WORKFLOW: "ultimate",
+  JOB_MAX_ATTEMPTS: "3",
+  JOB_RETRY_BASE_MS: "100",
+});
+
+/** Stop the mock and delete the test database. Register with `after()`. */
+export async function teardown(): Promise<void> {
+  await mock.close();
+  const { closeDb } = await import("../../src/db/database.js");
+  closeDb();
+  rmSync(dataDir, { recursive: true, force: true });
+}
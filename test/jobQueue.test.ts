@@ -0,0 +1,316 @@
+import { mock, teardown } from "./helpers/setup.js";
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { APIEmbed } from "discord.js";
+import { getBackends, refreshAllBackendHealth } from "../src/comfy/backendPool.js";
+import { getWorkflow, reloadWorkflows, WORKFLOWS_DIR } from "../src/comfy/workflowManifest.js";
+import { insertJob, getJobOrThrow } from "../src/db/jobs.js";
+import { insertUpscaleJob, getUpscaleJobOrThrow } from "../src/db/upscaleJobs.js";
+import { enqueue, enqueueUpscale, cancelJob, kickRunner, setDiscordClient } from "../src/queue/jobQueue.js";
+import type { JobParams, JobStatus } from "../src/queue/types.js";
+import { fakeDiscordClient, type SentMessage } from "./helpers/discord.js";
+import { jobParams, waitFor, TEST_USER_ID } from "./helpers/fixtures.js";
+
+after(teardown);
+
+const discord = fakeDiscordClient();
+
+/** Long enough that a prompt is still running whenever a test needs it to be. */
+const STUCK_MS = 60_000;
+
+function submitGen(overrides: Partial<JobParams> = {}): string {
+  const jobId = randomUUID();
+  insertJob(jobId, jobParams(overrides));
+  enqueue(jobId, TEST_USER_ID);
+  return jobId;
+}
+
+async function waitForStatus(jobId: string, status: JobStatus): Promise<void> {
+  await waitFor(() => getJobOrThrow(jobId).status === status, 15_000, `job ${jobId} to be ${status}`);
+}
+
+/** The first embed of the latest message posted to Discord. */
+function lastEmbed(): APIEmbed {
+  const embed = discord.sent.at(-1)?.options.embeds?.[0];
+  assert.ok(embed, "expected a message with an embed");
+  return "toJSON" in embed ? embed.toJSON() : embed;
+}
+
+describe("job runner", () => {
+  before(async () => {
+    setDiscordClient(discord.client);
+    assert.equal(await refreshAllBackendHealth(), 1);
+  });
+
+  beforeEach(() => {
+    mock.executionMs = 50;
+  });
+
+  it("runs a gen job and posts every image", async () => {
+    const jobId = submitGen({ batchSize: 2 });
+    await waitForStatus(jobId, "completed");
+
+    const job = getJobOrThrow(jobId);
+    assert.equal(job.outputImages?.length, 2);
+    assert.equal(job.attempts, 1);
+    assert.equal(job.backendUrl, mock.url);
+
+    const message = discord.sent.at(-1) as SentMessage;
+    assert.equal(message.options.content, `<@${TEST_USER_ID}>`);
+    assert.equal(message.options.files?.length, 2);
+    assert.equal(message.options.embeds?.length, 2); // gallery
+    const buttons = JSON.stringify(message.options.components);
+    assert.ok(buttons.includes(`"gen_upscale:${jobId}:1"`));
+    assert.ok(buttons.includes(`"gen_reroll:${jobId}:1"`), "a re-roll button per image");
+  });
+
+  it("runs a gen job on the workflow stored on its row", async () => {
+    const jobId = submitGen({ workflow: "wildcard" });
+    await waitForStatus(jobId, "completed");
+
+    const job = getJobOrThrow(jobId);
+    assert.equal(job.workflow, "wildcard");
+    const submitted = mock.prompts.get(job.comfyPromptId ?? "");
+    assert.ok(submitted && "269" in submitted.workflow, "expected the wildcard graph");
+  });
+
+  it("runs an img2img job on the backend holding its source image", async () => {
+    const uploaded = await getBackends()[0].client.uploadImage(Buffer.from("source"), "runner-img2img.png");
+    const jobId = submitGen({ sourceImage: { filename: uploaded.name, backendUrl: mock.url }, denoise: 0.5 });
+    await waitForStatus(jobId, "completed");
+
+    const job = getJobOrThrow(jobId);
+    assert.deepEqual(job.sourceImage, { filename: "runner-img2img.png", backendUrl: mock.url });
+    assert.equal(job.denoise, 0.5);
+    const submitted = mock.prompts.get(job.comfyPromptId ?? "");
+    assert.equal(submitted?.workflow["3001"]?.inputs.image, "runner-img2img.png");
+  });
+
+  it("fails an img2img job whose source backend is no longer configured", async () => {
+    const posted = discord.sent.length;
+    const jobId = submitGen({ sourceImage: { filename: "gone.png", backendUrl: "http://127.0.0.1:1" } });
+    await waitForStatus(jobId, "failed");
+    await waitFor(() => discord.sent.length > posted, 5_000, "failure notice");
+    assert.match(lastEmbed().description ?? "", /source image \(http:\/\/127\.0\.0\.1:1\) is no longer configured/);
+  });
+
+  it("posts an inpaint result beside the image it was painted into", async () => {
+    const client = getBackends()[0].client;
+    const source = await client.uploadImage(Buffer.from("source"), "runner-inpaint.png");
+    const mask = await client.uploadImage(Buffer.from("mask"), "runner-inpaint-mask.png");
+    const posted = discord.sent.length;
+    const jobId = submitGen({
+      workflow: "inpaint",
+      sourceImage: { filename: source.name, backendUrl: mock.url },
+      mask: { filename: mask.name, grow: 6, feather: 8 },
+      denoise: 1,
+    });
+    await waitForStatus(jobId, "completed");
+    await waitFor(() => discord.sent.length > posted, 5_000, "result post");
+
+    assert.deepEqual(getJobOrThrow(jobId).mask, { filename: "runner-inpaint-mask.png", grow: 6, feather: 8 });
+    assert.equal(lastEmbed().title, "Image inpainted by Test User");
+    const files = discord.sent.at(-1)?.options.files as { name?: string }[] | undefined;
+    assert.deepEqual(files?.map((f) => f.name).slice(1), ["original_runner-inpaint.png"]);
+    assert.equal(discord.sent.at(-1)?.options.embeds?.length, 2);
+  });
+
+  it("runs an upscale job against the uploaded source image", async () => {
+    const backend = getBackends()[0];
+    const uploaded = await backend.client.uploadImage(Buffer.from("source"), "runner-source.png");
+    const sourceJobId = randomUUID();
+    insertJob(sourceJobId, jobParams());
+    const jobId = randomUUID();
+    insertUpscaleJob(jobId, {
+      userId: TEST_USER_ID,
+      guildId: "100000000000000002",
+      channelId: "100000000000000003",
+      sourceJobId,
+      sourceImageFilename: uploaded.name,
+      sourceImageIndex: 0,
+      model: "ponyDiffusionV6XL.safetensors",
+      positivePrompt: "a lighthouse",
+      negativePrompt: "",
+      upscaleModel: "RealESRGAN_x4plus_anime_6B.pth",
+      workflow: "ultimate",
+      scale: 4,
+      denoise: 0.4,
+      tileSize: null,
+      sourceSize: "832x1216",
+      backendUrl: backend.url,
+    });
+    enqueueUpscale(jobId, TEST_USER_ID);
+
+    await waitFor(() => getUpscaleJobOrThrow(jobId).status === "completed", 15_000, "upscale to complete");
+    assert.equal(getUpscaleJobOrThrow(jobId).outputImages?.length, 1);
+    const embed = lastEmbed();
+    assert.equal(embed.title, "Upscaled image by Test User");
+    assert.deepEqual(
+      embed.fields?.filter((f) => ["Mode", "Scale", "Denoise"].includes(f.name)).map((f) => f.value),
+      ["Ultimate SD Upscale", "4×", "0.40"],
+    );
+  });
+
+  it("upscales an image from a message, with no source job", async () => {
+    const backend = getBackends()[0];
+    const uploaded = await backend.client.uploadImage(Buffer.from("source"), "runner-message.png");
+    const jobId = randomUUID();
+    insertUpscaleJob(jobId, {
+      userId: TEST_USER_ID,
+      guildId: "100000000000000002",
+      channelId: "100000000000000003",
+      sourceJobId: null,
+      sourceImageFilename: uploaded.name,
+      sourceImageIndex: 0,
+      model: "ponyDiffusionV6XL.safetensors",
+      positivePrompt: "",
+      negativePrompt: "",
+      upscaleModel: "4x-UltraSharp.pth",
+      workflow: "simple",
+      scale: 1.5,
+      denoise: null,
+      tileSize: null,
+      sourceSize: "640x480",
+      backendUrl: backend.url,
+    });
+    enqueueUpscale(jobId, TEST_USER_ID);
+
+    await waitFor(() => getUpscaleJobOrThrow(jobId).status === "completed", 15_000, "upscale to complete");
+    assert.equal(getUpscaleJobOrThrow(jobId).sourceJobId, null);
+    assert.equal(lastEmbed().footer?.text, "Source: image from a message");
+  });
+
+  it("fails a job ComfyUI rejects and names the bad input", async () => {
+    const posted = discord.sent.length;
+    const jobId = submitGen({ sampler: "heun" });
+    await waitForStatus(jobId, "failed");
+    await waitFor(() => discord.sent.length > posted, 5_000, "failure notice");
+    assert.equal(getJobOrThrow(jobId).attempts, 1, "validation errors are not retried");
+    assert.match(lastEmbed().description ?? "", /sampler_name not found: heun/);
+  });
+
+  it("fails a job whose checkpoint no backend has, without submitting it", async () => {
+    const submitted = mock.prompts.size;
+    const posted = discord.sent.length;
+    const jobId = submitGen({ model: "missing.safetensors" });
+    await waitForStatus(jobId, "failed");
+    await waitFor(() => discord.sent.length > posted, 5_000, "failure notice");
+    assert.equal(mock.prompts.size, submitted);
+    assert.match(lastEmbed().description ?? "", /No ComfyUI backend has everything/);
+  });
+
+  it("reports the node that failed during execution", async () => {
+    mock.failNextPrompt({ nodeId: "52", nodeType: "FaceDetailer", message: "CUDA out of memory" });
+    const posted = discord.sent.length;
+    const jobId = submitGen();
+    await waitForStatus(jobId, "failed");
+    await waitFor(() => discord.sent.length > posted, 5_000, "failure notice");
+    assert.match(lastEmbed().description ?? "", /FaceDetailer 52\*\*: CUDA out of memory/);
+  });
+
+  it("cancels a running job and interrupts it on ComfyUI", async () => {
+    mock.executionMs = STUCK_MS;
+    const interrupts = mock.interrupts;
+    const jobId = submitGen();
+    await waitForStatus(jobId, "running");
+
+    assert.equal(await cancelJob(jobId), "cancelling");
+    await waitForStatus(jobId, "cancelled");
+    assert.equal(mock.interrupts, interrupts + 1);
+  });
+
+  it("fails fast when a ComfyUI restart loses the prompt", async () => {
+    mock.executionMs = STUCK_MS;
+    const jobId = submitGen();
+    await waitForStatus(jobId, "running");
+
+    const posted = discord.sent.length;
+    mock.restart();
+    await waitForStatus(jobId, "failed");
+    await waitFor(() => discord.sent.length > posted, 5_000, "failure notice");
+    assert.match(lastEmbed().description ?? "", /ComfyUI lost this job/);
+  });
+
+  it("goes back to polling the same prompt after a transient error mid-poll", async () => {
+    mock.executionMs = 4_000;
+    const submitted = mock.prompts.size;
+    const jobId = submitGen();
+    await waitForStatus(jobId, "running");
+
+    // The prompt is still executing when the runner checks /queue
+    mock.failNextRequest("GET /queue");
+    await waitForStatus(jobId, "completed");
+    assert.equal(mock.prompts.size, submitted + 1, "the job is not submitted twice");
+    assert.equal(getJobOrThrow(jobId).attempts, 2);
+  });
+
+  it("does not take a /history error for a lost prompt", async () => {
+    const jobId = submitGen();
+    mock.failNextRequest("GET /history", 503, 2);
+    await waitForStatus(jobId, "completed");
+    assert.equal(getJobOrThrow(jobId).outputImages?.length, 1);
+  });
+
+  it("holds a job through an outage without using up its attempt", async () => {
+    mock.executionMs = STUCK_MS;
+    const jobId = submitGen();
+    await waitForStatus(jobId, "running");
+
+    mock.setOffline(true);
+    await waitForStatus(jobId, "queued");
+    assert.equal(getJobOrThrow(jobId).attempts, 0);
+
+    // ComfyUI comes back after a restart
+    mock.restart();
+    mock.executionMs = 50;
+    mock.setOffline(false);
+    await refreshAllBackendHealth();
+    kickRunner();
+
+    await waitForStatus(jobId, "completed");
+    assert.equal(getJobOrThrow(jobId).attempts, 1);
+  });
+
+  it("retries a job on the workflow version it was queued with", async () => {
+    const dir = join(WORKFLOWS_DIR, `.retry-test-${process.pid}`);
+    const base = getWorkflow("multisampler", "gen");
+    assert.ok(base);
+    const writeWorkflow = (prefix: string): void => {
+      const graph = structuredClone(base.graph) as Record<string, { inputs: Record<string, unknown> }>;
+      graph["264"].inputs.filename_prefix = prefix;
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(join(dir, "base.json"), JSON.stringify(graph));
+      writeFileSync(join(dir, "base.manifest.json"), JSON.stringify({ ...base.manifest, id: "retry-test" }));
+    };
+
+    try {
+      writeWorkflow("version-1");
+      await reloadWorkflows();
+      mock.executionMs = STUCK_MS;
+      const jobId = submitGen({ workflow: "retry-test" });
+      await waitForStatus(jobId, "running");
+
+      // Edited while the job runs, then the backend drops it and it is retried
+      writeWorkflow("version-2");
+      assert.deepEqual((await reloadWorkflows()).changed, ["retry-test"]);
+      mock.setOffline(true);
+      await waitForStatus(jobId, "queued");
+
+      mock.restart();
+      mock.executionMs = 50;
+      mock.setOffline(false);
+      await refreshAllBackendHealth();
+      kickRunner();
+
+      await waitForStatus(jobId, "completed");
+      const submitted = mock.prompts.get(getJobOrThrow(jobId).comfyPromptId ?? "");
+      assert.equal(submitted?.workflow["264"].inputs.filename_prefix, "version-1");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+      await reloadWorkflows();
+    }
+  });
+});
@@ -0,0 +1,15 @@
+import { startMockComfy } from "./server.js";
+
+// Run the mock as a standalone server so the bot can be started against it:
+//   npm run mock-comfy            then   COMFY_BASE_URL=http://127.0.0.1:8188 npm run dev
+// MOCK_COMFY_PORT and MOCK_COMFY_EXECUTION_MS override the defaults.
+
+const mock = await startMockComfy({
+  port: Number(process.env.MOCK_COMFY_PORT ?? 8188),
+  executionMs: Number(process.env.MOCK_COMFY_EXECUTION_MS ?? 3_000),
+});
+process.stdout.write(`Mock ComfyUI listening on ${mock.url}\n`);
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => void mock.close().then(() => process.exit(0)));
+}
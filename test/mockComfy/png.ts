@@ -0,0 +1,61 @@
+import { deflateSync } from "node:zlib";
+
+// ---------------------------------------------------------------------------
+// Placeholder PNG encoder — enough to hand Discord a real, viewable image
+// ---------------------------------------------------------------------------
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * An RGB gradient `width` × `height` PNG. `seed` shifts the colours so
+ * images from different prompts are easy to tell apart.
+ */
+export function placeholderPng(width: number, height: number, seed = 0): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: RGB
+  // compression, filter and interlace methods stay 0
+
+  const hue = seed % 256;
+  const stride = width * 3 + 1;
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    pixels[y * stride] = 0; // filter: none
+    for (let x = 0; x < width; x++) {
+      const i = y * stride + 1 + x * 3;
+      pixels[i] = (hue + Math.floor((x / width) * 255)) % 256;
+      pixels[i + 1] = Math.floor((y / height) * 255);
+      pixels[i + 2] = 255 - hue;
+    }
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(pixels)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,573 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { createHash, randomUUID } from "node:crypto";
+import type { AddressInfo, Socket } from "node:net";
+import { placeholderPng } from "./png.js";
+
+// ---------------------------------------------------------------------------
+// Mock ComfyUI
+//
+// A lightweight in-process stand-in for a ComfyUI backend. It speaks the subset
+// of the HTTP and WebSocket API the bot uses, validates submitted workflows
+// against its configured model lists the way ComfyUI does, and "executes" one
+// prompt at a time by waiting `executionMs` and saving placeholder PNGs.
+// ---------------------------------------------------------------------------
+
+export interface MockComfyOptions {
+  /** Port to listen on; 0 (the default) picks a free one. */
+  port?: number;
+  checkpoints?: string[];
+  samplers?: string[];
+  schedulers?: string[];
+  loras?: string[];
+  upscaleModels?: string[];
+  controlNets?: string[];
+  /** SHA-256 per LoRA file, served from /view_metadata/loras. */
+  loraHashes?: Record<string, string>;
+  /** How long each prompt takes to run. */
+  executionMs?: number;
+}
+
+/** A node failure to report for the next executed prompt. */
+export interface MockNodeFailure {
+  nodeId: string;
+  nodeType: string;
+  message: string;
+}
+
+export type MockPromptStatus = "pending" | "running" | "success" | "error" | "interrupted";
+
+export interface MockPrompt {
+  promptId: string;
+  clientId: string | null;
+  workflow: Record<string, WorkflowNode>;
+  status: MockPromptStatus;
+  /** Output filenames, set once the prompt has run. */
+  images: string[];
+}
+
+export interface MockComfy {
+  /** Base URL, e.g. http://127.0.0.1:40123 (no trailing slash). */
+  readonly url: string;
+  /** How long each prompt takes to run; may be changed between prompts. */
+  executionMs: number;
+  /** Every prompt accepted since start (or the last restart), in submission order. */
+  readonly prompts: ReadonlyMap<string, MockPrompt>;
+  /** Images received through /upload/image, by name. */
+  readonly uploads: ReadonlyMap<string, Buffer>;
+  /** Number of /interrupt requests that stopped a running prompt. */
+  readonly interrupts: number;
+  /** Make the next prompt to run fail with an execution error on `failure.nodeId`. */
+  failNextPrompt(failure: MockNodeFailure): void;
+  /** Answer the next `times` requests to `route` (e.g. "GET /queue", matched as a prefix) with an HTTP error. */
+  failNextRequest(route: string, statusCode?: number, times?: number): void;
+  /** While offline every HTTP request gets a 503 and sockets are refused. */
+  setOffline(offline: boolean): void;
+  /** Forget the queue and history, as a real ComfyUI restart does. */
+  restart(): void;
+  close(): Promise<void>;
+}
+
+interface WorkflowNode {
+  class_type: string;
+  inputs: Record<string, unknown>;
+}
+
+interface NodeIssue {
+  type: string;
+  message: string;
+  details: string;
+  extra_info: { input_name: string; received_value?: unknown };
+}
+
+const DEFAULTS = {
+  checkpoints: ["animayhemPaleRider_v30PlainsDrifter.safetensors", "ponyDiffusionV6XL.safetensors"],
+  samplers: ["euler", "euler_ancestral", "dpmpp_2m", "dpmpp_2m_sde"],
+  schedulers: ["normal", "karras", "exponential"],
+  loras: ["add_detail.safetensors", "film_grain.safetensors"],
+  upscaleModels: ["RealESRGAN_x4plus_anime_6B.pth", "4x-UltraSharp.pth"],
+  controlNets: ["control_v11p_sd15_openpose.pth", "diffusers_xl_canny_full.safetensors"],
+};
+
+/** Node classes whose outputs end up in the history as saved images. */
+const OUTPUT_CLASSES = new Set(["SaveImage", "Image Saver", "Image Saver Simple"]);
+/** Node classes whose `image` input must name an uploaded file. */
+const IMAGE_LOADER_CLASSES = new Set(["LoadImage", "LoadImageMask", "Image Load with Metadata (WLSH)"]);
+/** Sampler classes whose sampler_name / scheduler are checked against the lists. */
+const SAMPLER_CLASSES = new Set(["KSampler", "KSamplerAdvanced", "KSampler (Efficient)"]);
+/** Further node classes the shipped workflows use; object_info lists them without input specs. */
+const OTHER_CLASSES = [
+  "CLIPSetLastLayer", "CLIPTextEncode", "DynamicThresholdingSimple", "EmptyLatentImage", "FaceDetailer",
+  "ImpactWildcardEncode", "LatentUpscaleBy", "SAMLoader", "Seed Generator (Image Saver)",
+  "UltralyticsDetectorProvider", "VAEDecode", "GetImageSize+", "Image Saver Metadata",
+  "UltimateSDUpscaleCustomSample", "ImageUpscaleWithModel", "ImageScale", "VAEEncode", "RepeatLatentBatch",
+  "GrowMask", "MaskToImage", "ImageBlur", "ImageToMask", "SetLatentNoiseMask", "ImageCompositeMasked",
+  "ControlNetApplyAdvanced", "Canny",
+];
+
+/** Placeholder images are the latent size: 1/8 of the requested pixel size. */
+const LATENT_SCALE = 8;
+const DEFAULT_IMAGE_SIDE = 64;
+const PROGRESS_STEPS = 4;
+const MOCK_VRAM_TOTAL = 24 * 1024 ** 3;
+
+// ---------------------------------------------------------------------------
+// HTTP helpers
+// ---------------------------------------------------------------------------
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendText(res: ServerResponse, status: number, text: string): void {
+  res.writeHead(status, { "content-type": "text/plain" });
+  res.end(text);
+}
+
+/** Split a multipart/form-data body into its named parts. */
+function parseMultipart(body: Buffer, contentType: string): Map<string, { filename: string | null; data: Buffer }> {
+  const parts = new Map<string, { filename: string | null; data: Buffer }>();
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  if (!boundary) return parts;
+  const delimiter = `--${boundary[1] ?? boundary[2]}`;
+  // latin1 maps bytes 1:1, so part data survives the round trip through a string
+  for (const raw of body.toString("latin1").split(delimiter)) {
+    const headerEnd = raw.indexOf("\r\n\r\n");
+    if (headerEnd === -1) continue;
+    const headers = raw.slice(0, headerEnd);
+    const name = /name="([^"]*)"/.exec(headers)?.[1];
+    if (!name) continue;
+    const filename = /filename="([^"]*)"/.exec(headers)?.[1] ?? null;
+    const data = Buffer.from(raw.slice(headerEnd + 4).replace(/\r\n$/, ""), "latin1");
+    parts.set(name, { filename, data });
+  }
+  return parts;
+}
+
+/** Encode one unmasked WebSocket text frame (server → client). */
+function textFrame(text: string): Buffer {
+  const payload = Buffer.from(text, "utf-8");
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65_536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** ComfyUI's object_info shape for a node with list-valued inputs. */
+function nodeInfo(lists: Record<string, string[]>): Record<string, unknown> {
+  return {
+    input: { required: Object.fromEntries(Object.entries(lists).map(([field, values]) => [field, [values]])) },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+export async function startMockComfy(options: MockComfyOptions = {}): Promise<MockComfy> {
+  const lists = {
+    checkpoints: options.checkpoints ?? DEFAULTS.checkpoints,
+    samplers: options.samplers ?? DEFAULTS.samplers,
+    schedulers: options.schedulers ?? DEFAULTS.schedulers,
+    loras: options.loras ?? DEFAULTS.loras,
+    upscaleModels: options.upscaleModels ?? DEFAULTS.upscaleModels,
+    controlNets: options.controlNets ?? DEFAULTS.controlNets,
+  };
+  const loraHashes = options.loraHashes ?? {};
+
+  const prompts = new Map<string, MockPrompt>();
+  const history = new Map<string, Record<string, unknown>>();
+  const pending: string[] = [];
+  const uploads = new Map<string, Buffer>();
+  const images = new Map<string, Buffer>();
+  const sockets = new Map<Socket, string>(); // WebSocket → clientId
+
+  let running: { promptId: string; timer: NodeJS.Timeout } | null = null;
+  let nextFailure: MockNodeFailure | null = null;
+  const requestFailures = new Map<string, { statusCode: number; times: number }>(); // by route prefix
+  let offline = false;
+  let interrupts = 0;
+  let promptNumber = 0;
+  let fileCounter = 0;
+
+  const objectInfo: Record<string, unknown> = {
+    ...Object.fromEntries(OTHER_CLASSES.map((cls) => [cls, nodeInfo({})])),
+    ...Object.fromEntries([...IMAGE_LOADER_CLASSES, ...OUTPUT_CLASSES].map((cls) => [cls, nodeInfo({})])),
+    ...Object.fromEntries(
+      [...SAMPLER_CLASSES, "KSamplerEfficient"].map((cls) => [
+        cls,
+        nodeInfo({ sampler_name: lists.samplers, scheduler: lists.schedulers }),
+      ]),
+    ),
+    CheckpointLoaderSimpleMikey: nodeInfo({ ckpt_name: lists.checkpoints }),
+    "Checkpoint Loader Simple Mikey": nodeInfo({ ckpt_name: lists.checkpoints }),
+    CheckpointLoaderSimple: nodeInfo({ ckpt_name: lists.checkpoints }),
+    LoraLoader: nodeInfo({ lora_name: lists.loras }),
+    UpscaleModelLoader: nodeInfo({ model_name: lists.upscaleModels }),
+    ControlNetLoader: nodeInfo({ control_net_name: lists.controlNets }),
+  };
+
+  // --- WebSocket events ----------------------------------------------------
+
+  function emit(prompt: MockPrompt, type: string, data: Record<string, unknown>): void {
+    const frame = textFrame(JSON.stringify({ type, data: { ...data, prompt_id: prompt.promptId } }));
+    for (const [socket, clientId] of sockets) {
+      if (clientId === prompt.clientId) socket.write(frame);
+    }
+  }
+
+  // --- Validation ------------------------------------------------------------
+
+  function checkInput(issues: NodeIssue[], input: string, value: unknown, allowed: string[]): void {
+    if (typeof value !== "string" || allowed.includes(value)) return;
+    issues.push({
+      type: "value_not_in_list",
+      message: "Value not in list",
+      details: `${input}: '${value}' not in [${allowed.map((v) => `'${v}'`).join(", ")}]`,
+      extra_info: { input_name: input, received_value: value },
+    });
+  }
+
+  /** ComfyUI-style `node_errors` for a workflow, keyed by node ID; empty when it is valid. */
+  function validateWorkflow(workflow: Record<string, WorkflowNode>): Record<string, unknown> {
+    const nodeErrors: Record<string, unknown> = {};
+    for (const [nodeId, node] of Object.entries(workflow)) {
+      const issues: NodeIssue[] = [];
+      const inputs = node.inputs ?? {};
+      checkInput(issues, "ckpt_name", inputs.ckpt_name, lists.checkpoints);
+      checkInput(issues, "lora_name", inputs.lora_name, lists.loras);
+      checkInput(issues, "control_net_name", inputs.control_net_name, lists.controlNets);
+      if (SAMPLER_CLASSES.has(node.class_type)) {
+        checkInput(issues, "sampler_name", inputs.sampler_name, lists.samplers);
+        checkInput(issues, "scheduler", inputs.scheduler, lists.schedulers);
+      }
+      if (node.class_type === "UpscaleModelLoader") {
+        checkInput(issues, "model_name", inputs.model_name, lists.upscaleModels);
+      }
+      if (IMAGE_LOADER_CLASSES.has(node.class_type) && typeof inputs.image === "string" && !uploads.has(inputs.image)) {
+        issues.push({
+          type: "custom_validation_failed",
+          message: "Custom validation failed for node",
+          details: `image - Invalid image file: ${inputs.image}`,
+          extra_info: { input_name: "image" },
+        });
+      }
+      if (issues.length > 0) {
+        nodeErrors[nodeId] = { errors: issues, dependent_outputs: [], class_type: node.class_type };
+      }
+    }
+    return nodeErrors;
+  }
+
+  // --- Execution -----------------------------------------------------------
+
+  function startNext(): void {
+    if (running || offline) return;
+    const promptId = pending.shift();
+    if (!promptId) return;
+    const prompt = prompts.get(promptId)!;
+    prompt.status = "running";
+    emit(prompt, "execution_start", { timestamp: Date.now() });
+    emit(prompt, "executing", { node: Object.keys(prompt.workflow)[0] ?? null });
+    for (let step = 1; step <= PROGRESS_STEPS; step++) {
+      emit(prompt, "progress", { value: step, max: PROGRESS_STEPS, node: null });
+    }
+    running = { promptId, timer: setTimeout(() => finish(prompt), mock.executionMs) };
+  }
+
+  function finish(prompt: MockPrompt): void {
+    running = null;
+    const failure = nextFailure;
+    nextFailure = null;
+
+    if (failure) {
+      prompt.status = "error";
+      const data = {
+        node_id: failure.nodeId,
+        node_type: failure.nodeType,
+        exception_message: failure.message,
+        exception_type: "RuntimeError",
+        traceback: [`  File "execution.py", line 1, in ${failure.nodeType}\n`],
+        executed: [],
+      };
+      recordHistory(prompt, {}, "error", [["execution_error", { ...data, prompt_id: prompt.promptId }]]);
+      emit(prompt, "execution_error", data);
+    } else {
+      const outputs = saveOutputs(prompt);
+      prompt.status = "success";
+      recordHistory(prompt, outputs, "success", [["execution_success", { prompt_id: prompt.promptId }]]);
+      emit(prompt, "executing", { node: null });
+      emit(prompt, "execution_success", {});
+    }
+    startNext();
+  }
+
+  function interruptRunning(): void {
+    if (!running) return;
+    clearTimeout(running.timer);
+    const prompt = prompts.get(running.promptId)!;
+    running = null;
+    interrupts++;
+    prompt.status = "interrupted";
+    recordHistory(prompt, {}, "error", [["execution_interrupted", { prompt_id: prompt.promptId, executed: [] }]]);
+    emit(prompt, "execution_interrupted", {});
+    startNext();
+  }
+
+  /** Write placeholder PNGs for every output node; batch size and image size follow the latent. */
+  function saveOutputs(prompt: MockPrompt): Record<string, unknown> {
+    const latent = Object.values(prompt.workflow).find((n) => n.class_type === "EmptyLatentImage");
+    const batch = Math.max(Number(latent?.inputs.batch_size) || 1, 1);
+    const width = Math.max(Math.round(Number(latent?.inputs.width) / LATENT_SCALE) || DEFAULT_IMAGE_SIDE, 1);
+    const height = Math.max(Math.round(Number(latent?.inputs.height) / LATENT_SCALE) || DEFAULT_IMAGE_SIDE, 1);
+
+    const outputs: Record<string, unknown> = {};
+    for (const [nodeId, node] of Object.entries(prompt.workflow)) {
+      if (!OUTPUT_CLASSES.has(node.class_type)) continue;
+      const prefix = typeof node.inputs.filename_prefix === "string" ? node.inputs.filename_prefix : "ComfyUI";
+      const saved = Array.from({ length: batch }, () => {
+        const filename = `${prefix}_${String(++fileCounter).padStart(5, "0")}_.png`;
+        images.set(filename, placeholderPng(width, height, fileCounter));
+        prompt.images.push(filename);
+        return { filename, subfolder: "", type: "output" };
+      });
+      outputs[nodeId] = { images: saved };
+    }
+    return outputs;
+  }
+
+  function recordHistory(
+    prompt: MockPrompt,
+    outputs: Record<string, unknown>,
+    statusStr: "success" | "error",
+    messages: Array<[string, Record<string, unknown>]>,
+  ): void {
+    history.set(prompt.promptId, {
+      prompt: [promptNumber, prompt.promptId, prompt.workflow, { client_id: prompt.clientId }, Object.keys(outputs)],
+      outputs,
+      status: { status_str: statusStr, completed: statusStr === "success", messages },
+    });
+  }
+
+  // --- Routes --------------------------------------------------------------
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (offline) return sendText(res, 503, "Service Unavailable");
+
+    const url = new URL(req.url ?? "/", "http://mock");
+    const route = `${req.method} ${url.pathname}`;
+
+    const failing = [...requestFailures.keys()].find((prefix) => route.startsWith(prefix));
+    if (failing) {
+      const failure = requestFailures.get(failing)!;
+      if (--failure.times === 0) requestFailures.delete(failing);
+      return sendText(res, failure.statusCode, "Injected failure");
+    }
+
+    if (route === "GET /system_stats") {
+      return sendJson(res, 200, {
+        system: { os: "posix", comfyui_version: "mock", python_version: "3.11" },
+        devices: [
+          {
+            name: "cuda:0 Mock GPU",
+            type: "cuda",
+            index: 0,
+            vram_total: MOCK_VRAM_TOTAL,
+            vram_free: running ? MOCK_VRAM_TOTAL / 4 : MOCK_VRAM_TOTAL,
+          },
+        ],
+      });
+    }
+
+    if (route === "GET /object_info") return sendJson(res, 200, objectInfo);
+
+    if (route === "POST /prompt") {
+      let payload: { prompt?: Record<string, WorkflowNode>; client_id?: string };
+      try {
+        payload = JSON.parse((await readBody(req)).toString("utf-8")) as typeof payload;
+      } catch {
+        return sendJson(res, 400, { error: { type: "invalid_prompt", message: "Invalid JSON", details: "" }, node_errors: {} });
+      }
+      const workflow = payload.prompt;
+      if (!workflow || typeof workflow !== "object") {
+        return sendJson(res, 400, {
+          error: { type: "no_prompt", message: "No prompt provided", details: "" },
+          node_errors: {},
+        });
+      }
+      const nodeErrors = validateWorkflow(workflow);
+      if (Object.keys(nodeErrors).length > 0) {
+        return sendJson(res, 400, {
+          error: { type: "prompt_outputs_failed_validation", message: "Prompt outputs failed validation", details: "" },
+          node_errors: nodeErrors,
+        });
+      }
+
+      const promptId = randomUUID();
+      prompts.set(promptId, { promptId, clientId: payload.client_id ?? null, workflow, status: "pending", images: [] });
+      pending.push(promptId);
+      promptNumber++;
+      sendJson(res, 200, { prompt_id: promptId, number: promptNumber, node_errors: {} });
+      startNext();
+      return;
+    }
+
+    const historyMatch = /^\/history\/([^/]+)$/.exec(url.pathname);
+    if (req.method === "GET" && historyMatch) {
+      const entry = history.get(historyMatch[1]);
+      return sendJson(res, 200, entry ? { [historyMatch[1]]: entry } : {});
+    }
+
+    if (route === "GET /queue") {
+      const item = (promptId: string) => [0, promptId, prompts.get(promptId)?.workflow ?? {}, {}, []];
+      return sendJson(res, 200, {
+        queue_running: running ? [item(running.promptId)] : [],
+        queue_pending: pending.map(item),
+      });
+    }
+
+    if (route === "POST /queue") {
+      const body = JSON.parse((await readBody(req)).toString("utf-8") || "{}") as { delete?: string[]; clear?: boolean };
+      const remove = body.clear ? [...pending] : (body.delete ?? []);
+      for (const promptId of remove) {
+        const index = pending.indexOf(promptId);
+        if (index === -1) continue;
+        pending.splice(index, 1);
+        prompts.delete(promptId);
+      }
+      res.writeHead(200);
+      res.end();
+      return;
+    }
+
+    if (route === "POST /interrupt") {
+      const raw = (await readBody(req)).toString("utf-8");
+      const body = (raw ? JSON.parse(raw) : {}) as { prompt_id?: string };
+      if (!body.prompt_id || body.prompt_id === running?.promptId) interruptRunning();
+      res.writeHead(200);
+      res.end();
+      return;
+    }
+
+    if (route === "GET /view") {
+      const filename = url.searchParams.get("filename") ?? "";
+      const data = url.searchParams.get("type") === "input" ? uploads.get(filename) : images.get(filename);
+      if (!data) return sendText(res, 404, "Not Found");
+      res.writeHead(200, { "content-type": "image/png" });
+      res.end(data);
+      return;
+    }
+
+    if (route === "POST /upload/image") {
+      const parts = parseMultipart(await readBody(req), req.headers["content-type"] ?? "");
+      const image = parts.get("image");
+      if (!image?.filename) return sendText(res, 400, "No image in request");
+      uploads.set(image.filename, image.data);
+      return sendJson(res, 200, { name: image.filename, subfolder: "", type: "input" });
+    }
+
+    if (route === "GET /view_metadata/loras") {
+      const filename = url.searchParams.get("filename") ?? "";
+      if (!lists.loras.includes(filename)) return sendText(res, 404, "Not Found");
+      const hash = loraHashes[filename];
+      return sendJson(res, 200, hash ? { "modelspec.hash.sha256": hash, ss_network_module: "networks.lora" } : {});
+    }
+
+    return sendText(res, 404, "Not Found");
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err: unknown) => {
+      if (!res.headersSent) sendText(res, 500, String(err));
+      else res.end();
+    });
+  });
+
+  // Minimal /ws: handshake, then push-only text frames. Nothing the client sends is read.
+  server.on("upgrade", (req: IncomingMessage, socket: Socket) => {
+    const url = new URL(req.url ?? "/", "http://mock");
+    const key = req.headers["sec-websocket-key"];
+    if (offline || url.pathname !== "/ws" || typeof key !== "string") {
+      socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+      return;
+    }
+    const accept = createHash("sha1").update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+    );
+    const clientId = url.searchParams.get("clientId") ?? "";
+    sockets.set(socket, clientId);
+    socket.write(textFrame(JSON.stringify({ type: "status", data: { sid: clientId, status: { exec_info: { queue_remaining: pending.length } } } })));
+    socket.on("data", () => {}); // keep the stream flowing
+    socket.on("error", () => sockets.delete(socket));
+    socket.on("close", () => sockets.delete(socket));
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const mock: MockComfy = {
+    url: `http://127.0.0.1:${port}`,
+    executionMs: options.executionMs ?? 50,
+    prompts,
+    uploads,
+    get interrupts() {
+      return interrupts;
+    },
+
+    failNextPrompt(failure: MockNodeFailure): void {
+      nextFailure = failure;
+    },
+
+    failNextRequest(route: string, statusCode = 500, times = 1): void {
+      requestFailures.set(route, { statusCode, times });
+    },
+
+    setOffline(value: boolean): void {
+      offline = value;
+      if (offline) {
+        for (const socket of sockets.keys()) socket.destroy();
+        sockets.clear();
+      } else {
+        startNext();
+      }
+    },
+
+    restart(): void {
+      if (running) clearTimeout(running.timer);
+      running = null;
+      pending.length = 0;
+      prompts.clear();
+      history.clear();
+      for (const socket of sockets.keys()) socket.destroy();
+      sockets.clear();
+    },
+
+    async close(): Promise<void> {
+      mock.restart();
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    },
+  };
+  return mock;
+}
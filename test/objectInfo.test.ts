@@ -0,0 +1,42 @@
+import { mock, teardown } from "./helpers/setup.js";
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { refreshAllBackendHealth } from "../src/comfy/backendPool.js";
+import { fetchOptions, clearOptionsCache } from "../src/comfy/objectInfo.js";
+
+after(teardown);
+
+describe("fetchOptions", () => {
+  before(async () => {
+    assert.equal(await refreshAllBackendHealth(), 1);
+  });
+
+  it("reads models, samplers, schedulers and LoRAs from object_info", async () => {
+    clearOptionsCache();
+    const options = await fetchOptions();
+    assert.deepEqual(options.models, ["animayhemPaleRider_v30PlainsDrifter.safetensors", "ponyDiffusionV6XL.safetensors"]);
+    assert.deepEqual(options.samplers, ["euler", "euler_ancestral", "dpmpp_2m", "dpmpp_2m_sde"]);
+    assert.deepEqual(options.schedulers, ["normal", "karras", "exponential"]);
+    assert.deepEqual(options.loras, ["add_detail.safetensors", "film_grain.safetensors"]);
+  });
+
+  it("serves the cache until it is cleared", async () => {
+    clearOptionsCache();
+    const first = await fetchOptions();
+    assert.equal(await fetchOptions(), first);
+    clearOptionsCache();
+    assert.notEqual(await fetchOptions(), first);
+  });
+
+  it("fails when no backend is healthy", async () => {
+    mock.setOffline(true);
+    try {
+      assert.equal(await refreshAllBackendHealth(), 0);
+      clearOptionsCache();
+      await assert.rejects(fetchOptions(), /No healthy ComfyUI backend/);
+    } finally {
+      mock.setOffline(false);
+      await refreshAllBackendHealth();
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { teardown } from "./helpers/setup.js";
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { customSize, presetSize, profileForModel, ratioOfSize } from "../src/queue/sizes.js";
+import { genJobCost } from "../src/queue/quota.js";
+import { initDraftFromJob, mergeDraft } from "../src/bot/components/formEmbed.js";
+import { jobRow, TEST_USER_ID } from "./helpers/fixtures.js";
+
+after(teardown);
+
+describe("image sizes", () => {
+  it("resolves aspect ratios against the checkpoint's resolution profile", () => {
+    assert.equal(profileForModel("ponyDiffusionV6XL.safetensors"), "sdxl");
+    assert.equal(profileForModel("dreamshaper_8_SD15.safetensors"), "sd15");
+    assert.equal(presetSize("ponyDiffusionV6XL.safetensors", "21:9"), "1536x640");
+    assert.equal(presetSize("v1-5-pruned-emaonly.safetensors", "2:3"), "512x768");
+    assert.equal(ratioOfSize("ponyDiffusionV6XL.safetensors", "1216x832"), "3:2");
+    assert.equal(ratioOfSize("ponyDiffusionV6XL.safetensors", "512x768"), null);
+  });
+
+  it("rounds custom sizes to multiples of 64 within the megapixel cap", () => {
+    assert.deepEqual(customSize(1000, 630), { ok: true, size: "1024x640" });
+    assert.deepEqual(customSize(200, 1024), { ok: false, reason: "Width and height must be at least 256." });
+    assert.deepEqual(customSize(2048, 2048), { ok: false, reason: "2048×2048 is 4.19 MP; the limit is 2.5 MP." });
+    assert.equal(customSize(Number("wide"), 512).ok, false);
+  });
+
+  it("costs a job by its stored dimensions", () => {
+    assert.equal(genJobCost(30, "1024x1024", 2), 62.91);
+    assert.equal(genJobCost(30, "512x512", 1), 7.86);
+  });
+
+  it("keeps a draft's aspect ratio across a model change, but not a custom size", () => {
+    initDraftFromJob(TEST_USER_ID, jobRow({ model: "ponyDiffusionV6XL.safetensors", size: "832x1216" }));
+    const sd15 = mergeDraft(TEST_USER_ID, { model: "dreamshaper_8_SD15.safetensors" });
+    assert.deepEqual([sd15.aspectRatio, sd15.size], ["2:3", "512x768"]);
+
+    mergeDraft(TEST_USER_ID, { size: "1024x640", aspectRatio: null });
+    const custom = mergeDraft(TEST_USER_ID, { model: "ponyDiffusionV6XL.safetensors" });
+    assert.equal(custom.size, "1024x640");
+  });
+});
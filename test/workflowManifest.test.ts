@@ -0,0 +1,148 @@
+import { mock, teardown } from "./helpers/setup.js";
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import { createComfyClient } from "../src/comfy/client.js";
+import { refreshAllBackendHealth } from "../src/comfy/backendPool.js";
+import {
+  checkWorkflow,
+  checkWorkflowInstalled,
+  checkInstalledWorkflows,
+  getWorkflow,
+  listWorkflows,
+  onWorkflowReload,
+  reloadWorkflows,
+  workflowLoadErrors,
+  WORKFLOWS_DIR,
+  type WorkflowReload,
+} from "../src/comfy/workflowManifest.js";
+import { bind } from "../src/comfy/workflowBinder.js";
+import { jobRow } from "./helpers/fixtures.js";
+
+after(teardown);
+
+describe("workflow manifests", () => {
+  it("loads every shipped workflow", () => {
+    assert.deepEqual(workflowLoadErrors(), []);
+    assert.deepEqual(listWorkflows("gen").map((w) => w.manifest.id).sort(), ["multisampler", "wildcard"]);
+    assert.deepEqual(listWorkflows("upscale").map((w) => w.manifest.id).sort(), ["simple", "ultimate"]);
+    assert.deepEqual(listWorkflows("inpaint").map((w) => w.manifest.id), ["inpaint"]);
+    assert.equal(getWorkflow("ultimate", "upscale")?.manifest.timeoutFactor, 2);
+    assert.equal(getWorkflow("ultimate", "gen"), undefined, "lookups are by kind");
+  });
+
+  it("reports every target missing from the graph", () => {
+    const def = getWorkflow("multisampler", "gen");
+    assert.ok(def);
+    const graph = structuredClone(def.graph) as Record<string, { inputs: Record<string, unknown> }>;
+    delete graph["4"];
+    delete graph["239"].inputs.cfg;
+
+    assert.deepEqual(checkWorkflow({ ...def, graph }), [
+      'negative: node "4" is missing or has no inputs',
+      'cfg: node "239" inputs.cfg is missing or null',
+      'controlNet: negative node "4" is missing',
+    ]);
+  });
+
+  it("refuses LoRAs for a workflow without an attach node", () => {
+    const def = getWorkflow("multisampler", "gen");
+    assert.ok(def);
+    const original = def.manifest;
+    const { loras: _attach, ...manifest } = original;
+    def.manifest = manifest;
+    try {
+      const result = bind(jobRow({ loras: [{ name: "add_detail.safetensors", strength: 1, triggerWords: [] }, null, null, null] }));
+      assert.deepEqual(result, { ok: false, reason: "The Multi-sampler workflow does not support LoRAs." });
+    } finally {
+      def.manifest = original;
+    }
+  });
+
+  it("fails binding for an unknown workflow id", () => {
+    const result = bind(jobRow({ workflow: "nope" }));
+    assert.deepEqual(result, { ok: false, reason: 'The generation workflow "nope" is not installed or failed validation.' });
+  });
+});
+
+describe("workflows against object_info", () => {
+  it("accepts every shipped workflow on a backend that has its nodes and models", async () => {
+    assert.equal(await refreshAllBackendHealth(), 1);
+    const report = await checkInstalledWorkflows();
+    assert.equal(report.checked, 1);
+    assert.deepEqual([...report.problems], []);
+    assert.deepEqual(report.unusable, []);
+  });
+
+  it("reports every missing class and unavailable value with its node", async () => {
+    const objectInfo = await createComfyClient(mock.url).getObjectInfo();
+    delete objectInfo["ImpactWildcardEncode"];
+    delete objectInfo["LoraLoader"];
+    // Newer ComfyUI builds describe combos as ["COMBO", { options }]
+    objectInfo["SAMLoader"] = { input: { required: { model_name: ["COMBO", { options: [] }] } } };
+    objectInfo["UpscaleModelLoader"] = { input: { required: { model_name: [["4x-UltraSharp.pth"]] } } };
+
+    const wildcard = getWorkflow("wildcard", "gen");
+    const ultimate = getWorkflow("ultimate", "upscale");
+    assert.ok(wildcard && ultimate);
+    assert.deepEqual(checkWorkflowInstalled(wildcard, objectInfo), [
+      'node "51" (SAMLoader): model_name "sam_vit_b_01ec64.pth" is not available (none installed)',
+      'node "119" (SAMLoader): model_name "sam_vit_b_01ec64.pth" is not available (none installed)',
+      'node "269": ImpactWildcardEncode is not installed',
+      "loras: LoraLoader is not installed",
+    ]);
+    assert.deepEqual(checkWorkflowInstalled(ultimate, objectInfo), [
+      'node "126" (UpscaleModelLoader): model_name "RealESRGAN_x4plus_anime_6B.pth" is not available (4x-UltraSharp.pth)',
+    ]);
+  });
+});
+
+describe("workflow hot reload", () => {
+  const dir = join(WORKFLOWS_DIR, `.reload-test-${process.pid}`);
+  const simple = getWorkflow("simple", "upscale");
+  assert.ok(simple);
+
+  function writeWorkflow(manifest: Record<string, unknown>): void {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "base.json"), JSON.stringify(simple?.graph));
+    writeFileSync(join(dir, "base.manifest.json"), JSON.stringify({ ...simple?.manifest, id: "reload-test", ...manifest }));
+  }
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("swaps in a changed workflow while queued jobs keep the version they were bound with", async () => {
+    writeWorkflow({ label: "Version 1" });
+    assert.deepEqual((await reloadWorkflows()).changed, ["reload-test"]);
+    const queuedWith = getWorkflow("reload-test", "upscale");
+    assert.equal(queuedWith?.manifest.label, "Version 1");
+
+    writeWorkflow({ label: "Version 2" });
+    assert.deepEqual(await reloadWorkflows(), { changed: ["reload-test"], removed: [], rejected: [] });
+    assert.equal(getWorkflow("reload-test", "upscale")?.manifest.label, "Version 2");
+    assert.equal(queuedWith?.manifest.label, "Version 1");
+  });
+
+  it("keeps the previous version live when an edit fails validation", async () => {
+    const live = getWorkflow("reload-test", "upscale");
+    const reported: WorkflowReload[] = [];
+    onWorkflowReload((reload) => reported.push(reload));
+
+    writeWorkflow({ label: "Broken", params: { image: [{ node: "99", field: "image" }], upscaleModel: [{ node: "2", field: "model_name" }] } });
+    const reload = await reloadWorkflows();
+    const problem = `${relative(WORKFLOWS_DIR, dir)}/base.json: image: node "99" is missing or has no inputs`;
+    assert.deepEqual(reload, { changed: [], removed: [], rejected: [problem] });
+    assert.deepEqual(reported, [reload]);
+    assert.equal(getWorkflow("reload-test", "upscale"), live);
+
+    // The same problem is not reported again on the next reload
+    assert.deepEqual((await reloadWorkflows()).rejected, []);
+  });
+
+  it("drops a workflow whose files are deleted", async () => {
+    rmSync(dir, { recursive: true, force: true });
+    assert.deepEqual((await reloadWorkflows()).removed, ["reload-test"]);
+    assert.equal(getWorkflow("reload-test", "upscale"), undefined);
+    assert.deepEqual(workflowLoadErrors(), []);
+  });
+});